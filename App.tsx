@@ -1,12 +1,61 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { InputSection } from './components/InputSection';
 import { BlueprintVisuals } from './components/BlueprintVisuals';
 import { ResultTabs } from './components/ResultTabs';
 import { CodeBlock } from './components/CodeBlock';
-import { generateBlueprint, generateModuleCode } from './services/geminiService';
-import { AppStatus, Blueprint, TabOption } from './types';
-import { Bot, Terminal, AlertCircle, Loader, Loader2, Code, Download, ChevronRight, Zap, Shield, Layout, Database, Wifi, RefreshCw, Check, X } from 'lucide-react';
-import JSZip from 'jszip';
+import { ProjectSidebar } from './components/ProjectSidebar';
+import { BlueprintRefinePanel } from './components/BlueprintRefinePanel';
+import { BlueprintEditor } from './components/BlueprintEditor';
+import { SchemaDiagram } from './components/SchemaDiagram';
+import { ArchitectureDiagram } from './components/ArchitectureDiagram';
+import { VersionHistoryPanel } from './components/VersionHistoryPanel';
+import { ModuleStatusBanner } from './components/ModuleStatusBanner';
+import { DatabaseConnectionPanel } from './components/DatabaseConnectionPanel';
+import { DatabaseSandbox } from './components/DatabaseSandbox';
+import { fixModuleError, generateBlueprint, generateModuleCode, refineBlueprint, regenerateFile, repairModuleFiles } from './services/geminiService';
+import { DEFAULT_PROVIDER, isAbortError, toGenerationError } from './services/providers';
+import { normalizeBlueprint } from './services/schemaMigration';
+import { generateSchemaFiles } from './services/schemaExport';
+import { buildProjectArchive, collectProjectFiles } from './services/projectExport';
+import { createProjectManifest, readProjectManifest } from './services/projectManifest';
+import { downloadFile } from './services/diagramExport';
+import { ExportMenu, ExportOptions } from './components/ExportMenu';
+import { FolderSyncPanel } from './components/FolderSyncPanel';
+import { moduleFiles } from './services/codeDiff';
+import { ValidationIssue, validateModule } from './services/projectValidation';
+import { normalizePath } from './services/preview/bundler';
+import { FileChange, FileEntry, keepCompleteFiles, mergeFiles, parseFiles, serializeFiles } from './services/fileProtocol';
+import { createProjectId, deleteProject, getActiveProjectId, listProjects, listSnapshots, loadProject, readSetting, renameProject, saveProject, saveSnapshot, setActiveProjectId, writeSetting } from './services/projectStore';
+import { AppStatus, Blueprint, CodeSnapshot, ModuleKind, ModuleState, ModuleStatus, PreviewErrorReport, ProjectSummary, ProviderConfig, SavedProject, TabOption } from './types';
+import { Bot, AlertCircle, Loader, Code, ChevronRight, Zap, Shield, Layout, Database, Check, X, FolderOpen, Wand2, Pencil, Play, FolderSync } from 'lucide-react';
+
+const AUTO_GENERATE_KEY = 'devarchitect.autoGenerate';
+
+const MODULE_KINDS: ModuleKind[] = ['frontend', 'backend', 'deployment'];
+const MAX_REPAIR_ROUNDS = 3;
+const IDLE_MODULES: Record<ModuleKind, ModuleState> = {
+  frontend: { status: ModuleStatus.IDLE },
+  backend: { status: ModuleStatus.IDLE },
+  deployment: { status: ModuleStatus.IDLE },
+};
+
+const isModuleBusy = (state: ModuleState) => state.status === ModuleStatus.QUEUED || state.status === ModuleStatus.STREAMING;
+
+// A module that was streaming when the project was saved is resumable; older projects only have their code to go on
+const restoreModuleStates = (project: SavedProject | null): Record<ModuleKind, ModuleState> => {
+  if (!project) return IDLE_MODULES;
+  const code: Record<ModuleKind, string | null> = { frontend: project.frontendCode, backend: project.backendCode, deployment: project.deploymentGuide };
+  return Object.fromEntries(MODULE_KINDS.map(module => {
+    const saved = project.moduleStates?.[module];
+    if (saved && !isModuleBusy(saved)) return [module, saved];
+    if (saved) return [module, { status: code[module] ? ModuleStatus.CANCELLED : ModuleStatus.IDLE }];
+    return [module, { status: code[module] ? ModuleStatus.DONE : ModuleStatus.IDLE }];
+  })) as Record<ModuleKind, ModuleState>;
+};
+
+const EMPTY_FILE_HISTORY: Record<ModuleKind, FileEntry[]> = { frontend: [], backend: [], deployment: [] };
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
@@ -17,125 +66,519 @@ const App: React.FC = () => {
   const [backendCode, setBackendCode] = useState<string>("");
   const [deploymentGuide, setDeploymentGuide] = useState<string>("");
   
-  const [loadingModules, setLoadingModules] = useState({
-    frontend: false,
-    backend: false,
-    deployment: false
-  });
+  const [moduleStates, setModuleStates] = useState<Record<ModuleKind, ModuleState>>(IDLE_MODULES);
+  const loadingModules: Record<ModuleKind, boolean> = {
+    frontend: isModuleBusy(moduleStates.frontend),
+    backend: isModuleBusy(moduleStates.backend),
+    deployment: isModuleBusy(moduleStates.deployment),
+  };
+  const controllersRef = useRef<Partial<Record<ModuleKind, AbortController>>>({});
 
   const [isExporting, setIsExporting] = useState(false);
+  const [isFixingFrontend, setIsFixingFrontend] = useState(false);
+  // Single-file regenerations in flight, with the replacement streamed so far
+  const [fileJobs, setFileJobs] = useState<Partial<Record<ModuleKind, FileEntry>>>({});
+  // Round of the validation repair loop running for each module
+  const [repairRounds, setRepairRounds] = useState<Partial<Record<ModuleKind, number>>>({});
+  // Previous versions of files replaced by regeneration or edits, newest last
+  const [fileHistory, setFileHistory] = useState<Record<ModuleKind, FileEntry[]>>(EMPTY_FILE_HISTORY);
+  // Module output as it finished generating; the explorer marks files that differ from it
+  const [generatedCode, setGeneratedCode] = useState<Partial<Record<ModuleKind, string>>>({});
+  // Earlier versions of each module for the history panel, oldest first
+  const [snapshots, setSnapshots] = useState<CodeSnapshot[]>([]);
+  const [historyModule, setHistoryModule] = useState<ModuleKind | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  // Database Connection Simulation State
-  const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'success' | 'failure'>('idle');
-  const [connectionLogs, setConnectionLogs] = useState<string[]>([]);
+  // Project workspace state
+  const [projectMeta, setProjectMeta] = useState<Pick<SavedProject, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [requirements, setRequirements] = useState('');
+  const [provider, setProvider] = useState<ProviderConfig>(DEFAULT_PROVIDER);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isRefineOpen, setIsRefineOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [schemaView, setSchemaView] = useState<'diagram' | 'cards'>('diagram');
+  const [autoGenerate, setAutoGenerate] = useState(() => readSetting(AUTO_GENERATE_KEY) !== 'false');
+
+  // Bumped whenever the workspace switches so late stream chunks from a previous project are dropped
+  const sessionRef = useRef(0);
+  const snapshotRef = useRef<SavedProject | null>(null);
+  const saveTimerRef = useRef<number | null>(null);
+
+  const refreshProjects = useCallback(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(err => console.error("Failed to list projects", err));
+  }, []);
+
+  // Writes the pending autosave now rather than when its timer fires, before the snapshot moves on
+  const flushSave = () => {
+    if (saveTimerRef.current === null) return;
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    const snapshot = snapshotRef.current;
+    if (!snapshot) return;
+    saveProject(snapshot)
+      .then(refreshProjects)
+      .catch(err => console.error("Failed to save project", err));
+  };
+
+  const applyProject = (project: SavedProject | null) => {
+    flushSave();
+    sessionRef.current += 1;
+    abortGeneration();
+
+    setProjectMeta(project ? { id: project.id, name: project.name, createdAt: project.createdAt } : null);
+    setActiveProjectId(project?.id || null);
+    setRequirements(project?.requirements || '');
+    // Projects saved before provider selection existed used Gemini
+    if (project) setProvider(project.provider || DEFAULT_PROVIDER);
+    setBlueprint(project?.blueprint ? normalizeBlueprint(project.blueprint) : null);
+    setFrontendCode(project?.frontendCode || "");
+    setBackendCode(project?.backendCode || "");
+    setDeploymentGuide(project?.deploymentGuide || "");
+    // Projects saved before editing existed have no baseline; treat their code as unmodified
+    setGeneratedCode(project?.generatedCode || (project ? {
+      frontend: project.frontendCode || "",
+      backend: project.backendCode || "",
+      deployment: project.deploymentGuide || "",
+    } : {}));
+    setError(project?.error || null);
+    setActiveTab(project?.activeTab || TabOption.SUMMARY);
+    setModuleStates(restoreModuleStates(project));
+    setFileJobs({});
+    setRepairRounds({});
+    setFileHistory(EMPTY_FILE_HISTORY);
+    setSnapshots([]);
+    setHistoryModule(null);
+    setIsRefineOpen(false);
+    setIsSyncOpen(false);
+    setIsEditing(false);
+
+    if (project) {
+      const session = sessionRef.current;
+      listSnapshots(project.id)
+        .then(list => sessionRef.current === session && setSnapshots(list))
+        .catch(err => console.error("Failed to load version history", err));
+    }
+
+    // A project saved mid-generation is restored with whatever had streamed so far
+    let restoredStatus = project?.status || AppStatus.IDLE;
+    if (restoredStatus === AppStatus.GENERATING_BLUEPRINT || restoredStatus === AppStatus.GENERATING_CODE) {
+      restoredStatus = project?.blueprint ? AppStatus.BLUEPRINT_READY : AppStatus.IDLE;
+    }
+    setStatus(restoredStatus);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      if (!project) {
+        setActiveProjectId(null);
+        refreshProjects();
+        return;
+      }
+      applyProject(project);
+      setIsSidebarOpen(false);
+    } catch (err: any) {
+      console.error("Failed to open project", err);
+      setError("Failed to open project: " + err.message);
+    }
+  };
+
+  const handleNewProject = () => {
+    applyProject(null);
+    setIsSidebarOpen(false);
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    if (projectMeta?.id === id) {
+      // The autosave snapshot carries the name for the active project
+      setProjectMeta(prev => prev ? { ...prev, name } : prev);
+      return;
+    }
+    try {
+      await renameProject(id, name);
+      refreshProjects();
+    } catch (err) {
+      console.error("Failed to rename project", err);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      if (projectMeta?.id === id) {
+        // A pending autosave would write the deleted project back
+        snapshotRef.current = null;
+        applyProject(null);
+      }
+      await deleteProject(id);
+      refreshProjects();
+    } catch (err) {
+      console.error("Failed to delete project", err);
+    }
+  };
+
+  // Restore the workspace that was open before the page was refreshed
+  useEffect(() => {
+    refreshProjects();
+    const lastId = getActiveProjectId();
+    if (lastId) handleOpenProject(lastId);
+  }, []);
+
+  // Throttled autosave: at most one write per second, always with the latest state
+  useEffect(() => {
+    if (!projectMeta) {
+      snapshotRef.current = null;
+      return;
+    }
+
+    snapshotRef.current = {
+      ...projectMeta,
+      status,
+      provider,
+      requirements,
+      blueprint,
+      frontendCode,
+      backendCode,
+      deploymentGuide,
+      generatedCode,
+      moduleStates,
+      error,
+      activeTab,
+      updatedAt: Date.now(),
+    };
+
+    if (saveTimerRef.current !== null) return;
+    saveTimerRef.current = window.setTimeout(flushSave, 1000);
+  }, [projectMeta, status, provider, requirements, blueprint, frontendCode, backendCode, deploymentGuide, generatedCode, moduleStates, error, activeTab]);
+
+  useEffect(() => {
+    window.addEventListener('beforeunload', flushSave);
+    return () => window.removeEventListener('beforeunload', flushSave);
+  }, []);
+
+  const handleAutoGenerateChange = (enabled: boolean) => {
+    setAutoGenerate(enabled);
+    writeSetting(AUTO_GENERATE_KEY, String(enabled));
+  };
 
   const handleCreateBlueprint = async (requirements: string) => {
+    applyProject(null);
+    const session = sessionRef.current;
+    const id = createProjectId();
+    setProjectMeta({ id, name: requirements.trim().slice(0, 60), createdAt: Date.now() });
+    setActiveProjectId(id);
+    setRequirements(requirements);
     setStatus(AppStatus.GENERATING_BLUEPRINT);
-    setError(null);
-    setBlueprint(null);
-    setFrontendCode("");
-    setBackendCode("");
-    setDeploymentGuide("");
-    setLoadingModules({ frontend: false, backend: false, deployment: false });
-    
-    // Reset connection state
-    setConnectionStatus('idle');
-    setConnectionLogs([]);
 
     try {
-      const result = await generateBlueprint(requirements);
+      const result = await generateBlueprint(requirements, provider);
+      if (sessionRef.current !== session) return;
       setBlueprint(result);
+      setProjectMeta(prev => prev && prev.id === id && result.appName ? { ...prev, name: result.appName } : prev);
       setStatus(AppStatus.BLUEPRINT_READY);
       
-      // Auto-start code generation
-      setActiveTab(TabOption.FRONTEND);
-      generateAllCode(result);
+      if (autoGenerate) {
+        setActiveTab(TabOption.FRONTEND);
+        generateAllCode(result, id);
+      } else {
+        // Leave room to review and edit the blueprint before spending tokens on code
+        setActiveTab(TabOption.SUMMARY);
+      }
     } catch (e: any) {
+      if (sessionRef.current !== session) return;
       setError(e.message || "Failed to generate blueprint");
       setStatus(AppStatus.ERROR);
     }
   };
 
-  const generateAllCode = (bp: Blueprint) => {
-    setLoadingModules({ frontend: true, backend: true, deployment: true });
+  // Keeps a version of a module in the history; pruned ones drop out of the list once the store reports them
+  const recordSnapshot = (projectId: string | undefined, module: ModuleKind, content: string, source: CodeSnapshot['source']) => {
+    if (!projectId || !content) return;
+    const session = sessionRef.current;
+    const snapshot: CodeSnapshot = { id: createProjectId(), projectId, module, source, content, createdAt: Date.now() };
+    setSnapshots(prev => [...prev, snapshot]);
+    saveSnapshot(snapshot)
+      .then(pruned => {
+        if (sessionRef.current === session && pruned.length > 0) setSnapshots(prev => prev.filter(entry => !pruned.includes(entry.id)));
+      })
+      .catch(err => console.error("Failed to save snapshot", err));
+  };
 
-    // Stream Frontend
-    generateModuleCode(bp, 'frontend', (chunk) => {
-      setFrontendCode(prev => prev + chunk);
-    })
-    .then(() => setLoadingModules(prev => ({ ...prev, frontend: false })))
-    .catch(() => setLoadingModules(prev => ({ ...prev, frontend: false })));
+  // Sets the current code aside before it is replaced, unless the history already has it
+  const preserveCurrentCode = (module: ModuleKind) => {
+    const content = moduleCode[module];
+    const latest = snapshots.filter(snapshot => snapshot.module === module).pop();
+    if (content && content !== latest?.content) recordSnapshot(projectMeta?.id, module, content, 'edits');
+  };
 
-    // Stream Backend
-    generateModuleCode(bp, 'backend', (chunk) => {
-      setBackendCode(prev => prev + chunk);
-    })
-    .then(() => setLoadingModules(prev => ({ ...prev, backend: false })))
-    .catch(() => setLoadingModules(prev => ({ ...prev, backend: false })));
+  const abortGeneration = () => {
+    Object.values(controllersRef.current).forEach(controller => controller?.abort());
+    controllersRef.current = {};
+  };
+
+  // Streams one module into state; `resumeFrom` holds the complete files of a stopped run to continue after
+  const streamModule = (bp: Blueprint, module: ModuleKind, projectId: string | undefined, resumeFrom?: string) => {
+    const session = sessionRef.current;
+    const controller = new AbortController();
+    controllersRef.current[module]?.abort();
+    controllersRef.current[module] = controller;
+    const isCurrent = () => sessionRef.current === session && !controller.signal.aborted;
+    // What streamed becomes the baseline edits are compared against
+    let streamed = resumeFrom || '';
+    let started = false;
+    const setState = (state: ModuleState) => setModuleStates(prev => ({ ...prev, [module]: state }));
+
+    setModuleCode[module](streamed);
+    setState({ status: ModuleStatus.QUEUED });
 
-    // Stream Deployment
-    generateModuleCode(bp, 'deployment', (chunk) => {
-      setDeploymentGuide(prev => prev + chunk);
+    generateModuleCode(bp, module, (chunk) => {
+      if (!isCurrent()) return;
+      if (!started) {
+        started = true;
+        setModuleStates(prev => ({ ...prev, [module]: { ...prev[module], status: ModuleStatus.STREAMING } }));
+      }
+      streamed += chunk;
+      setModuleCode[module](prev => prev + chunk);
+    }, provider, {
+      signal: controller.signal,
+      resumeFrom,
+      onRetry: ({ attempt, kept }) => {
+        if (!isCurrent()) return;
+        // The partial file from the dropped stream is discarded; the retry continues after `kept`
+        streamed = kept;
+        started = false;
+        setModuleCode[module](kept);
+        setState({ status: ModuleStatus.QUEUED, attempt: attempt + 1 });
+      },
+    })
+    .then(() => {
+      if (!isCurrent()) return;
+      setState({ status: ModuleStatus.DONE });
+      setGeneratedCode(prev => ({ ...prev, [module]: streamed }));
+      recordSnapshot(projectId, module, streamed, 'generation');
+    })
+    .catch(err => {
+      if (isAbortError(err) || !isCurrent()) return;
+      const { kind, message } = toGenerationError(err);
+      console.error(`Code generation for ${module} failed`, err);
+      // Whatever streamed before the failure stays visible; retrying continues after its complete files
+      setState({ status: ModuleStatus.FAILED, error: { kind, message } });
     })
-    .then(() => setLoadingModules(prev => ({ ...prev, deployment: false })))
-    .catch(() => setLoadingModules(prev => ({ ...prev, deployment: false })));
+    .finally(() => {
+      // A stop or a newer run of this module has already taken over
+      if (controllersRef.current[module] === controller) delete controllersRef.current[module];
+    });
+  };
+
+  const generateAllCode = (bp: Blueprint, projectId: string | undefined) => {
+    MODULE_KINDS.forEach(module => streamModule(bp, module, projectId));
   };
 
-  const handleExport = async () => {
+  // Stops one module's stream and keeps what arrived, so it can be resumed later
+  const handleStopModule = (module: ModuleKind) => {
+    const controller = controllersRef.current[module];
+    if (!controller) return;
+    delete controllersRef.current[module];
+    controller.abort();
+    setModuleStates(prev => ({ ...prev, [module]: { status: ModuleStatus.CANCELLED } }));
+  };
+
+  // Continues a stopped or failed module after its last complete file, or starts it over
+  const handleResumeModule = (module: ModuleKind, fromScratch = false) => {
     if (!blueprint) return;
-    setIsExporting(true);
-    
+    const kept = fromScratch ? '' : keepCompleteFiles(moduleCode[module]);
+    streamModule(blueprint, module, projectMeta?.id, kept || undefined);
+  };
+
+  const startCodeGeneration = (bp: Blueprint) => {
+    MODULE_KINDS.forEach(preserveCurrentCode);
+    // Drop chunks from any generation still running against the old blueprint
+    sessionRef.current += 1;
+    abortGeneration();
+    setFrontendCode("");
+    setBackendCode("");
+    setDeploymentGuide("");
+    setFileJobs({});
+    setRepairRounds({});
+    setFileHistory(EMPTY_FILE_HISTORY);
+    setGeneratedCode({});
+    setActiveTab(TabOption.FRONTEND);
+    generateAllCode(bp, projectMeta?.id);
+  };
+
+  const handleAcceptRefinement = (revised: Blueprint, regenerateCode: boolean) => {
+    setBlueprint(revised);
+    setIsRefineOpen(false);
+    if (regenerateCode) startCodeGeneration(revised);
+  };
+
+  const handleSaveBlueprint = (edited: Blueprint, generateCode: boolean) => {
+    setBlueprint(edited);
+    setIsEditing(false);
+    if (generateCode) startCodeGeneration(edited);
+  };
+
+  // Sends a preview error to the model and merges the files it rewrote into the frontend module
+  const handleFixPreviewError = async (report: PreviewErrorReport) => {
+    if (!blueprint) return;
+    const session = sessionRef.current;
+    setIsFixingFrontend(true);
+    try {
+      const fixed = await fixModuleError(blueprint, 'frontend', parseFiles(frontendCode), report, undefined, provider);
+      if (sessionRef.current !== session || fixed.length === 0) return;
+      const { content, rejected } = mergeFiles(frontendCode, fixed);
+      setFrontendCode(content);
+      if (rejected.length > 0) setError(`The fix could not be applied to ${rejected.join(', ')}`);
+    } catch (e: any) {
+      if (sessionRef.current === session) setError(e.message || "Failed to fix the preview error");
+    } finally {
+      setIsFixingFrontend(false);
+    }
+  };
+
+  const moduleCode: Record<ModuleKind, string> = { frontend: frontendCode, backend: backendCode, deployment: deploymentGuide };
+  const setModuleCode: Record<ModuleKind, React.Dispatch<React.SetStateAction<string>>> = {
+    frontend: setFrontendCode,
+    backend: setBackendCode,
+    deployment: setDeploymentGuide,
+  };
+
+  // Streams a replacement for one file (from scratch, or following an instruction) and keeps the old version for undo
+  const handleRegenerateFile = async (module: ModuleKind, name: string, instruction?: string) => {
+    if (!blueprint) return;
+    const session = sessionRef.current;
+    const files = parseFiles(moduleCode[module]);
+    const previous = files.find(file => file.name === name);
+    if (!previous) return;
+
+    setFileJobs(prev => ({ ...prev, [module]: { name, content: '' } }));
+    try {
+      const content = await regenerateFile(blueprint, module, files, name, instruction, draft => {
+        if (sessionRef.current === session) setFileJobs(prev => ({ ...prev, [module]: { name, content: draft } }));
+      }, provider);
+      if (sessionRef.current !== session) return;
+      setModuleCode[module](prev => mergeFiles(prev, [{ name, content }]).content);
+      setFileHistory(prev => ({ ...prev, [module]: [...prev[module], { name, content: previous.content }] }));
+    } catch (e: any) {
+      if (sessionRef.current === session) setError(e.message || `Failed to regenerate ${name}`);
+    } finally {
+      if (sessionRef.current === session) setFileJobs(prev => ({ ...prev, [module]: undefined }));
+    }
+  };
+
+  /**
+   * Sends the files that failed validation to the model and merges its fixes, then validates
+   * again, for up to MAX_REPAIR_ROUNDS rounds. Changes to files without issues are discarded.
+   */
+  const handleRepairModule = async (module: ModuleKind, issues: ValidationIssue[]) => {
+    if (!blueprint || issues.length === 0) return;
+    const session = sessionRef.current;
+    preserveCurrentCode(module);
+    let content = moduleCode[module];
+    let remaining = issues;
     try {
-      if (typeof JSZip === 'undefined' && !JSZip) {
-          throw new Error("Compression library failed to load. Please refresh the page.");
+      for (let round = 1; round <= MAX_REPAIR_ROUNDS && remaining.length > 0; round++) {
+        setRepairRounds(prev => ({ ...prev, [module]: round }));
+        const files = parseFiles(content);
+        const failing = new Set(remaining.map(issue => issue.file).filter(Boolean));
+        const fixes = await repairModuleFiles(blueprint, module, files, remaining, undefined, provider);
+        if (sessionRef.current !== session) return;
+
+        const existing = new Set(files.map(file => normalizePath(file.name)));
+        const accepted = fixes.filter(fix => failing.has(normalizePath(fix.name)) || !existing.has(normalizePath(fix.name)));
+        if (accepted.length === 0) break;
+        const merged = mergeFiles(content, accepted);
+        if (merged.content === content) break;
+        content = merged.content;
+        setModuleCode[module](content);
+        if (merged.rejected.length > 0) setError(`The repair could not be applied to ${merged.rejected.join(', ')}`);
+        remaining = await validateModule(module, parseFiles(content));
       }
+    } catch (e: any) {
+      if (sessionRef.current === session) setError(e.message || `Failed to repair the ${module} code`);
+    } finally {
+      if (sessionRef.current === session) setRepairRounds(prev => ({ ...prev, [module]: undefined }));
+    }
+  };
 
-      const zip = new JSZip();
-      const safeName = blueprint.appName ? blueprint.appName.toLowerCase().replace(/[^a-z0-9]+/g, '-') : 'project';
-      const folderName = safeName;
-      
-      // Helper to add files from XML-like string
-      const addFilesFromContent = (content: string) => {
-        if (!content) return false;
-        
-        const fileRegex = /<file name="([^"]+)">([\s\S]*?)<\/file>/g;
-        let match;
-        let found = false;
-        while ((match = fileRegex.exec(content)) !== null) {
-          found = true;
-          const filePath = match[1];
-          const fileContent = match[2].trim();
-          zip.file(`${folderName}/${filePath}`, fileContent);
-        }
-        return found;
-      };
-
-      // Process modules
-      let hasFiles = false;
-      if (frontendCode && addFilesFromContent(frontendCode)) hasFiles = true;
-      else if (frontendCode) zip.file(`${folderName}/frontend-guide.md`, frontendCode);
-
-      if (backendCode && addFilesFromContent(backendCode)) hasFiles = true;
-      else if (backendCode) zip.file(`${folderName}/backend-guide.md`, backendCode);
-
-      if (deploymentGuide && addFilesFromContent(deploymentGuide)) hasFiles = true;
-      else if (deploymentGuide) zip.file(`${folderName}/deployment.md`, deploymentGuide);
-
-      // Add Blueprint metadata
-      zip.file(`${folderName}/blueprint.json`, JSON.stringify(blueprint, null, 2));
-
-      // Generate and download
-      const content = await zip.generateAsync({ type: "blob" });
-      const url = window.URL.createObjectURL(content);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${folderName}-starter-kit.zip`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-      
+  const handleUndoFile = (module: ModuleKind, name: string) => {
+    const history = fileHistory[module];
+    const index = history.map(entry => entry.name).lastIndexOf(name);
+    if (index === -1) return;
+    setModuleCode[module](prev => mergeFiles(prev, [history[index]]).content);
+    setFileHistory(prev => ({ ...prev, [module]: history.filter((_, idx) => idx !== index) }));
+  };
+
+  const handleRestoreSnapshot = (snapshot: CodeSnapshot) => {
+    preserveCurrentCode(snapshot.module);
+    setModuleCode[snapshot.module](snapshot.content);
+  };
+
+  // Takes one file from an older version; a file that version did not have is removed
+  const handleRestoreSnapshotFile = (snapshot: CodeSnapshot, name: string) => {
+    const content = moduleFiles(snapshot.content).get(name);
+    const change: FileChange = content === undefined ? { name, content: '', action: 'delete' } : { name, content };
+    setModuleCode[snapshot.module](prev => mergeFiles(prev, [change]).content);
+  };
+
+  const renderHistory = (module: ModuleKind) => historyModule === module && (
+    <VersionHistoryPanel
+      module={module}
+      snapshots={snapshots.filter(snapshot => snapshot.module === module)}
+      current={moduleCode[module]}
+      canRestore={!loadingModules[module] && !fileJobs[module] && !repairRounds[module]}
+      onRestore={handleRestoreSnapshot}
+      onRestoreFile={handleRestoreSnapshotFile}
+      onClose={() => setHistoryModule(null)}
+    />
+  );
+
+  const renderModuleStatus = (module: ModuleKind) => {
+    const state = moduleStates[module];
+    if (state.status !== ModuleStatus.FAILED && state.status !== ModuleStatus.CANCELLED) return null;
+    return (
+      <ModuleStatusBanner
+        state={state}
+        keptFiles={parseFiles(moduleCode[module]).length}
+        onResume={() => handleResumeModule(module)}
+        onRestart={() => handleResumeModule(module, true)}
+      />
+    );
+  };
+
+  const fileActionProps = (module: ModuleKind) => ({
+    onRegenerateFile: (name: string) => handleRegenerateFile(module, name),
+    onEditFile: (name: string, instruction: string) => handleRegenerateFile(module, name, instruction),
+    onUndoFile: (name: string) => handleUndoFile(module, name),
+    undoableFiles: fileHistory[module].map(entry => entry.name),
+    pendingFile: fileJobs[module] || null,
+    onChangeFiles: (changes: FileChange[]) => setModuleCode[module](prev => mergeFiles(prev, changes).content),
+    baseline: generatedCode[module],
+    onShowHistory: () => setHistoryModule(prev => prev === module ? null : module),
+    module,
+    onRepair: (issues: ValidationIssue[]) => handleRepairModule(module, issues),
+    repairRound: repairRounds[module] ?? null,
+  });
+
+  const schemaFiles = useMemo(() => (blueprint ? generateSchemaFiles(blueprint) : []), [blueprint]);
+
+  // Only built while the sync panel is open; a new list invalidates its dry run
+  const syncFiles = useMemo(
+    () => (isSyncOpen && blueprint ? collectProjectFiles(blueprint, { frontend: frontendCode, backend: backendCode, deployment: deploymentGuide }) : []),
+    [isSyncOpen, blueprint, frontendCode, backendCode, deploymentGuide]
+  );
+
+  const handleExport = async (options: ExportOptions) => {
+    if (!blueprint) return;
+    setIsExporting(true);
+    
+    try {
+      const folderName = slugify(blueprint.appName);
+      const content = await buildProjectArchive(blueprint, moduleCode, folderName, options);
+      downloadFile(`${folderName}-starter-kit.zip`, content);
     } catch (err: any) {
       console.error("Export failed", err);
       setError("Failed to export project files: " + err.message);
@@ -144,32 +587,38 @@ const App: React.FC = () => {
     }
   };
 
-  const handleTestConnection = async () => {
-    setConnectionStatus('testing');
-    setConnectionLogs(['Initializing connection pool...']);
-    
-    // Simulate finding .env
-    const combined = backendCode + deploymentGuide;
-    const envMatch = combined.match(/DATABASE_URL=["']?([^"'\n]+)["']?/);
-    const dbUrl = envMatch ? envMatch[1] : 'postgres://localhost:5432/app_db';
-    
-    await new Promise(r => setTimeout(r, 600));
-    setConnectionLogs(prev => [...prev, `Loaded configuration from .env`]);
-    setConnectionLogs(prev => [...prev, `Target: ${dbUrl.replace(/:[^:@]*@/, ':****@')}`]);
-    
-    await new Promise(r => setTimeout(r, 800));
-    setConnectionLogs(prev => [...prev, 'Authenticating user...']);
-    
-    await new Promise(r => setTimeout(r, 800));
-    setConnectionLogs(prev => [...prev, 'Verifying schema permissions...']);
-    
-    await new Promise(r => setTimeout(r, 600));
+  const handleExportManifest = () => {
+    // The autosave snapshot is the project as it would be saved right now
+    const project = snapshotRef.current;
+    if (!project) return;
+    const manifest = createProjectManifest(project, snapshots);
+    downloadFile(`${slugify(project.blueprint?.appName || project.name)}.devarchitect.json`, JSON.stringify(manifest, null, 2), 'application/json');
+  };
 
-    // Success simulation
-    setConnectionStatus('success');
-    setConnectionLogs(prev => [...prev, '✓ Connection established successfully.', '✓ Latency: 24ms']);
+  const handleImportProject = async (file: File) => {
+    try {
+      const { project, snapshots: history } = readProjectManifest(await file.text());
+      await saveProject(project);
+      for (const snapshot of history) await saveSnapshot(snapshot);
+      applyProject(project);
+      refreshProjects();
+      setIsSidebarOpen(false);
+    } catch (err: any) {
+      console.error("Failed to import project", err);
+      setError("Failed to import project: " + err.message);
+    }
   };
 
+  const hasCode = Boolean(frontendCode || backendCode || deploymentGuide);
+  const databaseSources = useMemo(() => [backendCode, deploymentGuide], [backendCode, deploymentGuide]);
+  const isGeneratingCode = loadingModules.frontend || loadingModules.backend || loadingModules.deployment;
+
+  // The overall status follows the modules: generating while any of them is queued or streaming
+  useEffect(() => {
+    if (isGeneratingCode && status === AppStatus.BLUEPRINT_READY) setStatus(AppStatus.GENERATING_CODE);
+    else if (!isGeneratingCode && status === AppStatus.GENERATING_CODE) setStatus(AppStatus.BLUEPRINT_READY);
+  }, [isGeneratingCode, status]);
+
   const renderContent = () => {
     if (!blueprint) return null;
 
@@ -249,6 +698,11 @@ const App: React.FC = () => {
                   <p className="text-gray-400 mt-2 max-w-3xl leading-relaxed">{blueprint.architecture.explanation}</p>
                 </div>
              </div>
+
+             <div className="relative">
+               <h4 className="text-sm font-bold text-gray-500 uppercase tracking-widest mb-4">System Diagram</h4>
+               <ArchitectureDiagram blueprint={blueprint} fileName={slugify(blueprint.appName)} />
+             </div>
              
              <div className="mt-8">
                <h4 className="text-sm font-bold text-gray-500 uppercase tracking-widest mb-6">Data Flow & Interaction</h4>
@@ -274,127 +728,126 @@ const App: React.FC = () => {
       case TabOption.DATABASE:
         return (
           <div className="space-y-6 animate-fade-in">
-            {/* Connection Tester */}
-            <div className="bg-dark-surface border border-dark-border rounded-xl p-6 relative overflow-hidden">
-              <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 relative z-10">
-                <div className="flex items-start gap-4">
-                    <div className="p-3 bg-indigo-500/10 border border-indigo-500/20 rounded-xl">
-                      <Wifi className="w-6 h-6 text-indigo-400" />
-                    </div>
-                    <div>
-                      <h3 className="text-lg font-bold text-white flex items-center gap-2">
-                        Connectivity Check
-                        {connectionStatus === 'success' && <span className="text-[10px] bg-green-500/20 text-green-400 border border-green-500/30 px-2 py-0.5 rounded-full uppercase tracking-wider">Active</span>}
-                        {connectionStatus === 'failure' && <span className="text-[10px] bg-red-500/20 text-red-400 border border-red-500/30 px-2 py-0.5 rounded-full uppercase tracking-wider">Failed</span>}
-                      </h3>
-                      <p className="text-sm text-gray-400 mt-1 max-w-md">
-                        Test the connection to your configured database using the generated environment credentials.
-                      </p>
-                    </div>
-                </div>
+            <DatabaseConnectionPanel key={projectMeta?.id} models={blueprint.databaseSchema.models} sources={databaseSources} />
 
-                <div className="flex items-center gap-3">
-                    <button
-                        onClick={handleTestConnection}
-                        disabled={connectionStatus === 'testing' || (!backendCode && !deploymentGuide)}
-                        className={`
-                          flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold text-sm transition-all
-                          ${connectionStatus === 'testing' || (!backendCode && !deploymentGuide)
-                            ? 'bg-dark-bg text-gray-600 cursor-not-allowed border border-dark-border' 
-                            : 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-500/20'}
-                        `}
-                    >
-                        {connectionStatus === 'testing' ? <RefreshCw className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
-                        {connectionStatus === 'testing' ? 'Connecting...' : 'Test Connection'}
-                    </button>
-                </div>
+            {/* Schema View */}
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-bold text-white">{blueprint.databaseSchema.models.length} Tables</h3>
+              <div className="flex items-center bg-dark-surface border border-dark-border rounded-lg p-0.5">
+                {(['diagram', 'cards'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setSchemaView(view)}
+                    className={`px-3 py-1 rounded-md text-xs font-medium capitalize transition-colors ${schemaView === view ? 'bg-brand-500/15 text-brand-300' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {view}
+                  </button>
+                ))}
               </div>
-
-              {/* Terminal Logs */}
-              {(connectionStatus !== 'idle' || connectionLogs.length > 0) && (
-                <div className="mt-6 bg-[#0d1117] rounded-lg border border-dark-border p-4 font-mono text-xs overflow-hidden">
-                  <div className="flex items-center gap-2 mb-3 border-b border-dark-border/50 pb-2">
-                    <Terminal className="w-3 h-3 text-gray-500" />
-                    <span className="text-gray-500 uppercase tracking-widest text-[10px]">Connection Log</span>
-                  </div>
-                  <div className="space-y-1.5 h-32 overflow-y-auto custom-scrollbar">
-                    {connectionLogs.map((log, i) => (
-                      <div key={i} className="flex items-start gap-2 text-gray-300 animate-slide-up">
-                         <span className="text-gray-600 shrink-0">{new Date().toLocaleTimeString()}</span>
-                         <span className={log.includes('✓') ? 'text-green-400' : 'text-gray-300'}>{log}</span>
-                      </div>
-                    ))}
-                    {connectionStatus === 'testing' && (
-                       <div className="flex items-center gap-2 text-indigo-400 animate-pulse">
-                         <span className="w-2 h-2 bg-indigo-500 rounded-full"></span>
-                         Processing...
-                       </div>
-                    )}
-                  </div>
-                </div>
-              )}
             </div>
 
-            {/* Schema Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
-              {blueprint.databaseSchema.models.map((model, idx) => (
-                <div key={idx} className="bg-dark-surface rounded-xl border border-dark-border overflow-hidden hover:border-brand-500/30 transition-all hover:shadow-lg hover:shadow-brand-900/10">
-                  <div className="bg-[#161b22] px-5 py-3 border-b border-dark-border flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Database className="w-4 h-4 text-amber-400" />
-                      <h4 className="font-bold text-gray-200">{model.name}</h4>
-                    </div>
-                    <span className="text-xs bg-dark-bg px-2 py-0.5 rounded text-gray-500 border border-dark-border">Table</span>
-                  </div>
-                  <div className="p-5 space-y-4">
-                    <div>
-                      <div className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2">Schema</div>
-                      <ul className="space-y-1.5">
-                        {model.fields.map((f, i) => (
-                          <li key={i} className="text-sm text-gray-300 font-mono bg-dark-bg/50 px-2 py-1.5 rounded border border-dark-border/50 flex items-center gap-2">
-                            <div className="w-1.5 h-1.5 rounded-full bg-brand-500"></div>
-                            {f}
-                          </li>
-                        ))}
-                      </ul>
+            {schemaView === 'diagram' ? (
+              <SchemaDiagram models={blueprint.databaseSchema.models} fileName={slugify(blueprint.appName)} />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
+                {blueprint.databaseSchema.models.map((model, idx) => (
+                  <div key={idx} className="bg-dark-surface rounded-xl border border-dark-border overflow-hidden hover:border-brand-500/30 transition-all hover:shadow-lg hover:shadow-brand-900/10">
+                    <div className="bg-[#161b22] px-5 py-3 border-b border-dark-border flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Database className="w-4 h-4 text-amber-400" />
+                        <h4 className="font-bold text-gray-200">{model.name}</h4>
+                      </div>
+                      <span className="text-xs bg-dark-bg px-2 py-0.5 rounded text-gray-500 border border-dark-border">Table</span>
                     </div>
-                    {model.relationships.length > 0 && (
+                    <div className="p-5 space-y-4">
                       <div>
-                        <div className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2">Relations</div>
+                        <div className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2">Schema</div>
                         <ul className="space-y-1.5">
-                          {model.relationships.map((r, i) => (
-                            <li key={i} className="text-xs text-amber-300/80 bg-amber-500/5 px-2 py-1.5 rounded border border-amber-500/10 flex items-center gap-2">
-                              <ChevronRight className="w-3 h-3"/> {r}
+                          {model.fields.map((f, i) => (
+                            <li key={i} className="text-sm text-gray-300 font-mono bg-dark-bg/50 px-2 py-1.5 rounded border border-dark-border/50 flex items-center gap-2">
+                              <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${f.primaryKey ? 'bg-amber-400' : 'bg-brand-500'}`}></div>
+                              <span className="truncate">{f.name}</span>
+                              <span className="text-xs text-gray-500">{f.type}{f.nullable ? '?' : ''}</span>
+                              <span className="ml-auto flex items-center gap-1 shrink-0">
+                                {f.primaryKey && <span className="text-[9px] font-bold px-1 rounded bg-amber-500/15 text-amber-300 border border-amber-500/20">PK</span>}
+                                {f.unique && <span className="text-[9px] font-bold px-1 rounded bg-purple-500/15 text-purple-300 border border-purple-500/20">UQ</span>}
+                                {f.index && <span className="text-[9px] font-bold px-1 rounded bg-blue-500/15 text-blue-300 border border-blue-500/20">IDX</span>}
+                                {f.defaultValue && <span className="text-[10px] text-gray-500 truncate max-w-[90px]" title={`default ${f.defaultValue}`}>= {f.defaultValue}</span>}
+                              </span>
                             </li>
                           ))}
                         </ul>
                       </div>
-                    )}
+                      {model.relationships.length > 0 && (
+                        <div>
+                          <div className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2">Relations</div>
+                          <ul className="space-y-1.5">
+                            {model.relationships.map((r, i) => (
+                              <li key={i} className="text-xs text-amber-300/80 bg-amber-500/5 px-2 py-1.5 rounded border border-amber-500/10 flex items-center gap-2">
+                                <ChevronRight className="w-3 h-3 shrink-0"/>
+                                <span className="font-mono">{r.cardinality}</span>
+                                <span className="font-bold">{r.target}</span>
+                                {r.foreignKey && <span className="text-amber-300/60 font-mono">via {r.foreignKey}</span>}
+                                {r.onDelete && <span className="ml-auto text-[10px] text-amber-300/50 uppercase">on delete {r.onDelete}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
+
+            <DatabaseSandbox key={`sandbox-${projectMeta?.id}`} models={blueprint.databaseSchema.models} backendCode={backendCode} fileName={slugify(blueprint.appName)} />
+          </div>
+        );
+
+      case TabOption.SCHEMA_EXPORT:
+        return (
+          <div className="animate-fade-in">
+            {schemaFiles.length > 0 ? (
+              <CodeBlock content={serializeFiles(schemaFiles)} />
+            ) : (
+              <div className="bg-dark-surface border border-dark-border rounded-xl p-8 text-center text-gray-500 text-sm">
+                The blueprint has no database models to export.
+              </div>
+            )}
           </div>
         );
 
       case TabOption.FRONTEND:
         return (
           <div className="animate-fade-in">
-             <CodeBlock content={frontendCode} enablePreview={true} isStreaming={loadingModules.frontend} />
+             {renderModuleStatus('frontend')}
+             {renderHistory('frontend')}
+             <CodeBlock
+               content={frontendCode}
+               enablePreview={true}
+               isStreaming={loadingModules.frontend}
+               onFixError={handleFixPreviewError}
+               isFixing={isFixingFrontend}
+               {...fileActionProps('frontend')}
+             />
           </div>
         );
 
       case TabOption.BACKEND:
         return (
           <div className="animate-fade-in">
-             <CodeBlock content={backendCode} isStreaming={loadingModules.backend} />
+             {renderModuleStatus('backend')}
+             {renderHistory('backend')}
+             <CodeBlock content={backendCode} isStreaming={loadingModules.backend} {...fileActionProps('backend')} />
           </div>
         );
         
       case TabOption.DEPLOYMENT:
         return (
           <div className="animate-fade-in">
-             <CodeBlock content={deploymentGuide} isStreaming={loadingModules.deployment} />
+             {renderModuleStatus('deployment')}
+             {renderHistory('deployment')}
+             <CodeBlock content={deploymentGuide} isStreaming={loadingModules.deployment} {...fileActionProps('deployment')} />
           </div>
         );
 
@@ -409,6 +862,13 @@ const App: React.FC = () => {
       <header className="border-b border-dark-border bg-dark-bg/80 backdrop-blur-md sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 md:px-6 h-16 flex items-center justify-between">
            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setIsSidebarOpen(true)}
+                title="Projects"
+                className="p-2 -ml-2 rounded-lg text-gray-400 hover:text-white hover:bg-dark-surface transition-colors"
+              >
+                <FolderOpen className="w-5 h-5" />
+              </button>
               <div className="w-9 h-9 rounded-lg bg-gradient-to-br from-brand-600 to-purple-600 flex items-center justify-center shadow-lg shadow-brand-500/20 ring-1 ring-white/10">
                 <Bot className="text-white w-5 h-5" />
               </div>
@@ -440,12 +900,29 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      <ProjectSidebar
+        isOpen={isSidebarOpen}
+        projects={projects}
+        activeProjectId={projectMeta?.id || null}
+        onClose={() => setIsSidebarOpen(false)}
+        onOpen={handleOpenProject}
+        onNew={handleNewProject}
+        onImport={handleImportProject}
+        onRename={handleRenameProject}
+        onDelete={handleDeleteProject}
+      />
+
       <main className="max-w-7xl mx-auto px-4 md:px-6 py-8 md:py-12">
         {/* Input Phase */}
         <div className={blueprint ? "hidden" : "block"}>
            <InputSection 
             onSubmit={handleCreateBlueprint} 
             isLoading={status === AppStatus.GENERATING_BLUEPRINT} 
+            initialValue={requirements}
+            provider={provider}
+            onProviderChange={setProvider}
+            autoGenerate={autoGenerate}
+            onAutoGenerateChange={handleAutoGenerateChange}
            />
         </div>
 
@@ -473,34 +950,77 @@ const App: React.FC = () => {
               </div>
               <div className="flex items-center gap-3 w-full md:w-auto">
                 <button 
-                  onClick={() => {
-                    setBlueprint(null);
-                    setStatus(AppStatus.IDLE);
-                  }}
+                  onClick={handleNewProject}
                   className="px-4 py-2 text-sm font-medium text-gray-400 hover:text-white transition-colors whitespace-nowrap"
                 >
                   New Project
                 </button>
                 <button 
-                  onClick={handleExport}
-                  disabled={isExporting}
-                  className="flex flex-1 md:flex-none justify-center items-center gap-2 px-5 py-2.5 bg-white text-dark-bg font-bold rounded-lg hover:bg-gray-100 transition-all shadow-lg shadow-white/5 active:scale-95 disabled:opacity-70 disabled:cursor-not-allowed whitespace-nowrap"
+                  onClick={() => setIsEditing(!isEditing)}
+                  className={`flex items-center gap-2 px-4 py-2.5 text-sm font-semibold rounded-lg border transition-colors whitespace-nowrap ${isEditing ? 'border-brand-500/40 text-brand-300 bg-brand-500/10' : 'border-dark-border text-gray-300 hover:text-white hover:border-brand-500/40'}`}
+                >
+                  <Pencil className="w-4 h-4" /> Edit
+                </button>
+                <button 
+                  onClick={() => setIsRefineOpen(!isRefineOpen)}
+                  className="flex items-center gap-2 px-4 py-2.5 text-sm font-semibold rounded-lg border border-dark-border text-gray-300 hover:text-white hover:border-brand-500/40 transition-colors whitespace-nowrap"
                 >
-                  {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
-                  {isExporting ? 'Zipping...' : 'Export Project'}
+                  <Wand2 className="w-4 h-4" /> Refine
                 </button>
+                {projectMeta && (
+                  <button 
+                    onClick={() => setIsSyncOpen(!isSyncOpen)}
+                    className={`flex items-center gap-2 px-4 py-2.5 text-sm font-semibold rounded-lg border transition-colors whitespace-nowrap ${isSyncOpen ? 'border-brand-500/40 text-brand-300 bg-brand-500/10' : 'border-dark-border text-gray-300 hover:text-white hover:border-brand-500/40'}`}
+                  >
+                    <FolderSync className="w-4 h-4" /> Sync Folder
+                  </button>
+                )}
+                {!hasCode && !isGeneratingCode && (
+                  <button 
+                    onClick={() => startCodeGeneration(blueprint)}
+                    className="flex items-center gap-2 px-4 py-2.5 text-sm font-semibold rounded-lg bg-brand-600 hover:bg-brand-500 text-white transition-colors whitespace-nowrap"
+                  >
+                    <Play className="w-4 h-4" /> Generate Code
+                  </button>
+                )}
+                <ExportMenu isExporting={isExporting} onExportArchive={handleExport} onExportManifest={handleExportManifest} />
               </div>
             </div>
 
-            <ResultTabs 
-              activeTab={activeTab} 
-              setActiveTab={setActiveTab} 
-              loadingStates={loadingModules}
-            />
-            
-            <div className="min-h-[500px] md:min-h-[600px] transition-all duration-300">
-              {renderContent()}
-            </div>
+            {isEditing ? (
+              <BlueprintEditor
+                blueprint={blueprint}
+                onSave={handleSaveBlueprint}
+                onCancel={() => setIsEditing(false)}
+              />
+            ) : (
+              <>
+                {isSyncOpen && projectMeta && (
+                  <FolderSyncPanel key={projectMeta.id} projectId={projectMeta.id} files={syncFiles} onClose={() => setIsSyncOpen(false)} />
+                )}
+
+                {isRefineOpen && (
+                  <BlueprintRefinePanel
+                    blueprint={blueprint}
+                    onRefine={(instruction) => refineBlueprint(blueprint, instruction, provider)}
+                    onAccept={handleAcceptRefinement}
+                    onClose={() => setIsRefineOpen(false)}
+                  />
+                )}
+
+                <ResultTabs 
+                  activeTab={activeTab} 
+                  setActiveTab={setActiveTab} 
+                  moduleStates={moduleStates}
+                  onStop={handleStopModule}
+                  onResume={handleResumeModule}
+                />
+
+                <div className="min-h-[500px] md:min-h-[600px] transition-all duration-300">
+                  {renderContent()}
+                </div>
+              </>
+            )}
           </div>
         )}
       </main>
@@ -0,0 +1,188 @@
+#!/usr/bin/env -S npx tsx
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { Blueprint, ModuleKind, ProviderConfig, ProviderKind } from '../types';
+import { generateBlueprint, generateModuleCode } from '../services/geminiService';
+import { applyFileChanges, parseFiles } from '../services/fileProtocol';
+import { normalizeBlueprint } from '../services/schemaMigration';
+import { MODULE_GUIDE_NAMES } from '../services/projectExport';
+import { toGenerationError } from '../services/providers';
+
+/**
+ * Headless blueprint and code generation for CI and scaffolding scripts.
+ *
+ *   npm run devarchitect -- blueprint "A clinic booking app" -o bp.json
+ *   npm run devarchitect -- generate bp.json --modules frontend,backend -o ./out
+ *
+ * Exit codes: 0 on success, 1 when generation fails, 2 for invalid usage.
+ */
+
+const USAGE = `Usage:
+  devarchitect blueprint "<requirements>" [-o bp.json]
+  devarchitect generate <blueprint.json> [--modules frontend,backend,deployment] [-o ./out]
+
+Options:
+  -o, --out <path>       Blueprint file to write, or directory for generated modules
+      --modules <list>   Comma-separated modules to generate (default: all)
+      --provider <kind>  gemini | openai | mock (default: gemini)
+      --model <name>     Model override for the provider
+      --base-url <url>   Endpoint for the openai provider
+      --json             Print a machine-readable result on stdout
+  -h, --help             Show this help
+
+Requirements may also be read from a file with "@path" or from stdin with "-".
+Credentials come from GEMINI_API_KEY, or OPENAI_API_KEY / OPENAI_BASE_URL / OPENAI_MODEL.`;
+
+const MODULES: ModuleKind[] = ['frontend', 'backend', 'deployment'];
+const PROVIDERS: ProviderKind[] = ['gemini', 'openai', 'mock'];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// The web app gets the Gemini key injected as API_KEY by Vite
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+const { values: options, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        modules: { type: 'string' },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        'base-url': { type: 'string' },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+})();
+
+// Progress goes to stderr so stdout stays clean for --json and piped blueprints
+const progress = (message: string) => {
+  if (!options.json) console.error(message);
+};
+
+const providerConfig = (): ProviderConfig => {
+  const kind = (options.provider || 'gemini') as ProviderKind;
+  if (!PROVIDERS.includes(kind)) throw new UsageError(`Unknown provider "${options.provider}"; expected ${PROVIDERS.join(', ')}`);
+  return { kind, model: options.model, baseUrl: options['base-url'] };
+};
+
+const readRequirements = async (arg: string | undefined) => {
+  if (arg === '-') {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk);
+    return Buffer.concat(chunks).toString('utf8').trim();
+  }
+  if (arg?.startsWith('@')) return (await readFile(arg.slice(1), 'utf8')).trim();
+  return arg?.trim() ?? '';
+};
+
+// Generated names are model output; never let one write outside the module directory
+const resolveInside = (root: string, name: string) => {
+  const target = path.resolve(root, name);
+  if (target !== root && !target.startsWith(root + path.sep)) throw new Error(`Refusing to write ${name} outside ${root}`);
+  return target;
+};
+
+const writeModule = async (root: string, module: ModuleKind, output: string) => {
+  const { files } = applyFileChanges([], parseFiles(output));
+  const entries = files.length > 0 ? files : [{ name: MODULE_GUIDE_NAMES[module], content: output }];
+  for (const file of entries) {
+    const target = resolveInside(root, file.name);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, file.content);
+  }
+  return entries.map(file => file.name);
+};
+
+const runBlueprint = async () => {
+  const requirements = await readRequirements(positionals[1]);
+  if (!requirements) throw new UsageError('Missing requirements');
+  const config = providerConfig();
+
+  progress(`Generating blueprint with ${config.kind}...`);
+  const blueprint = await generateBlueprint(requirements, config);
+  const serialized = JSON.stringify(blueprint, null, 2);
+
+  if (options.out) {
+    await mkdir(path.dirname(path.resolve(options.out)), { recursive: true });
+    await writeFile(options.out, serialized + '\n');
+    progress(`Wrote ${blueprint.appName} blueprint to ${options.out}`);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ ok: true, command: 'blueprint', appName: blueprint.appName, out: options.out ?? null, blueprint: options.out ? undefined : blueprint }));
+  } else if (!options.out) {
+    console.log(serialized);
+  }
+};
+
+const runGenerate = async () => {
+  const source = positionals[1];
+  if (!source) throw new UsageError('Missing blueprint file');
+  const modules = (options.modules?.split(',').map(module => module.trim()).filter(Boolean) ?? MODULES) as ModuleKind[];
+  const unknown = modules.filter(module => !MODULES.includes(module));
+  if (unknown.length > 0) throw new UsageError(`Unknown module ${unknown.join(', ')}; expected ${MODULES.join(', ')}`);
+  const config = providerConfig();
+
+  let blueprint: Blueprint;
+  try {
+    blueprint = normalizeBlueprint(JSON.parse(await readFile(source, 'utf8')));
+  } catch (error) {
+    throw new UsageError(`Could not read blueprint ${source}: ${(error as Error).message}`);
+  }
+
+  const outDir = path.resolve(options.out || '.');
+  const results: Array<{ module: ModuleKind; files: string[] }> = [];
+  // Modules run one after another so a failure stops before spending more tokens
+  for (const module of modules) {
+    progress(`Generating ${module} with ${config.kind}...`);
+    const output = await generateModuleCode(blueprint, module, undefined, config, {
+      onRetry: ({ attempt, delayMs, error }) => progress(`  ${toGenerationError(error).message}; retry ${attempt} in ${Math.round(delayMs / 1000)}s`),
+    });
+    const files = await writeModule(path.join(outDir, module), module, output);
+    progress(`  Wrote ${files.length} file${files.length === 1 ? '' : 's'} to ${path.join(options.out || '.', module)}`);
+    results.push({ module, files });
+  }
+
+  if (options.json) console.log(JSON.stringify({ ok: true, command: 'generate', out: outDir, modules: results }));
+};
+
+const main = async () => {
+  const command = positionals[0];
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? 0 : 2;
+  }
+  try {
+    if (command === 'blueprint') await runBlueprint();
+    else if (command === 'generate') await runGenerate();
+    else throw new UsageError(`Unknown command "${command}"`);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      if (options.json) console.log(JSON.stringify({ ok: false, error: { kind: 'usage', message: error.message } }));
+      else console.error(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    const failure = toGenerationError(error);
+    if (options.json) console.log(JSON.stringify({ ok: false, error: { kind: failure.kind, message: failure.message } }));
+    else console.error(`Error (${failure.kind}): ${failure.message}`);
+    return 1;
+  }
+};
+
+main().then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,119 @@
+import pg from 'pg';
+import mysql from 'mysql2/promise';
+import { DatabaseCheckResult, DatabaseEngine, DatabaseErrorKind } from '../types';
+
+const TIMEOUT_MS = 5000;
+
+const ENGINES: Record<string, DatabaseEngine> = {
+  'postgres:': 'postgres',
+  'postgresql:': 'postgres',
+  'mysql:': 'mysql',
+  'mariadb:': 'mysql',
+};
+
+// Driver error codes grouped by what the user has to fix
+const ERROR_CODES: Record<string, DatabaseErrorKind> = {
+  // PostgreSQL SQLSTATE
+  '28P01': 'auth',
+  '28000': 'auth',
+  '3D000': 'database',
+  '42501': 'permission',
+  // MySQL
+  ER_ACCESS_DENIED_ERROR: 'auth',
+  ER_NOT_SUPPORTED_AUTH_MODE: 'auth',
+  ER_BAD_DB_ERROR: 'database',
+  ER_DBACCESS_DENIED_ERROR: 'permission',
+  ER_TABLEACCESS_DENIED_ERROR: 'permission',
+  // Socket errors from either driver
+  ECONNREFUSED: 'network',
+  ECONNRESET: 'network',
+  ENOTFOUND: 'network',
+  EAI_AGAIN: 'network',
+  ETIMEDOUT: 'network',
+  EHOSTUNREACH: 'network',
+  ENETUNREACH: 'network',
+};
+
+const toFailure = (error: unknown): DatabaseCheckResult => {
+  const { code, message } = error as { code?: string; message?: string };
+  const timedOut = /timeout|timed out/i.test(message || '');
+  return {
+    ok: false,
+    kind: (code && ERROR_CODES[code]) || (timedOut ? 'network' : 'unknown'),
+    message: message || String(error),
+    code,
+  };
+};
+
+const elapsed = (start: number) => Math.round(performance.now() - start);
+
+const checkPostgres = async (url: string): Promise<DatabaseCheckResult> => {
+  const client = new pg.Client({ connectionString: url, connectionTimeoutMillis: TIMEOUT_MS, statement_timeout: TIMEOUT_MS });
+  try {
+    const connectStart = performance.now();
+    await client.connect();
+    const connectMs = elapsed(connectStart);
+
+    const queryStart = performance.now();
+    await client.query('SELECT 1');
+    const queryMs = elapsed(queryStart);
+
+    const version = (await client.query<{ version: string }>("SELECT current_setting('server_version') AS version")).rows[0]?.version ?? '';
+    const { rows } = await client.query<{ table_schema: string; table_name: string }>(
+      `SELECT table_schema, table_name FROM information_schema.tables
+       WHERE table_type = 'BASE TABLE' AND table_schema NOT IN ('pg_catalog', 'information_schema')
+       ORDER BY table_schema, table_name`
+    );
+    const tables = rows.map(row => row.table_schema === 'public' ? row.table_name : `${row.table_schema}.${row.table_name}`);
+    return { ok: true, engine: 'postgres', version: `PostgreSQL ${version}`.trim(), connectMs, queryMs, tables };
+  } finally {
+    await client.end().catch(() => undefined);
+  }
+};
+
+const checkMysql = async (url: string): Promise<DatabaseCheckResult> => {
+  const connectStart = performance.now();
+  const connection = await mysql.createConnection({ uri: url, connectTimeout: TIMEOUT_MS });
+  try {
+    const connectMs = elapsed(connectStart);
+
+    const queryStart = performance.now();
+    await connection.query('SELECT 1');
+    const queryMs = elapsed(queryStart);
+
+    const [versionRows] = await connection.query('SELECT VERSION() AS version');
+    const version = String((versionRows as Array<{ version: string }>)[0]?.version ?? '');
+    const [tableRows] = await connection.query(
+      `SELECT table_name AS name FROM information_schema.tables
+       WHERE table_schema = DATABASE() AND table_type = 'BASE TABLE' ORDER BY table_name`
+    );
+    const tables = (tableRows as Array<{ name: string }>).map(row => row.name);
+    return { ok: true, engine: 'mysql', version: `${/mariadb/i.test(version) ? 'MariaDB' : 'MySQL'} ${version}`, connectMs, queryMs, tables };
+  } finally {
+    await connection.end().catch(() => undefined);
+  }
+};
+
+/**
+ * Connects to the database at `url`, measures the connection and a query round trip, and lists
+ * the tables the connected user can see. Failures are classified instead of thrown.
+ */
+export const checkDatabase = async (url: string): Promise<DatabaseCheckResult> => {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    return { ok: false, kind: 'unsupported', message: 'The connection string is not a valid URL' };
+  }
+
+  const engine = ENGINES[protocol];
+  if (!engine) {
+    return { ok: false, kind: 'unsupported', message: `${protocol.replace(/:$/, '')} databases cannot be checked; use a PostgreSQL or MySQL connection string` };
+  }
+
+  try {
+    return engine === 'postgres' ? await checkPostgres(url) : await checkMysql(url);
+  } catch (error) {
+    return toFailure(error);
+  }
+};
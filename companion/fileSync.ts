@@ -0,0 +1,65 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface SyncFile {
+  name: string;
+  content: string;
+}
+
+export const isSyncFile = (value: unknown): value is SyncFile =>
+  typeof value === 'object' && value !== null
+  && 'name' in value && typeof value.name === 'string'
+  && 'content' in value && typeof value.content === 'string';
+
+export class SyncPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncPathError';
+  }
+}
+
+// The app picks the folder; file names come from model output and must stay inside it
+const resolveInside = (root: string, name: string) => {
+  const target = path.resolve(root, name);
+  if (!target.startsWith(root + path.sep)) throw new SyncPathError(`${name} is outside ${root}`);
+  return target;
+};
+
+const checkRoot = async (root: string, create: boolean) => {
+  if (!path.isAbsolute(root)) throw new SyncPathError('The folder must be an absolute path');
+  const resolved = path.resolve(root);
+  try {
+    if (!(await stat(resolved)).isDirectory()) throw new SyncPathError(`${resolved} is not a folder`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    if (!create) return null;
+    await mkdir(resolved, { recursive: true });
+  }
+  return resolved;
+};
+
+/** Current content of each file under `root`, or null for files that do not exist. */
+export const readFiles = async (root: string, names: string[]): Promise<Record<string, string | null>> => {
+  const resolved = await checkRoot(root, false);
+  const entries = await Promise.all(names.map(async name => {
+    if (!resolved) return [name, null] as const;
+    try {
+      return [name, await readFile(resolveInside(resolved, name), 'utf8')] as const;
+    } catch (error) {
+      if (error instanceof SyncPathError) throw error;
+      return [name, null] as const;
+    }
+  }));
+  return Object.fromEntries(entries);
+};
+
+/** Writes files under `root`, creating the folder and any subfolders. */
+export const writeFiles = async (root: string, files: SyncFile[]): Promise<number> => {
+  const resolved = (await checkRoot(root, true))!;
+  const targets = files.map(file => ({ target: resolveInside(resolved, file.name), content: file.content }));
+  for (const { target, content } of targets) {
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, content);
+  }
+  return targets.length;
+};
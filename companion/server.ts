@@ -0,0 +1,115 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { checkDatabase } from './databaseCheck';
+import { SyncPathError, isSyncFile, readFiles, writeFiles } from './fileSync';
+
+/**
+ * Local helper for what the browser cannot do on its own, such as opening a database
+ * connection or writing to an arbitrary folder. It listens on loopback only and answers requests from the app's origins.
+ *
+ *   npm run companion
+ */
+
+const PORT = Number(process.env.COMPANION_PORT) || 4319;
+const ALLOWED_ORIGINS = new Set(
+  (process.env.COMPANION_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(origin => origin.trim()).filter(Boolean)
+);
+const MAX_BODY_BYTES = 64 * 1024;
+// Folder sync sends a whole project in one request
+const MAX_SYNC_BODY_BYTES = 32 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const readJson = async (req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<unknown> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+};
+
+// Request bodies are checked field by field; anything that is not an object has no fields
+const readFields = async (req: IncomingMessage, maxBytes?: number): Promise<Record<string, unknown>> => {
+  const body = await readJson(req, maxBytes);
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? { ...body } : {};
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+type Handler = (req: IncomingMessage) => Promise<unknown>;
+
+const withPathErrors = async <T>(action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof SyncPathError) throw new HttpError(400, error.message);
+    const { code, message } = error as NodeJS.ErrnoException;
+    if (code === 'EACCES' || code === 'EPERM' || code === 'EROFS') throw new HttpError(403, message);
+    throw error;
+  }
+};
+
+const routes: Record<string, Handler> = {
+  'GET /health': async () => ({ ok: true }),
+  'POST /db/check': async req => {
+    const { url } = await readFields(req);
+    if (typeof url !== 'string' || !url.trim()) throw new HttpError(400, 'Missing "url"');
+    return checkDatabase(url.trim());
+  },
+  'POST /fs/read': async req => {
+    const { root, names } = await readFields(req, MAX_SYNC_BODY_BYTES);
+    if (typeof root !== 'string' || !Array.isArray(names) || !names.every(name => typeof name === 'string')) {
+      throw new HttpError(400, 'Expected "root" and "names"');
+    }
+    return { files: await withPathErrors(() => readFiles(root, names)) };
+  },
+  'POST /fs/write': async req => {
+    const { root, files } = await readFields(req, MAX_SYNC_BODY_BYTES);
+    if (typeof root !== 'string' || !Array.isArray(files) || !files.every(isSyncFile)) {
+      throw new HttpError(400, 'Expected "root" and "files" with a name and content each');
+    }
+    return { written: await withPathErrors(() => writeFiles(root, files)) };
+  },
+};
+
+const server = createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  // Any page can reach localhost, so only the app itself may use the companion
+  if (origin && !ALLOWED_ORIGINS.has(origin)) return send(res, 403, { error: `Origin ${origin} is not allowed` });
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST', 'Access-Control-Allow-Headers': 'Content-Type' });
+    return res.end();
+  }
+
+  const handler = routes[`${req.method} ${new URL(req.url || '/', 'http://localhost').pathname}`];
+  if (!handler) return send(res, 404, { error: 'Not found' });
+  try {
+    send(res, 200, await handler(req));
+  } catch (error) {
+    if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+    console.error(error);
+    send(res, 500, { error: 'Internal error' });
+  }
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Companion listening on http://127.0.0.1:${PORT} (origins: ${[...ALLOWED_ORIGINS].join(', ')})`);
+});
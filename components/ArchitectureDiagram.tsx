@@ -0,0 +1,226 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Blueprint } from '../types';
+import {
+  ArchParticipant, ParticipantKind, inferArchitecture, participantTitle,
+  toMermaidFlowchart, toMermaidSequence, toPlantUMLComponent, toPlantUMLSequence,
+} from '../services/architectureDiagram';
+import { downloadFile, serializeSvg } from '../services/diagramExport';
+import { Image, FileCode2, Copy, Check } from 'lucide-react';
+
+interface ArchitectureDiagramProps {
+  blueprint: Blueprint;
+  // Base name for exported files, e.g. the app slug
+  fileName: string;
+}
+
+type DiagramView = 'components' | 'sequence';
+
+const KIND_COLORS: Record<ParticipantKind, string> = {
+  client: '#38bdf8',
+  gateway: '#a78bfa',
+  service: '#34d399',
+  database: '#fbbf24',
+  cache: '#f87171',
+  queue: '#fb923c',
+  external: '#94a3b8',
+};
+
+const KIND_LABELS: Record<ParticipantKind, string> = {
+  client: 'client',
+  gateway: 'gateway',
+  service: 'service',
+  database: 'data store',
+  cache: 'cache',
+  queue: 'queue',
+  external: 'external api',
+};
+
+const BOX_WIDTH = 190;
+const BOX_HEIGHT = 56;
+const COLUMN_GAP = 90;
+const ROW_GAP = 24;
+const LANE_WIDTH = 200;
+const MESSAGE_GAP = 48;
+const PADDING = 24;
+
+const truncate = (value: string, max: number) => (value.length > max ? value.slice(0, Math.max(max - 1, 1)) + '…' : value);
+
+// Left-to-right columns: client → gateway → API → data stores and external APIs → workers
+const columnOf = (participant: ArchParticipant) => {
+  if (participant.kind === 'client') return 0;
+  if (participant.kind === 'gateway') return 1;
+  if (participant.id === 'api') return 2;
+  if (participant.kind === 'service') return 4;
+  return 3;
+};
+
+const Box: React.FC<{ participant: ArchParticipant; x: number; y: number }> = ({ participant, x, y }) => {
+  const color = KIND_COLORS[participant.kind];
+  return (
+    <g transform={`translate(${x} ${y})`}>
+      <title>{participantTitle(participant)}</title>
+      <rect width={BOX_WIDTH} height={BOX_HEIGHT} rx={participant.kind === 'database' || participant.kind === 'cache' ? 16 : 8} fill="#1e212b" stroke={color} strokeOpacity="0.6" />
+      <rect width="4" height={BOX_HEIGHT - 16} x="0" y="8" rx="2" fill={color} />
+      <text x="16" y="23" fill="#e5e7eb" fontSize="13" fontWeight="bold" fontFamily="Inter, sans-serif">{truncate(participant.label, 22)}</text>
+      <text x="16" y="41" fill="#9ca3af" fontSize="10" fontFamily="JetBrains Mono, monospace">
+        {truncate(participant.technology ? `${participant.technology} · ${KIND_LABELS[participant.kind]}` : KIND_LABELS[participant.kind], 28)}
+      </text>
+    </g>
+  );
+};
+
+export const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ blueprint, fileName }) => {
+  const diagram = useMemo(() => inferArchitecture(blueprint), [blueprint]);
+  const [view, setView] = useState<DiagramView>('components');
+  const [copied, setCopied] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const componentLayout = useMemo(() => {
+    const columns: ArchParticipant[][] = [];
+    diagram.participants.forEach(p => {
+      const column = columnOf(p);
+      (columns[column] = columns[column] || []).push(p);
+    });
+    const used = columns.map((column, idx) => ({ column, idx })).filter(entry => entry.column?.length);
+    const tallest = Math.max(...used.map(entry => entry.column.length));
+    const height = tallest * BOX_HEIGHT + (tallest - 1) * ROW_GAP + PADDING * 2;
+    const positions = new Map<string, { x: number; y: number }>();
+    used.forEach((entry, position) => {
+      const columnHeight = entry.column.length * BOX_HEIGHT + (entry.column.length - 1) * ROW_GAP;
+      const top = (height - columnHeight) / 2;
+      entry.column.forEach((p, row) => positions.set(p.id, { x: PADDING + position * (BOX_WIDTH + COLUMN_GAP), y: top + row * (BOX_HEIGHT + ROW_GAP) }));
+    });
+    return { positions, width: PADDING * 2 + used.length * BOX_WIDTH + (used.length - 1) * COLUMN_GAP, height };
+  }, [diagram]);
+
+  const sequenceLayout = useMemo(() => {
+    const laneX = new Map(diagram.participants.map((p, idx) => [p.id, PADDING + idx * LANE_WIDTH + BOX_WIDTH / 2]));
+    const top = PADDING + BOX_HEIGHT + 36;
+    return {
+      laneX,
+      top,
+      width: PADDING * 2 + (diagram.participants.length - 1) * LANE_WIDTH + BOX_WIDTH,
+      height: top + Math.max(diagram.interactions.length, 1) * MESSAGE_GAP + PADDING,
+    };
+  }, [diagram]);
+
+  const size = view === 'components' ? componentLayout : sequenceLayout;
+
+  const textExport = (format: 'mermaid' | 'plantuml') => {
+    if (format === 'mermaid') return view === 'components' ? toMermaidFlowchart(diagram) : toMermaidSequence(diagram);
+    return view === 'components' ? toPlantUMLComponent(diagram) : toPlantUMLSequence(diagram);
+  };
+
+  const handleExportSvg = () => {
+    if (!svgRef.current) return;
+    const markup = serializeSvg(svgRef.current, { x: 0, y: 0, width: size.width, height: size.height });
+    downloadFile(`${fileName}-architecture-${view}.svg`, markup, 'image/svg+xml');
+  };
+
+  const handleCopyMermaid = async () => {
+    try {
+      await navigator.clipboard.writeText(textExport('mermaid'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied outside secure contexts; the download buttons still work
+    }
+  };
+
+  const exportButton = "flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium text-gray-300 bg-dark-bg border border-dark-border hover:border-brand-500/40 hover:text-white transition-colors";
+
+  return (
+    <div className="bg-dark-bg/50 border border-dark-border rounded-xl overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2.5 border-b border-dark-border bg-[#161b22]">
+        <div className="flex items-center bg-dark-surface border border-dark-border rounded-lg p-0.5">
+          {(['components', 'sequence'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded-md text-xs font-medium capitalize transition-colors ${view === option ? 'bg-brand-500/15 text-brand-300' : 'text-gray-400 hover:text-white'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={handleExportSvg} className={exportButton}><Image className="w-3.5 h-3.5" /> SVG</button>
+          <button onClick={() => downloadFile(`${fileName}-architecture-${view}.mmd`, textExport('mermaid'))} className={exportButton}><FileCode2 className="w-3.5 h-3.5" /> Mermaid</button>
+          <button onClick={() => downloadFile(`${fileName}-architecture-${view}.puml`, textExport('plantuml'))} className={exportButton}><FileCode2 className="w-3.5 h-3.5" /> PlantUML</button>
+          <button onClick={handleCopyMermaid} className={exportButton} title="Copy Mermaid">
+            {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar p-2">
+        <svg ref={svgRef} width={size.width} height={size.height} viewBox={`0 0 ${size.width} ${size.height}`} className="mx-auto block">
+          <defs>
+            <marker id="arch-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+            </marker>
+          </defs>
+
+          {view === 'components' ? (
+            <g>
+              {diagram.links.map(link => {
+                const from = componentLayout.positions.get(link.from);
+                const to = componentLayout.positions.get(link.to);
+                if (!from || !to) return null;
+                const forward = to.x > from.x;
+                const x1 = forward ? from.x + BOX_WIDTH : from.x + BOX_WIDTH / 2;
+                const y1 = forward ? from.y + BOX_HEIGHT / 2 : from.y + BOX_HEIGHT;
+                const x2 = forward ? to.x : to.x + BOX_WIDTH / 2;
+                const y2 = forward ? to.y + BOX_HEIGHT / 2 : to.y + BOX_HEIGHT;
+                const d = forward
+                  ? `M ${x1} ${y1} C ${x1 + COLUMN_GAP / 2} ${y1}, ${x2 - COLUMN_GAP / 2} ${y2}, ${x2} ${y2}`
+                  : `M ${x1} ${y1} C ${x1} ${y1 + 40}, ${x2} ${y2 + 40}, ${x2} ${y2}`;
+                return <path key={`${link.from}-${link.to}`} d={d} fill="none" stroke="#475569" strokeWidth="1.5" markerEnd="url(#arch-arrow)" />;
+              })}
+              {diagram.participants.map(p => {
+                const position = componentLayout.positions.get(p.id)!;
+                return <Box key={p.id} participant={p} x={position.x} y={position.y} />;
+              })}
+            </g>
+          ) : (
+            <g>
+              {diagram.participants.map(p => {
+                const x = sequenceLayout.laneX.get(p.id)!;
+                return (
+                  <g key={p.id}>
+                    <line x1={x} y1={PADDING + BOX_HEIGHT} x2={x} y2={sequenceLayout.height - PADDING / 2} stroke="#2d3342" strokeDasharray="4 4" />
+                    <Box participant={p} x={x - BOX_WIDTH / 2} y={PADDING} />
+                  </g>
+                );
+              })}
+              {diagram.interactions.map((interaction, idx) => {
+                const x1 = sequenceLayout.laneX.get(interaction.from)!;
+                const x2 = sequenceLayout.laneX.get(interaction.to)!;
+                const y = sequenceLayout.top + idx * MESSAGE_GAP;
+                const text = `${idx + 1}. ${interaction.label}`;
+                if (x1 === x2) {
+                  return (
+                    <g key={idx}>
+                      <title>{interaction.label}</title>
+                      <path d={`M ${x1} ${y - 8} h 36 v 16 h -36`} fill="none" stroke="#64748b" strokeWidth="1.5" markerEnd="url(#arch-arrow)" />
+                      <text x={x1 + 44} y={y + 4} fill="#cbd5e1" fontSize="11" fontFamily="Inter, sans-serif">{truncate(text, 34)}</text>
+                    </g>
+                  );
+                }
+                return (
+                  <g key={idx}>
+                    <title>{interaction.label}</title>
+                    <line x1={x1} y1={y} x2={x2} y2={y} stroke="#64748b" strokeWidth="1.5" markerEnd="url(#arch-arrow)" />
+                    <text x={(x1 + x2) / 2} y={y - 7} fill="#cbd5e1" fontSize="11" textAnchor="middle" fontFamily="Inter, sans-serif">
+                      {truncate(text, Math.floor(Math.abs(x2 - x1) / 6.5))}
+                    </text>
+                  </g>
+                );
+              })}
+            </g>
+          )}
+        </svg>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,362 @@
+import React, { useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { Plus, Trash2, ArrowUp, ArrowDown, Save, Play, X, AlertCircle, Database } from 'lucide-react';
+import { Blueprint, FieldType, OnDeleteAction, RelationshipCardinality, SchemaField, SchemaRelationship } from '../types';
+import { BlueprintIssue, validateBlueprint } from '../services/blueprintValidation';
+import { CARDINALITIES, FIELD_TYPES, ON_DELETE_ACTIONS, createField } from '../services/schema';
+
+interface BlueprintEditorProps {
+  blueprint: Blueprint;
+  onSave: (blueprint: Blueprint, generateCode: boolean) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-dark-bg border border-dark-border rounded-lg px-3 py-2 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-brand-500";
+
+export const BlueprintEditor: React.FC<BlueprintEditorProps> = ({ blueprint, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Blueprint>(() => structuredClone(blueprint));
+  const issues = useMemo(() => validateBlueprint(draft), [draft]);
+
+  // Recipes mutate a fresh clone so nested lists can be edited in place
+  const update = (recipe: (next: Blueprint) => void) => {
+    setDraft(prev => {
+      const next = structuredClone(prev);
+      recipe(next);
+      return next;
+    });
+  };
+
+  const issuesAt = (prefix: string) => issues.filter(issue => issue.path === prefix || issue.path.startsWith(prefix + '.'));
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Section title="Overview" issues={issuesAt('appName').concat(issuesAt('summary'))}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Field label="App name">
+            <input className={inputClass} value={draft.appName} onChange={(e) => update(b => { b.appName = e.target.value; })} />
+          </Field>
+          <Field label="Tagline">
+            <input className={inputClass} value={draft.tagline} onChange={(e) => update(b => { b.tagline = e.target.value; })} />
+          </Field>
+        </div>
+        <Field label="Summary">
+          <textarea className={clsx(inputClass, "h-28 resize-y")} value={draft.summary} onChange={(e) => update(b => { b.summary = e.target.value; })} />
+        </Field>
+      </Section>
+
+      <Section title="Tech Stack" issues={issuesAt('techStack')}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(['frontend', 'backend', 'database', 'devOps'] as const).map(key => (
+            <Field key={key} label={key}>
+              <StringListEditor
+                items={draft.techStack[key]}
+                placeholder="Technology"
+                onChange={(items) => update(b => { b.techStack[key] = items; })}
+              />
+            </Field>
+          ))}
+        </div>
+      </Section>
+
+      <Section title="Authentication & Security" issues={issuesAt('authentication').concat(issuesAt('securityFeatures'))}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Field label="Auth strategies">
+            <StringListEditor items={draft.authentication} placeholder="e.g. OAuth2" onChange={(items) => update(b => { b.authentication = items; })} />
+          </Field>
+          <Field label="Security features">
+            <StringListEditor items={draft.securityFeatures} placeholder="e.g. Rate Limiting" onChange={(items) => update(b => { b.securityFeatures = items; })} />
+          </Field>
+        </div>
+      </Section>
+
+      <Section title="Architecture" issues={issuesAt('architecture')}>
+        <Field label="Pattern">
+          <input className={inputClass} value={draft.architecture.pattern} onChange={(e) => update(b => { b.architecture.pattern = e.target.value; })} />
+        </Field>
+        <Field label="Explanation">
+          <textarea className={clsx(inputClass, "h-20 resize-y")} value={draft.architecture.explanation} onChange={(e) => update(b => { b.architecture.explanation = e.target.value; })} />
+        </Field>
+        <Field label="Flow steps">
+          <StringListEditor
+            items={draft.architecture.flowSteps}
+            placeholder="Describe a step"
+            ordered
+            onChange={(items) => update(b => { b.architecture.flowSteps = items; })}
+          />
+        </Field>
+      </Section>
+
+      <Section title="Database Models" issues={issuesAt('databaseSchema')}>
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          {draft.databaseSchema.models.map((model, idx) => (
+            <div key={idx} className="bg-dark-bg/50 border border-dark-border rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Database className="w-4 h-4 text-amber-400 shrink-0" />
+                <input
+                  className={clsx(inputClass, "font-mono font-bold")}
+                  value={model.name}
+                  placeholder="ModelName"
+                  onChange={(e) => update(b => { b.databaseSchema.models[idx].name = e.target.value; })}
+                />
+                <button
+                  onClick={() => update(b => { b.databaseSchema.models.splice(idx, 1); })}
+                  title="Remove model"
+                  className="p-2 text-gray-500 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <Field label="Fields">
+                <FieldListEditor
+                  fields={model.fields}
+                  onChange={(fields) => update(b => { b.databaseSchema.models[idx].fields = fields; })}
+                />
+              </Field>
+              <Field label="Relationships">
+                <RelationshipListEditor
+                  relationships={model.relationships}
+                  modelNames={draft.databaseSchema.models.map(m => m.name).filter(Boolean)}
+                  onChange={(relationships) => update(b => { b.databaseSchema.models[idx].relationships = relationships; })}
+                />
+              </Field>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => update(b => { b.databaseSchema.models.push({ name: '', fields: [createField('id', 'uuid', { primaryKey: true })], relationships: [] }); })}
+          className="flex items-center gap-2 text-sm text-brand-400 hover:text-brand-300 transition-colors"
+        >
+          <Plus className="w-4 h-4" /> Add model
+        </button>
+      </Section>
+
+      <Section title="Estimated Complexity" issues={issuesAt('estimatedComplexity')}>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {(['frontend', 'backend', 'devOps', 'security'] as const).map(key => (
+            <Field key={key} label={key}>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className={inputClass}
+                value={draft.estimatedComplexity[key]}
+                onChange={(e) => update(b => { b.estimatedComplexity[key] = Number(e.target.value); })}
+              />
+            </Field>
+          ))}
+        </div>
+      </Section>
+
+      <div className="sticky bottom-4 z-20 flex flex-col md:flex-row md:items-center justify-between gap-3 bg-dark-surface/95 backdrop-blur border border-dark-border rounded-xl p-4 shadow-2xl">
+        <span className={clsx("text-sm flex items-center gap-2", issues.length ? "text-red-400" : "text-gray-400")}>
+          {issues.length > 0 && <AlertCircle className="w-4 h-4" />}
+          {issues.length ? `${issues.length} issue${issues.length === 1 ? '' : 's'} to fix before saving` : 'Blueprint is valid'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button onClick={onCancel} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-400 hover:text-white transition-colors">
+            <X className="w-4 h-4" /> Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft, false)}
+            disabled={issues.length > 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg border border-dark-border text-gray-200 hover:bg-dark-bg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+          <button
+            onClick={() => onSave(draft, true)}
+            disabled={issues.length > 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-white text-dark-bg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Play className="w-4 h-4" /> Save & Generate Code
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Section = ({ title, issues, children }: { title: string, issues: BlueprintIssue[], children: React.ReactNode }) => (
+  <div className={clsx("bg-dark-surface border rounded-xl p-5 space-y-4", issues.length ? "border-red-500/30" : "border-dark-border")}>
+    <h3 className="text-sm font-bold text-white uppercase tracking-wider">{title}</h3>
+    {children}
+    {issues.length > 0 && (
+      <ul className="space-y-1">
+        {issues.map(issue => (
+          <li key={issue.path + issue.message} className="text-xs text-red-400 flex items-center gap-1.5">
+            <AlertCircle className="w-3 h-3 shrink-0" /> {issue.message}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const Field = ({ label, children }: { label: string, children: React.ReactNode }) => (
+  <div className="space-y-1.5">
+    <span className="block text-xs font-bold text-gray-500 uppercase tracking-widest">{label}</span>
+    {children}
+  </div>
+);
+
+interface StringListEditorProps {
+  items: string[];
+  onChange: (items: string[]) => void;
+  placeholder?: string;
+  ordered?: boolean;
+  mono?: boolean;
+}
+
+const StringListEditor: React.FC<StringListEditorProps> = ({ items, onChange, placeholder, ordered = false, mono = false }) => {
+  const set = (idx: number, value: string) => onChange(items.map((item, i) => (i === idx ? value : item)));
+  const move = (idx: number, delta: number) => {
+    const next = [...items];
+    const [item] = next.splice(idx, 1);
+    next.splice(idx + delta, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {items.map((item, idx) => (
+        <div key={idx} className="flex items-center gap-1.5">
+          {ordered && <span className="w-6 text-xs text-gray-500 font-mono text-right shrink-0">{idx + 1}.</span>}
+          <input
+            className={clsx(inputClass, "py-1.5", mono && "font-mono")}
+            value={item}
+            placeholder={placeholder}
+            onChange={(e) => set(idx, e.target.value)}
+          />
+          {ordered && (
+            <>
+              <button type="button" disabled={idx === 0} onClick={() => move(idx, -1)} className="p-1 text-gray-500 hover:text-white disabled:opacity-30">
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button type="button" disabled={idx === items.length - 1} onClick={() => move(idx, 1)} className="p-1 text-gray-500 hover:text-white disabled:opacity-30">
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+          <button type="button" onClick={() => onChange(items.filter((_, i) => i !== idx))} className="p-1 text-gray-500 hover:text-red-400">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange([...items, ''])} className="flex items-center gap-1.5 text-xs text-brand-400 hover:text-brand-300 transition-colors">
+        <Plus className="w-3.5 h-3.5" /> Add
+      </button>
+    </div>
+  );
+};
+
+const selectClass = "bg-dark-bg border border-dark-border rounded-lg px-2 py-1.5 text-xs text-gray-200 font-mono focus:outline-none focus:border-brand-500";
+
+const FLAG_LABELS: Array<[keyof Pick<SchemaField, 'primaryKey' | 'nullable' | 'unique' | 'index'>, string]> = [
+  ['primaryKey', 'PK'],
+  ['nullable', 'NULL'],
+  ['unique', 'UQ'],
+  ['index', 'IDX'],
+];
+
+const FieldListEditor = ({ fields, onChange }: { fields: SchemaField[], onChange: (fields: SchemaField[]) => void }) => {
+  const set = (idx: number, patch: Partial<SchemaField>) => onChange(fields.map((field, i) => (i === idx ? { ...field, ...patch } : field)));
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, idx) => (
+        <div key={idx} className="bg-dark-surface/60 border border-dark-border/60 rounded-lg p-2 space-y-2">
+          <div className="flex items-center gap-1.5">
+            <input
+              className={clsx(inputClass, "py-1.5 font-mono")}
+              value={field.name}
+              placeholder="column"
+              onChange={(e) => set(idx, { name: e.target.value })}
+            />
+            <select className={selectClass} value={field.type} onChange={(e) => set(idx, { type: e.target.value as FieldType })}>
+              {FIELD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <button type="button" onClick={() => onChange(fields.filter((_, i) => i !== idx))} className="p-1 text-gray-500 hover:text-red-400">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5">
+            {FLAG_LABELS.map(([key, label]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => set(idx, { [key]: !field[key] })}
+                className={clsx(
+                  "px-2 py-0.5 rounded text-[10px] font-bold font-mono border transition-colors",
+                  field[key] ? "bg-brand-500/15 text-brand-300 border-brand-500/40" : "text-gray-500 border-dark-border hover:text-gray-300"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+            <input
+              className={clsx(selectClass, "flex-1 min-w-[100px]")}
+              value={field.defaultValue || ''}
+              placeholder="default"
+              onChange={(e) => set(idx, { defaultValue: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange([...fields, createField('')])} className="flex items-center gap-1.5 text-xs text-brand-400 hover:text-brand-300 transition-colors">
+        <Plus className="w-3.5 h-3.5" /> Add field
+      </button>
+    </div>
+  );
+};
+
+interface RelationshipListEditorProps {
+  relationships: SchemaRelationship[];
+  modelNames: string[];
+  onChange: (relationships: SchemaRelationship[]) => void;
+}
+
+const RelationshipListEditor: React.FC<RelationshipListEditorProps> = ({ relationships, modelNames, onChange }) => {
+  const set = (idx: number, patch: Partial<SchemaRelationship>) => onChange(relationships.map((rel, i) => (i === idx ? { ...rel, ...patch } : rel)));
+
+  return (
+    <div className="space-y-2">
+      {relationships.map((relationship, idx) => (
+        <div key={idx} className="flex flex-wrap items-center gap-1.5">
+          <select className={selectClass} value={relationship.cardinality} onChange={(e) => set(idx, { cardinality: e.target.value as RelationshipCardinality })}>
+            {CARDINALITIES.map(cardinality => <option key={cardinality} value={cardinality}>{cardinality}</option>)}
+          </select>
+          <select className={selectClass} value={relationship.target} onChange={(e) => set(idx, { target: e.target.value })}>
+            {!modelNames.includes(relationship.target) && <option value={relationship.target}>{relationship.target || 'model'}</option>}
+            {modelNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <input
+            className={clsx(selectClass, "w-28")}
+            value={relationship.foreignKey || ''}
+            placeholder="foreign key"
+            disabled={relationship.cardinality === 'many-to-many'}
+            onChange={(e) => set(idx, { foreignKey: e.target.value || undefined })}
+          />
+          <select
+            className={selectClass}
+            value={relationship.onDelete || ''}
+            onChange={(e) => set(idx, { onDelete: (e.target.value || undefined) as OnDeleteAction | undefined })}
+          >
+            <option value="">on delete…</option>
+            {ON_DELETE_ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+          </select>
+          <button type="button" onClick={() => onChange(relationships.filter((_, i) => i !== idx))} className="p-1 text-gray-500 hover:text-red-400">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        disabled={modelNames.length === 0}
+        onClick={() => onChange([...relationships, { target: modelNames[0], cardinality: 'many-to-one' }])}
+        className="flex items-center gap-1.5 text-xs text-brand-400 hover:text-brand-300 disabled:opacity-40 transition-colors"
+      >
+        <Plus className="w-3.5 h-3.5" /> Add relationship
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { Wand2, Loader2, Check, X, Plus, Minus, ArrowRight, RefreshCw } from 'lucide-react';
+import { Blueprint } from '../types';
+import { countChanges, diffBlueprints } from '../services/blueprintDiff';
+
+interface BlueprintRefinePanelProps {
+  blueprint: Blueprint;
+  onRefine: (instruction: string) => Promise<Blueprint>;
+  onAccept: (revised: Blueprint, regenerateCode: boolean) => void;
+  onClose: () => void;
+}
+
+export const BlueprintRefinePanel: React.FC<BlueprintRefinePanelProps> = ({ blueprint, onRefine, onAccept, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [revised, setRevised] = useState<Blueprint | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sections = useMemo(() => (revised ? diffBlueprints(blueprint, revised) : []), [blueprint, revised]);
+  const totalChanges = countChanges(sections);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || isRefining) return;
+
+    setIsRefining(true);
+    setError(null);
+    setRevised(null);
+    try {
+      setRevised(await onRefine(instruction.trim()));
+    } catch (err: any) {
+      setError(err.message || "Failed to refine blueprint");
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const accept = (regenerateCode: boolean) => {
+    if (!revised) return;
+    onAccept(revised, regenerateCode);
+    setRevised(null);
+    setInstruction('');
+  };
+
+  return (
+    <div className="mb-8 bg-dark-surface border border-dark-border rounded-xl p-5 animate-slide-up">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+          <Wand2 className="w-4 h-4 text-brand-400" /> Refine Blueprint
+        </h3>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-white transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-3">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          disabled={isRefining}
+          placeholder="e.g., Swap Postgres for MongoDB and add multi-tenancy"
+          className="flex-1 bg-dark-bg border border-dark-border rounded-lg px-4 py-2.5 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-brand-500/50 focus:border-brand-500"
+        />
+        <button
+          type="submit"
+          disabled={!instruction.trim() || isRefining}
+          className="flex items-center justify-center gap-2 px-5 py-2.5 rounded-lg text-sm font-semibold text-white bg-brand-600 hover:bg-brand-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRefining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+          {isRefining ? 'Refining...' : 'Refine'}
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+      {revised && (
+        <div className="mt-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-400">
+              {totalChanges === 0 ? 'The model returned no changes in the tracked fields.' : `${totalChanges} change${totalChanges === 1 ? '' : 's'} proposed`}
+            </span>
+          </div>
+
+          {sections.filter(section => section.changes.length > 0).map(section => (
+            <div key={section.key}>
+              <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-2">{section.title}</h4>
+              <ul className="space-y-1">
+                {section.changes.map((change, idx) => (
+                  <li
+                    key={idx}
+                    className={clsx(
+                      "flex items-start gap-2 text-sm font-mono px-3 py-1.5 rounded border",
+                      change.kind === 'added' && "bg-green-500/5 border-green-500/20 text-green-300",
+                      change.kind === 'removed' && "bg-red-500/5 border-red-500/20 text-red-300",
+                      change.kind === 'changed' && "bg-amber-500/5 border-amber-500/20 text-amber-300"
+                    )}
+                  >
+                    {change.kind === 'added' && <Plus className="w-3.5 h-3.5 mt-0.5 shrink-0" />}
+                    {change.kind === 'removed' && <Minus className="w-3.5 h-3.5 mt-0.5 shrink-0" />}
+                    {change.kind === 'changed' && <ArrowRight className="w-3.5 h-3.5 mt-0.5 shrink-0" />}
+                    <span className="text-gray-500 shrink-0">{change.label}:</span>
+                    {change.kind === 'changed' ? (
+                      <span><span className="line-through opacity-60">{change.before || '—'}</span> → {change.after || '—'}</span>
+                    ) : (
+                      <span>{change.after ?? change.before}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center justify-end gap-2 pt-2 border-t border-dark-border">
+            <button
+              onClick={() => setRevised(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-400 hover:text-white transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={() => accept(false)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg border border-dark-border text-gray-200 hover:bg-dark-bg transition-colors"
+            >
+              <Check className="w-4 h-4" /> Accept
+            </button>
+            <button
+              onClick={() => accept(true)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-white text-dark-bg hover:bg-gray-100 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" /> Accept & Regenerate Code
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
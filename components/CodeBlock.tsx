@@ -1,223 +1,245 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { File, Folder, ChevronRight, ChevronDown, Copy, Check, FileCode, FileJson, FileText, Terminal, Play, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { Copy, Check, Terminal, Play, Eye, EyeOff, RefreshCw, Wand2, Undo2, Loader2, X, Files, Search, RotateCcw, History, ListChecks } from 'lucide-react';
 import { clsx } from 'clsx';
+import { ModuleKind, ParsedFile, PreviewErrorReport } from '../types';
+import { LivePreview } from './LivePreview';
+import { CodeEditor } from './CodeEditor';
+import { FileSearchPanel } from './FileSearchPanel';
+import { FileTree, getFileIcon } from './FileTree';
+import { QuickOpen } from './QuickOpen';
+import { ValidationPanel } from './ValidationPanel';
+import { FileChange, FileEntry, FileStreamParser, applyFileChanges, parseFiles } from '../services/fileProtocol';
+import { ValidationIssue, validateModule } from '../services/projectValidation';
 
 interface CodeBlockProps {
   content: string;
   enablePreview?: boolean;
   isStreaming?: boolean;
+  onFixError?: (report: PreviewErrorReport) => void;
+  isFixing?: boolean;
+  // Per-file actions; the explorer only offers them when the handlers are provided
+  onRegenerateFile?: (name: string) => void;
+  onEditFile?: (name: string, instruction: string) => void;
+  onUndoFile?: (name: string) => void;
+  undoableFiles?: string[];
+  // Replacement currently streaming in for one file
+  pendingFile?: FileEntry | null;
+  // Makes the editor writable; receives edited files to merge into the module
+  onChangeFiles?: (changes: FileChange[]) => void;
+  // Module output as generated, used to mark files that have been changed since
+  baseline?: string;
+  onShowHistory?: () => void;
+  // Enables the problems view, which validates the files as this kind of module
+  module?: ModuleKind;
+  onRepair?: (issues: ValidationIssue[]) => void;
+  repairRound?: number | null;
 }
 
-interface ParsedFile {
-  name: string;
-  path: string[];
-  content: string;
-  language: string;
-}
+// Pause in typing after which the open file is written back into the module
+const DRAFT_SAVE_DELAY = 500;
+
+type Draft = FileEntry & { saved: boolean };
 
-export const CodeBlock: React.FC<CodeBlockProps> = ({ content, enablePreview = false, isStreaming = false }) => {
+export const CodeBlock: React.FC<CodeBlockProps> = ({
+  content, enablePreview = false, isStreaming = false, onFixError, isFixing = false,
+  onRegenerateFile, onEditFile, onUndoFile, undoableFiles = [], pendingFile = null, onChangeFiles, baseline, onShowHistory,
+  module, onRepair, repairRound = null,
+}) => {
   const [files, setFiles] = useState<ParsedFile[]>([]);
   const [activeFile, setActiveFile] = useState<ParsedFile | null>(null);
   const [copied, setCopied] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [streamingFile, setStreamingFile] = useState<string | null>(null);
+  // Line to scroll to once a file opened from a preview error or search result has rendered
+  const [revealLine, setRevealLine] = useState<number | null>(null);
+  const [sidebarView, setSidebarView] = useState<'files' | 'search' | 'problems'>('files');
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isQuickOpen, setIsQuickOpen] = useState(false);
+  const parserRef = useRef<{ parser: FileStreamParser; consumed: string } | null>(null);
+  // File whose edit instruction is being typed
+  const [editTarget, setEditTarget] = useState<string | null>(null);
+  const canChangeFiles = !isStreaming && !pendingFile && repairRound === null;
+  const isEditable = Boolean(onChangeFiles) && canChangeFiles;
+  const [instruction, setInstruction] = useState('');
+  // Edits to the open file are kept as a plain entry and only serialized into the module when
+  // saved; a saved draft stays on screen until the module's new content has been parsed
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const draftRef = useRef<Draft | null>(null);
+
+  const updateDraft = (next: Draft | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  };
+
+  const saveDraft = () => {
+    const pending = draftRef.current;
+    if (!pending || pending.saved) return;
+    updateDraft({ ...pending, saved: true });
+    onChangeFiles?.([{ name: pending.name, content: pending.content }]);
+  };
 
   useEffect(() => {
     if (!content) {
+      parserRef.current = null;
       setFiles([]);
+      setStreamingFile(null);
       return;
     }
 
-    // Regex to match <file name="...">...</file> pattern
-    // We use a non-greedy match for content to handle multiple files
-    const fileRegex = /<file name="([^"]+)">([\s\S]*?)<\/file>/g;
-    const matches = [...content.matchAll(fileRegex)];
-    
-    // Also try to find a "partial" file at the end if we are streaming
-    const partialRegex = /<file name="([^"]+)">([\s\S]*?)$/;
-    
-    let parsed: ParsedFile[] = [];
-
-    if (matches.length > 0) {
-      parsed = matches.map(m => {
-        const fullPath = m[1];
-        const pathParts = fullPath.split('/');
-        return {
-          name: fullPath,
-          path: pathParts,
-          content: m[2].trim(),
-          language: fullPath.split('.').pop() || 'txt'
-        };
-      });
+    // Streams only ever append, so usually just the new tail needs parsing
+    let stream = parserRef.current;
+    if (!stream || !content.startsWith(stream.consumed)) {
+      stream = { parser: new FileStreamParser(), consumed: '' };
+      parserRef.current = stream;
     }
+    stream.parser.push(content.slice(stream.consumed.length));
+    stream.consumed = content;
 
-    // If streaming and we have trailing content that looks like an open file tag
-    if (isStreaming) {
-      const lastMatchIndex = matches.length > 0 ? matches[matches.length - 1].index! + matches[matches.length - 1][0].length : 0;
-      const remainingContent = content.slice(lastMatchIndex);
-      const partialMatch = remainingContent.match(partialRegex);
-      
-      if (partialMatch) {
-         const fullPath = partialMatch[1];
-         parsed.push({
-            name: fullPath,
-            path: fullPath.split('/'),
-            content: partialMatch[2], // raw content, might change
-            language: fullPath.split('.').pop() || 'txt'
-         });
-      }
-    }
+    const snapshot = stream.parser.files;
+    const languages = new Map(snapshot.map(file => [file.name, file.language]));
+    const { files: resolved } = applyFileChanges([], snapshot.filter(file => file.complete));
+    // The file still being written is shown as it arrives; a block cut off in finished output is dropped
+    const partial = isStreaming ? snapshot.find(file => !file.complete) : undefined;
+    const entries = partial ? [...resolved.filter(file => file.name !== partial.name), partial] : resolved;
+    const partialName = partial?.name ?? null;
+
+    const parsed: ParsedFile[] = entries.map(file => ({
+      name: file.name,
+      path: file.name.split('/'),
+      content: file.content,
+      language: languages.get(file.name) || file.name.split('.').pop() || 'txt',
+    }));
 
     setFiles(parsed);
+    setStreamingFile(partialName);
+    if (draftRef.current?.saved) updateDraft(null);
 
     // Set active file if none selected or if previously selected is no longer valid (rare)
     if (!activeFile && parsed.length > 0) {
       setActiveFile(parsed[0]);
-    } else if (activeFile && !parsed.find(f => f.name === activeFile.name)) {
-      // If the file we were looking at disappeared (shouldn't happen), reset
-      // Or if it's the same name but updated content, we want to keep it selected
+    } else if (activeFile) {
+      // Keep the same file selected but pick up new content (e.g. after a fix was merged)
       const updated = parsed.find(f => f.name === activeFile.name);
-      if (updated) {
-         // Should update content automatically via render
-      }
+      if (updated) setActiveFile(updated);
     }
   }, [content, isStreaming]);
 
-  const handleCopy = () => {
-    if (activeFile) {
-      navigator.clipboard.writeText(activeFile.content);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    }
-  };
+  useEffect(() => {
+    if (!draft || draft.saved) return;
+    const timer = setTimeout(saveDraft, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [draft]);
 
-  const generatePreview = () => {
-    if (!files.length) return;
-    
-    // Find entry points
-    const mainFile = files.find(f => f.name.includes('main.tsx') || f.name.includes('index.tsx'));
-    const indexHtml = files.find(f => f.name.endsWith('index.html'));
+  // Anything that takes the editor away (a regeneration, a repair, leaving the module) saves first
+  useEffect(() => {
+    if (!isEditable) saveDraft();
+  }, [isEditable]);
+  useEffect(() => saveDraft, []);
 
-    if (!mainFile) {
-      console.warn("No entry point found for preview");
+  // Validate once the files settle; a module still streaming would only report missing files
+  useEffect(() => {
+    if (!module || isStreaming || pendingFile || files.length === 0) {
+      setIssues([]);
+      setIsValidating(false);
+      if (isStreaming) setSidebarView(view => view === 'problems' ? 'files' : view);
       return;
     }
+    let cancelled = false;
+    setIsValidating(true);
+    const timer = setTimeout(() => {
+      validateModule(module, files)
+        .then(found => !cancelled && setIssues(found))
+        .catch(error => console.error('Validation failed', error))
+        .finally(() => !cancelled && setIsValidating(false));
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [module, files, isStreaming, pendingFile]);
 
-    // Create a map of file paths to Blob URLs
-    const blobMap: Record<string, string> = {};
-    
-    const rewriteImports = (code: string) => {
-      return code.replace(/import\s+(?:(?:\w+|\{[^}]+\})\s+from\s+)?['"](\.[^'"]+)['"]/g, (match, importPath) => {
-         // Try to resolve relative path
-         // This is a naive implementation. 
-         const namePart = importPath.split('/').pop(); 
-         // Find a file that ends with this name (naive resolution)
-         const targetFile = files.find(f => {
-            const fName = f.name.replace(/\.(tsx|ts|jsx|js)$/, '');
-            const iName = importPath.replace(/\.(tsx|ts|jsx|js)$/, '').split('/').pop();
-            return fName.endsWith(iName);
-         });
-
-         if (targetFile && blobMap[targetFile.name]) {
-           return match.replace(importPath, blobMap[targetFile.name]);
-         }
-         return match;
-      });
+  const issueCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    issues.forEach(issue => issue.severity === 'error' && issue.file && counts.set(issue.file, (counts.get(issue.file) ?? 0) + 1));
+    return counts;
+  }, [issues]);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  // Only one CodeBlock is on screen at a time, so its shortcuts can listen on the window
+  useEffect(() => {
+    if (files.length === 0) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'p' && !event.shiftKey) setIsQuickOpen(true);
+      else if (key === 'f' && event.shiftKey) setSidebarView('search');
+      else return;
+      event.preventDefault();
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [files.length]);
 
-    // Construct the HTML
-    const appFile = files.find(f => f.name === 'src/App.tsx' || f.name === 'App.tsx');
-    const cssFile = files.find(f => f.name.endsWith('.css'))?.content || '';
-
-    if (!appFile) return;
-
-    const sortedFiles = [
-       ...files.filter(f => f.name.includes('utils') || f.name.includes('types')),
-       ...files.filter(f => f.name.includes('components/')),
-       ...files.filter(f => f.name.includes('pages/')),
-       appFile,
-       mainFile
-    ];
-    
-    // Remove duplicates
-    const uniqueFiles = Array.from(new Set(sortedFiles));
-
-    let bundle = `
-      window.process = { env: { NODE_ENV: 'development' } };
-    `;
-
-    uniqueFiles.forEach(f => {
-       // Strip imports
-       let content = f.content
-         .replace(/import\s+.*from\s+['"].*['"];?/g, '')
-         .replace(/export\s+default\s+/g, 'const DefaultExport = ')
-         .replace(/export\s+/g, '');
-       
-       // Handle "export default function App" -> "function App"
-       const name = f.name.split('/').pop()?.split('.')[0] || 'Unknown';
-       
-       // If it was export default, assign it to the name
-       if (f.content.includes('export default')) {
-          content += `\nwindow.${name} = DefaultExport || ${name};\n`;
-       } else {
-          // Named exports are already stripped of 'export'
-       }
-       
-       bundle += `\n/* File: ${f.name} */\n${content}\n`;
-    });
-
-    // Add CSS
-    const style = `<style>
-      ${cssFile}
-      body { background-color: #0f1117; color: white; }
-    </style>`;
-
-    const iframeContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="UTF-8" />
-          <script src="https://cdn.tailwindcss.com"></script>
-          <script src="https://unpkg.com/react@18/umd/react.development.js"></script>
-          <script src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
-          <script src="https://unpkg.com/lucide@latest"></script>
-          <script src="https://unpkg.com/lucide-react@latest"></script>
-          <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
-          ${style}
-        </head>
-        <body>
-          <div id="root"></div>
-          <script type="text/babel">
-            // Mocks and Polyfills
-            const { useState, useEffect, useContext, createContext, useRef } = React;
-            
-             // --- INJECTED BUNDLE START ---
-             ${bundle}
-             // --- INJECTED BUNDLE END ---
-
-             // Mount
-             const root = ReactDOM.createRoot(document.getElementById('root'));
-             // Try to find App
-             if (window.App) {
-                root.render(<window.App />);
-             } else {
-                root.render(<div className="p-4 text-red-400">Could not auto-detect Entry Point (App). Code structure might be too complex for simple preview.</div>);
-             }
-          </script>
-        </body>
-      </html>
-    `;
-    
-    const blob = new Blob([iframeContent], { type: 'text/html' });
-    setPreviewUrl(URL.createObjectURL(blob));
+  const baselineFiles = useMemo(
+    () => (baseline ? new Map(parseFiles(baseline).map(file => [file.name, file.content])) : null),
+    [baseline]
+  );
+  // Files added after generation (e.g. by a fix) count as modified too
+  const isModified = (file: ParsedFile) => Boolean(baselineFiles) && baselineFiles!.get(file.name) !== file.content;
+
+  // Preview errors name files the way the bundler normalizes them ("src/App.tsx" for "./src/App.tsx")
+  const handleOpenFile = (name: string, line?: number) => {
+    const file = files.find(f => f.name === name) || files.find(f => f.name.replace(/^\.?\//, '') === name);
+    if (!file) return;
+    setActiveFile(file);
+    setShowPreview(false);
+    setRevealLine(line ?? null);
   };
 
-  useEffect(() => {
-    if (showPreview && files.length > 0 && !previewUrl) {
-       generatePreview();
+  // While a replacement streams in, show it in place of the file's current content
+  const shownFile = activeFile && pendingFile?.name === activeFile.name && pendingFile.content
+    ? { ...activeFile, content: pendingFile.content }
+    : activeFile && draft?.name === activeFile.name ? { ...activeFile, content: draft.content } : activeFile;
+
+  const editFile = (name: string, content: string) => {
+    if (draftRef.current?.name !== name) saveDraft();
+    updateDraft({ name, content, saved: false });
+  };
+
+  // Changes that replace whole files go after any pending draft, so they are not overwritten by it
+  const changeFiles = (changes: FileChange[]) => {
+    saveDraft();
+    onChangeFiles?.(changes);
+  };
+
+  const startEdit = (file: ParsedFile) => {
+    setActiveFile(file);
+    setShowPreview(false);
+    setEditTarget(file.name);
+    setInstruction('');
+  };
+
+  const submitEdit = () => {
+    if (!editTarget || !instruction.trim() || !onEditFile) return;
+    onEditFile(editTarget, instruction.trim());
+    setEditTarget(null);
+    setInstruction('');
+  };
+
+  const handleRevert = (file: ParsedFile) => {
+    const original = baselineFiles?.get(file.name);
+    if (original !== undefined) changeFiles([{ name: file.name, content: original }]);
+  };
+
+  const handleCopy = () => {
+    if (activeFile) {
+      navigator.clipboard.writeText(shownFile!.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
     }
-  }, [showPreview, files]);
+  };
 
   // Render basic markdown if not in file format
   if (files.length === 0 && !isStreaming) {
@@ -255,48 +277,107 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ content, enablePreview = f
 
   return (
     <div className="flex flex-col md:flex-row h-[500px] md:h-[600px] bg-[#0d1117] border border-dark-border rounded-xl overflow-hidden shadow-2xl animate-fade-in relative">
+      {isQuickOpen && (
+        <QuickOpen
+          files={files}
+          onOpen={file => {
+            setActiveFile(file);
+            setShowPreview(false);
+          }}
+          onClose={() => setIsQuickOpen(false)}
+        />
+      )}
+
       {/* Sidebar - File Explorer */}
       <div className="w-full md:w-64 bg-[#161b22] border-r border-dark-border flex flex-col max-h-[200px] md:max-h-full">
         <div className="p-3 border-b border-dark-border flex items-center justify-between bg-[#161b22]">
           <div className="flex items-center gap-2">
             <Terminal className="w-4 h-4 text-gray-400" />
-            <span className="text-xs font-bold text-gray-300 uppercase tracking-wider">Explorer</span>
+            <span className="text-xs font-bold text-gray-300 uppercase tracking-wider">{sidebarView === 'search' ? 'Search' : sidebarView === 'problems' ? 'Problems' : 'Explorer'}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {isStreaming && <div className="w-2 h-2 bg-brand-500 rounded-full animate-pulse shadow-[0_0_8px_rgba(14,165,233,0.5)]"></div>}
+            {files.length > 0 && module && !isStreaming && (
+              <button
+                onClick={() => setSidebarView(sidebarView === 'problems' ? 'files' : 'problems')}
+                className={clsx(
+                  "flex items-center gap-1 transition-colors",
+                  sidebarView === 'problems' ? "text-white" : errorCount > 0 ? "text-red-400 hover:text-red-300" : issues.length > 0 ? "text-amber-400 hover:text-amber-300" : "text-gray-500 hover:text-white"
+                )}
+                title={sidebarView === 'problems' ? 'Show files' : 'Check the files for problems'}
+              >
+                <ListChecks className="w-3.5 h-3.5" />
+                {issues.length > 0 && <span className="text-[10px] font-semibold">{issues.length}</span>}
+              </button>
+            )}
+            {files.length > 0 && (
+              <button
+                onClick={() => setSidebarView(sidebarView === 'search' ? 'files' : 'search')}
+                className="text-gray-500 hover:text-white transition-colors"
+                title={sidebarView === 'search' ? 'Show files' : 'Search across files (Ctrl+Shift+F)'}
+              >
+                {sidebarView === 'search' ? <Files className="w-3.5 h-3.5" /> : <Search className="w-3.5 h-3.5" />}
+              </button>
+            )}
           </div>
-          {isStreaming && <div className="w-2 h-2 bg-brand-500 rounded-full animate-pulse shadow-[0_0_8px_rgba(14,165,233,0.5)]"></div>}
         </div>
-        <div className="flex-1 overflow-y-auto p-2 scrollbar-hide">
-          <div className="space-y-0.5">
-             {files.map((file, idx) => {
-               // Determine if this file is currently being streamed (last one)
-               const isGenerating = isStreaming && idx === files.length - 1;
-               return (
-                <button
-                  key={file.name + idx}
-                  onClick={() => {
-                    setActiveFile(file);
-                    setShowPreview(false);
-                  }}
-                  className={clsx(
-                    "w-full flex items-center gap-2 px-3 py-1.5 rounded-md text-sm transition-colors text-left font-mono group",
-                    activeFile?.name === file.name && !showPreview
-                      ? "bg-brand-500/10 text-brand-400" 
-                      : "text-gray-400 hover:bg-[#21262d] hover:text-gray-200"
+        {sidebarView === 'problems' ? (
+          <div className="flex-1 min-h-0">
+            <ValidationPanel
+              issues={issues}
+              isValidating={isValidating}
+              onOpenIssue={handleOpenFile}
+              onRepair={onRepair && (canChangeFiles || repairRound !== null) ? () => onRepair(issues) : undefined}
+              repairRound={repairRound}
+            />
+          </div>
+        ) : sidebarView === 'search' ? (
+          <div className="flex-1 min-h-0">
+            <FileSearchPanel
+              files={files}
+              onOpenMatch={handleOpenFile}
+              onReplace={isEditable ? changeFiles : undefined}
+            />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-2 scrollbar-hide">
+            <FileTree
+              files={files}
+              activeName={showPreview ? null : activeFile?.name ?? null}
+              onOpen={file => {
+                setActiveFile(file);
+                setShowPreview(false);
+              }}
+              renderStatus={file => {
+                const isGenerating = (isStreaming && file.name === streamingFile) || pendingFile?.name === file.name;
+                if (isGenerating) return <span className="w-1.5 h-1.5 rounded-full bg-brand-400 animate-pulse ml-2"></span>;
+                const problems = issueCounts.get(file.name.replace(/^\.?\//, ''));
+                if (problems) return <span className="w-1.5 h-1.5 rounded-full bg-red-400 ml-2" title={`${problems} problem${problems === 1 ? '' : 's'}`}></span>;
+                return isModified(file) && <span className="w-1.5 h-1.5 rounded-full bg-amber-400 ml-2" title="Modified since generation"></span>;
+              }}
+              renderActions={canChangeFiles && (onRegenerateFile || onEditFile) ? file => (
+                <>
+                  {onEditFile && (
+                    <button onClick={() => startEdit(file)} className="p-1 text-gray-500 hover:text-brand-400 transition-colors" title="Edit with instruction">
+                      <Wand2 className="w-3 h-3" />
+                    </button>
                   )}
-                >
-                   <div className="shrink-0">{getFileIcon(file.name)}</div>
-                   <span className="truncate flex-1">{file.name}</span>
-                   {isGenerating && <span className="w-1.5 h-1.5 rounded-full bg-brand-400 animate-pulse ml-2"></span>}
-                </button>
-               );
-             })}
-             {files.length === 0 && isStreaming && (
-                <div className="px-3 py-2 text-xs text-gray-500 italic flex items-center gap-2">
-                  <span className="w-3 h-3 border-2 border-gray-600 border-t-gray-400 rounded-full animate-spin"></span>
-                  Initializing...
-                </div>
-             )}
+                  {onRegenerateFile && (
+                    <button onClick={() => onRegenerateFile(file.name)} className="p-1 text-gray-500 hover:text-brand-400 transition-colors" title="Regenerate this file">
+                      <RefreshCw className="w-3 h-3" />
+                    </button>
+                  )}
+                </>
+              ) : undefined}
+            />
+            {files.length === 0 && isStreaming && (
+              <div className="px-3 py-2 text-xs text-gray-500 italic flex items-center gap-2">
+                <span className="w-3 h-3 border-2 border-gray-600 border-t-gray-400 rounded-full animate-spin"></span>
+                Initializing...
+              </div>
+            )}
           </div>
-        </div>
+        )}
       </div>
 
       {/* Main Content */}
@@ -305,16 +386,13 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ content, enablePreview = f
         <div className="flex items-center justify-between border-b border-dark-border bg-[#0d1117] h-10 px-4">
            <div className="flex items-center gap-2 text-sm text-gray-300 font-mono truncate mr-2">
               {!showPreview && getFileIcon(activeFile?.name || '')}
-              <span className="truncate">{showPreview ? 'Live Preview (Beta)' : activeFile?.name}</span>
+              <span className="truncate">{showPreview ? 'Live Preview' : activeFile?.name}</span>
            </div>
            
            <div className="flex items-center gap-3 shrink-0">
              {enablePreview && files.length > 0 && (
                <button 
-                 onClick={() => {
-                    setShowPreview(!showPreview);
-                    if (!showPreview) generatePreview();
-                 }}
+                 onClick={() => setShowPreview(!showPreview)}
                  className={clsx(
                    "flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded transition-colors",
                    showPreview ? "bg-brand-500/20 text-brand-400" : "text-gray-400 hover:text-white"
@@ -325,6 +403,44 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ content, enablePreview = f
                </button>
              )}
              
+             {!showPreview && activeFile && pendingFile?.name === activeFile.name && (
+               <span className="flex items-center gap-1.5 text-xs text-brand-400">
+                 <Loader2 className="w-3.5 h-3.5 animate-spin" /> Rewriting…
+               </span>
+             )}
+
+             {!showPreview && activeFile && onUndoFile && undoableFiles.includes(activeFile.name) && (
+               <button
+                 onClick={() => onUndoFile(activeFile.name)}
+                 disabled={!canChangeFiles}
+                 className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-white disabled:opacity-50 transition-colors"
+                 title="Restore the version before the last regeneration or edit"
+               >
+                 <Undo2 className="w-3.5 h-3.5" /> Undo
+               </button>
+             )}
+
+             {!showPreview && activeFile && onChangeFiles && baselineFiles?.has(activeFile.name) && isModified(activeFile) && (
+               <button
+                 onClick={() => handleRevert(activeFile)}
+                 disabled={!canChangeFiles}
+                 className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-white disabled:opacity-50 transition-colors"
+                 title="Discard changes made since the module was generated"
+               >
+                 <RotateCcw className="w-3.5 h-3.5" /> Revert
+               </button>
+             )}
+
+             {onShowHistory && (
+               <button
+                 onClick={onShowHistory}
+                 className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-white transition-colors"
+                 title="Compare with or restore earlier generations"
+               >
+                 <History className="w-3.5 h-3.5" /> History
+               </button>
+             )}
+
              {!showPreview && (
                <button 
                  onClick={handleCopy}
@@ -337,30 +453,56 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ content, enablePreview = f
            </div>
         </div>
 
+        {editTarget && !showPreview && (
+          <form
+            onSubmit={event => {
+              event.preventDefault();
+              submitEdit();
+            }}
+            className="flex items-center gap-2 px-4 py-2 border-b border-dark-border bg-[#161b22]"
+          >
+            <Wand2 className="w-3.5 h-3.5 text-brand-400 shrink-0" />
+            <input
+              autoFocus
+              value={instruction}
+              onChange={event => setInstruction(event.target.value)}
+              onKeyDown={event => event.key === 'Escape' && setEditTarget(null)}
+              placeholder={`How should ${editTarget} change?`}
+              className="flex-1 min-w-0 bg-dark-bg border border-dark-border rounded-md px-2.5 py-1 text-xs text-gray-200 placeholder-gray-600 focus:outline-none focus:border-brand-500/50"
+            />
+            <button type="submit" disabled={!instruction.trim() || !canChangeFiles} className="px-2.5 py-1 rounded-md text-xs font-medium bg-brand-600 hover:bg-brand-500 text-white disabled:opacity-50 transition-colors">
+              Apply
+            </button>
+            <button type="button" onClick={() => setEditTarget(null)} className="text-gray-500 hover:text-white transition-colors" title="Cancel">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </form>
+        )}
+
         {/* Editor or Preview Area */}
         <div className="flex-1 overflow-hidden relative">
            {showPreview ? (
-             <div className="w-full h-full bg-white">
-                {previewUrl ? (
-                  <iframe 
-                    src={previewUrl} 
-                    className="w-full h-full border-none"
-                    title="Live Preview"
-                    sandbox="allow-scripts allow-modals"
-                  />
-                ) : (
-                  <div className="flex flex-col items-center justify-center h-full text-gray-800">
-                    <Loader2 className="w-8 h-8 animate-spin text-brand-500 mb-2" />
-                    <span className="text-sm">Building Preview...</span>
-                  </div>
-                )}
-             </div>
+             <LivePreview
+               files={files}
+               isStreaming={isStreaming}
+               streamingFile={streamingFile}
+               onOpenFile={handleOpenFile}
+               onFixError={onFixError}
+               isFixing={isFixing}
+             />
            ) : (
-             <div className="absolute inset-0 overflow-auto p-4 custom-scrollbar">
-                {activeFile ? (
-                  <pre className="font-mono text-sm leading-relaxed text-gray-300 tab-4">
-                    <code>{activeFile.content}</code>
-                  </pre>
+             <div className="absolute inset-0">
+                {shownFile ? (
+                  <CodeEditor
+                    // A fresh editor per file keeps undo history from crossing files
+                    key={shownFile.name}
+                    value={shownFile.content}
+                    language={shownFile.language}
+                    readOnly={!isEditable}
+                    onChange={text => editFile(shownFile.name, text)}
+                    revealLine={revealLine}
+                    onRevealed={() => setRevealLine(null)}
+                  />
                 ) : (
                   <div className="flex items-center justify-center h-full text-gray-500 text-sm">
                     {isStreaming ? "Generating files..." : "Select a file to view content"}
@@ -373,12 +515,3 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ content, enablePreview = f
     </div>
   );
 };
-
-const getFileIcon = (filename: string) => {
-  if (filename.endsWith('.json')) return <FileJson className="w-3.5 h-3.5 text-yellow-500" />;
-  if (filename.endsWith('.tsx') || filename.endsWith('.ts')) return <FileCode className="w-3.5 h-3.5 text-blue-400" />;
-  if (filename.endsWith('.js') || filename.endsWith('.jsx')) return <FileCode className="w-3.5 h-3.5 text-yellow-400" />;
-  if (filename.endsWith('.css')) return <FileCode className="w-3.5 h-3.5 text-pink-400" />;
-  if (filename.endsWith('.md')) return <FileText className="w-3.5 h-3.5 text-gray-400" />;
-  return <File className="w-3.5 h-3.5 text-gray-500" />;
-};
\ No newline at end of file
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef } from 'react';
+import { basicSetup } from 'codemirror';
+import { Annotation, Compartment, EditorState, Extension } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { javascript } from '@codemirror/lang-javascript';
+import { json } from '@codemirror/lang-json';
+import { css } from '@codemirror/lang-css';
+import { html } from '@codemirror/lang-html';
+import { markdown } from '@codemirror/lang-markdown';
+import { sql } from '@codemirror/lang-sql';
+import { yaml } from '@codemirror/lang-yaml';
+import { python } from '@codemirror/lang-python';
+import { oneDark } from '@codemirror/theme-one-dark';
+
+interface CodeEditorProps {
+  value: string;
+  // `ParsedFile.language`, usually the file extension
+  language: string;
+  readOnly?: boolean;
+  onChange?: (value: string) => void;
+  // 1-based line to scroll into view and select, e.g. from a preview error or search result
+  revealLine?: number | null;
+  onRevealed?: () => void;
+}
+
+const languageFor = (language: string): Extension => {
+  switch (language.toLowerCase()) {
+    case 'ts': case 'mts': case 'cts': case 'typescript': return javascript({ typescript: true });
+    case 'tsx': return javascript({ typescript: true, jsx: true });
+    case 'js': case 'mjs': case 'cjs': case 'javascript': return javascript();
+    case 'jsx': return javascript({ jsx: true });
+    case 'json': return json();
+    case 'css': case 'scss': return css();
+    case 'html': case 'htm': case 'vue': case 'svelte': return html();
+    case 'md': case 'mdx': case 'markdown': return markdown();
+    case 'sql': return sql();
+    case 'yml': case 'yaml': return yaml();
+    case 'py': case 'python': return python();
+    default: return [];
+  }
+};
+
+// Marks transactions that sync the `value` prop in, so they are not reported back through onChange
+const External = Annotation.define<boolean>();
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '13px', backgroundColor: '#0d1117' },
+  '.cm-scroller': { fontFamily: "'JetBrains Mono', monospace", lineHeight: '1.6' },
+  '.cm-gutters': { backgroundColor: '#0d1117', borderRight: '1px solid #2d3342' },
+  '.cm-activeLine, .cm-activeLineGutter': { backgroundColor: '#161b2280' },
+  '.cm-panels': { backgroundColor: '#161b22', borderColor: '#2d3342' },
+}, { dark: true });
+
+/**
+ * Thin React wrapper around a CodeMirror view. The view is created once; language, read-only
+ * state and external value changes (streaming, regeneration) are applied as transactions so
+ * undo history and scroll position survive them.
+ */
+export const CodeEditor: React.FC<CodeEditorProps> = ({ value, language, readOnly = false, onChange, revealLine, onRevealed }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const languageCompartment = useRef(new Compartment());
+  const readOnlyCompartment = useRef(new Compartment());
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          basicSetup,
+          oneDark,
+          editorTheme,
+          EditorState.tabSize.of(2),
+          languageCompartment.current.of(languageFor(language)),
+          readOnlyCompartment.current.of(EditorState.readOnly.of(readOnly)),
+          EditorView.updateListener.of(update => {
+            if (update.docChanged && !update.transactions.some(tr => tr.annotation(External))) {
+              onChangeRef.current?.(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    // Edits come back unchanged, so only content from elsewhere (a fix, a revert) replaces the document
+    if (!view || view.state.doc.toString() === value) return;
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: value },
+      annotations: [External.of(true)],
+    });
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: languageCompartment.current.reconfigure(languageFor(language)) });
+  }, [language]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: readOnlyCompartment.current.reconfigure(EditorState.readOnly.of(readOnly)) });
+  }, [readOnly]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !revealLine) return;
+    const line = view.state.doc.line(Math.min(Math.max(revealLine, 1), view.state.doc.lines));
+    view.dispatch({
+      selection: { anchor: line.from, head: line.to },
+      effects: EditorView.scrollIntoView(line.from, { y: 'center' }),
+    });
+    view.focus();
+    onRevealed?.();
+  }, [revealLine, value]);
+
+  return <div ref={containerRef} className="h-full w-full overflow-hidden" />;
+};
@@ -0,0 +1,329 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { AlertTriangle, ChevronLeft, ChevronRight, Download, FlaskConical, Loader2, Play, RotateCcw, Table2, X } from 'lucide-react';
+import type { SqlValue } from 'sql.js';
+import { SchemaModel } from '../types';
+import { parseFiles } from '../services/fileProtocol';
+import { DatabaseSandbox as Sandbox, QueryResult, SandboxTable, quoteIdentifier } from '../services/databaseSandbox';
+import { downloadFile } from '../services/diagramExport';
+
+interface DatabaseSandboxProps {
+  models: SchemaModel[];
+  // Generated backend module, for seed SQL files
+  backendCode: string;
+  fileName: string;
+}
+
+const PAGE_SIZE = 25;
+
+interface RowFilter {
+  column: string;
+  value: SqlValue;
+}
+
+const formatCell = (value: SqlValue) => {
+  if (value === null) return 'NULL';
+  if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+  return String(value);
+};
+
+const ResultGrid: React.FC<{ columns: string[]; rows: SqlValue[][]; renderCell?: (column: string, value: SqlValue) => React.ReactNode }> = ({ columns, rows, renderCell }) => (
+  <div className="overflow-auto custom-scrollbar max-h-80 border border-dark-border rounded-lg">
+    <table className="w-full text-xs font-mono">
+      <thead className="sticky top-0 bg-[#161b22]">
+        <tr>
+          {columns.map(column => (
+            <th key={column} className="text-left font-semibold text-gray-400 px-3 py-2 border-b border-dark-border whitespace-nowrap">{column}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, rowIdx) => (
+          <tr key={rowIdx} className="hover:bg-[#21262d]">
+            {row.map((value, colIdx) => (
+              <td key={colIdx} className={clsx("px-3 py-1.5 border-b border-dark-border/50 whitespace-nowrap max-w-[280px] truncate", value === null ? 'text-gray-600 italic' : 'text-gray-300')}>
+                {renderCell ? renderCell(columns[colIdx], value) : formatCell(value)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {rows.length === 0 && <div className="px-3 py-4 text-xs text-gray-500 text-center">No rows</div>}
+  </div>
+);
+
+export const DatabaseSandbox: React.FC<DatabaseSandboxProps> = ({ models, backendCode, fileName }) => {
+  const sandboxRef = useRef<Sandbox | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [tables, setTables] = useState<SandboxTable[]>([]);
+  const [builtFrom, setBuiltFrom] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<string | null>(null);
+  const [filter, setFilter] = useState<RowFilter | null>(null);
+  const [page, setPage] = useState(0);
+
+  const [sql, setSql] = useState('');
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
+
+  const schemaKey = useMemo(() => JSON.stringify(models), [models]);
+  const isStale = status === 'ready' && builtFrom !== schemaKey;
+
+  useEffect(() => () => sandboxRef.current?.close(), []);
+
+  const refreshTables = () => setTables(sandboxRef.current?.tables() ?? []);
+
+  const handleStart = async () => {
+    setStatus('loading');
+    setError(null);
+    setResult(null);
+    setQueryError(null);
+    sandboxRef.current?.close();
+    sandboxRef.current = null;
+    try {
+      const sandbox = await Sandbox.create(models, parseFiles(backendCode));
+      sandboxRef.current = sandbox;
+      const created = sandbox.tables();
+      setTables(created);
+      setSelected(current => created.some(table => table.name === current) ? current : created[0]?.name ?? null);
+      setFilter(null);
+      setPage(0);
+      setBuiltFrom(schemaKey);
+      if (!sql && created[0]) setSql(`SELECT * FROM ${quoteIdentifier(created[0].name)} LIMIT 10;`);
+      setStatus('ready');
+    } catch (err) {
+      setError((err as Error).message);
+      setStatus('error');
+    }
+  };
+
+  const handleRun = () => {
+    const sandbox = sandboxRef.current;
+    if (!sandbox || !sql.trim()) return;
+    try {
+      setResult(sandbox.query(sql));
+      setQueryError(null);
+      refreshTables();
+    } catch (err) {
+      setResult(null);
+      setQueryError((err as Error).message);
+    }
+  };
+
+  const handleDownload = () => {
+    const sandbox = sandboxRef.current;
+    if (sandbox) downloadFile(`${fileName}.sqlite`, new Blob([sandbox.export()], { type: 'application/vnd.sqlite3' }));
+  };
+
+  const openTable = (name: string, rowFilter: RowFilter | null = null) => {
+    setSelected(name);
+    setFilter(rowFilter);
+    setPage(0);
+  };
+
+  const table = tables.find(item => item.name === selected) ?? null;
+  const browse = useMemo(() => {
+    const sandbox = sandboxRef.current;
+    if (!sandbox || !table) return null;
+    const where = filter ? ` WHERE ${quoteIdentifier(filter.column)} = ?` : '';
+    try {
+      const set = sandbox.query(
+        `SELECT * FROM ${quoteIdentifier(table.name)}${where} LIMIT ${PAGE_SIZE} OFFSET ${page * PAGE_SIZE}`,
+        filter ? [filter.value] : undefined
+      ).sets[0];
+      return { columns: set?.columns ?? table.columns.map(column => column.name), rows: set?.rows ?? [] };
+    } catch (err) {
+      return { columns: [], rows: [], error: (err as Error).message };
+    }
+  }, [table, filter, page, tables]);
+
+  const renderBrowseCell = (column: string, value: SqlValue) => {
+    const link = table?.foreignKeys.find(fk => fk.column === column);
+    if (!link || value === null) return formatCell(value);
+    return (
+      <button
+        onClick={() => openTable(link.table, { column: link.targetColumn, value })}
+        className="text-brand-300 hover:text-brand-200 hover:underline"
+        title={`Open ${link.table}.${link.targetColumn} = ${formatCell(value)}`}
+      >
+        {formatCell(value)}
+      </button>
+    );
+  };
+
+  const report = sandboxRef.current?.seedReport;
+  const pageCount = table && !filter ? Math.max(1, Math.ceil(table.rowCount / PAGE_SIZE)) : null;
+
+  return (
+    <div className="bg-dark-surface border border-dark-border rounded-xl p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div className="flex items-start gap-4">
+          <div className="p-3 bg-emerald-500/10 border border-emerald-500/20 rounded-xl">
+            <FlaskConical className="w-6 h-6 text-emerald-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Sandbox Database</h3>
+            <p className="text-sm text-gray-400 mt-1 max-w-md">
+              An in-browser SQLite database built from the blueprint schema and seeded with sample rows, to try out relationships before writing code.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          {status === 'ready' && (
+            <button
+              onClick={handleDownload}
+              className="flex items-center gap-2 px-3 py-2.5 rounded-lg text-sm text-gray-300 border border-dark-border hover:bg-[#21262d] transition-colors"
+              title="Download the sandbox as a SQLite file"
+            >
+              <Download className="w-4 h-4" />
+              .sqlite
+            </button>
+          )}
+          <button
+            onClick={handleStart}
+            disabled={status === 'loading' || models.length === 0}
+            className={clsx(
+              "flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold text-sm transition-all",
+              status === 'loading' || models.length === 0
+                ? 'bg-dark-bg text-gray-600 cursor-not-allowed border border-dark-border'
+                : 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-lg shadow-emerald-500/20'
+            )}
+          >
+            {status === 'loading' ? <Loader2 className="w-4 h-4 animate-spin" /> : status === 'ready' ? <RotateCcw className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            {status === 'loading' ? 'Building...' : status === 'ready' ? 'Reset' : 'Start Sandbox'}
+          </button>
+        </div>
+      </div>
+
+      {status === 'error' && error && (
+        <div className="mt-5 flex items-start gap-2 px-3 py-2 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-300">
+          <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span>The sandbox could not be built: {error}</span>
+        </div>
+      )}
+
+      {status === 'ready' && report && (
+        <div className="mt-5 space-y-4">
+          {isStale && (
+            <div className="flex items-center gap-2 px-3 py-2 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-300">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              The schema changed since the sandbox was built. Reset to rebuild it.
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+            {report.seedFiles.length > 0
+              ? <span>Ran {report.statements - report.failed.length} of {report.statements} statements from {report.seedFiles.join(', ')}</span>
+              : <span>No seed SQL in the backend module</span>}
+            {report.synthesized.length > 0 && <span>Sample rows synthesized for {report.synthesized.length} table{report.synthesized.length === 1 ? '' : 's'}</span>}
+            {report.violations.length > 0
+              ? <span className="text-red-400">{report.violations.length} foreign key violation{report.violations.length === 1 ? '' : 's'}</span>
+              : <span className="text-green-400">Foreign keys consistent</span>}
+          </div>
+
+          {report.failed.length > 0 && (
+            <details className="text-xs">
+              <summary className="cursor-pointer text-amber-300">{report.failed.length} seed statement{report.failed.length === 1 ? '' : 's'} failed in SQLite</summary>
+              <ul className="mt-2 space-y-1.5 max-h-40 overflow-y-auto custom-scrollbar">
+                {report.failed.map((failure, idx) => (
+                  <li key={idx} className="font-mono bg-dark-bg border border-dark-border rounded px-2 py-1.5">
+                    <div className="text-red-400">{failure.message}</div>
+                    <div className="text-gray-500 truncate">{failure.statement}</div>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-[220px_1fr] gap-4">
+            <ul className="space-y-1 max-h-96 overflow-y-auto custom-scrollbar">
+              {tables.map(item => (
+                <li key={item.name}>
+                  <button
+                    onClick={() => openTable(item.name)}
+                    className={clsx(
+                      "w-full flex items-center gap-2 px-3 py-1.5 rounded-md text-sm transition-colors",
+                      item.name === selected ? 'bg-brand-500/15 text-brand-300' : 'text-gray-300 hover:bg-[#21262d]'
+                    )}
+                  >
+                    <Table2 className="w-3.5 h-3.5 shrink-0" />
+                    <span className="font-mono truncate">{item.name}</span>
+                    <span className="ml-auto text-xs text-gray-500">{item.rowCount}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="min-w-0">
+              {table && browse && (
+                <>
+                  <div className="flex items-center gap-2 mb-2 text-xs text-gray-400">
+                    <span className="font-mono text-gray-200">{table.name}</span>
+                    {filter && (
+                      <span className="flex items-center gap-1 px-2 py-0.5 rounded bg-brand-500/10 border border-brand-500/20 text-brand-300 font-mono">
+                        {filter.column} = {formatCell(filter.value)}
+                        <button onClick={() => openTable(table.name)} title="Clear filter"><X className="w-3 h-3" /></button>
+                      </span>
+                    )}
+                    {pageCount && pageCount > 1 && (
+                      <span className="ml-auto flex items-center gap-1">
+                        <button onClick={() => setPage(p => p - 1)} disabled={page === 0} className="p-1 rounded hover:bg-[#21262d] disabled:opacity-30"><ChevronLeft className="w-3.5 h-3.5" /></button>
+                        {page + 1} / {pageCount}
+                        <button onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount} className="p-1 rounded hover:bg-[#21262d] disabled:opacity-30"><ChevronRight className="w-3.5 h-3.5" /></button>
+                      </span>
+                    )}
+                  </div>
+                  {'error' in browse
+                    ? <div className="text-xs text-red-400 font-mono">{browse.error}</div>
+                    : <ResultGrid columns={browse.columns} rows={browse.rows} renderCell={renderBrowseCell} />}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <textarea
+              value={sql}
+              onChange={event => setSql(event.target.value)}
+              onKeyDown={event => {
+                if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+                  event.preventDefault();
+                  handleRun();
+                }
+              }}
+              rows={4}
+              spellCheck={false}
+              placeholder="SELECT * FROM users;"
+              className="w-full bg-[#0d1117] border border-dark-border rounded-lg px-3 py-2 text-sm font-mono text-gray-200 placeholder-gray-600 focus:outline-none focus:border-emerald-500/50 resize-y"
+            />
+            <div className="flex items-center gap-3 mt-2">
+              <button
+                onClick={handleRun}
+                disabled={!sql.trim()}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-semibold bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Play className="w-3.5 h-3.5" />
+                Run
+              </button>
+              <span className="text-xs text-gray-500">Ctrl+Enter</span>
+              {result && (
+                <span className="ml-auto text-xs text-gray-500">
+                  {result.sets.length === 0 ? `${result.rowsModified} row${result.rowsModified === 1 ? '' : 's'} changed` : `${result.sets[result.sets.length - 1].rows.length} rows`} in {result.durationMs}ms
+                </span>
+              )}
+            </div>
+            {queryError && <div className="mt-2 px-3 py-2 bg-red-500/10 border border-red-500/20 rounded-lg text-xs font-mono text-red-300">{queryError}</div>}
+            {result && result.sets.length > 0 && (
+              <div className="mt-3">
+                <ResultGrid columns={result.sets[result.sets.length - 1].columns} rows={result.sets[result.sets.length - 1].rows} />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
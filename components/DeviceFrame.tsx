@@ -0,0 +1,91 @@
+import React from 'react';
+
+export type DeviceKind = 'phone' | 'tablet' | 'laptop' | 'desktop' | 'bare';
+
+export interface DevicePreset {
+  id: string;
+  label: string;
+  kind: DeviceKind;
+  // CSS pixels in portrait (phones, tablets) or landscape (laptops, desktops) orientation
+  width: number;
+  height: number;
+}
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'iphone-15', label: 'iPhone 15', kind: 'phone', width: 393, height: 852 },
+  { id: 'pixel-8', label: 'Pixel 8', kind: 'phone', width: 412, height: 915 },
+  { id: 'ipad-mini', label: 'iPad mini', kind: 'tablet', width: 744, height: 1133 },
+  { id: 'ipad-pro', label: 'iPad Pro 11"', kind: 'tablet', width: 834, height: 1194 },
+  { id: 'laptop', label: 'Laptop', kind: 'laptop', width: 1280, height: 800 },
+  { id: 'desktop', label: 'Desktop', kind: 'desktop', width: 1920, height: 1080 },
+];
+
+// Bezel thickness around the screen, plus the laptop base / monitor stand below it
+const BEZELS: Record<DeviceKind, { side: number; top: number; bottom: number; base: number }> = {
+  phone: { side: 12, top: 12, bottom: 12, base: 0 },
+  tablet: { side: 16, top: 16, bottom: 16, base: 0 },
+  laptop: { side: 12, top: 14, bottom: 14, base: 14 },
+  desktop: { side: 10, top: 10, bottom: 22, base: 34 },
+  bare: { side: 1, top: 1, bottom: 1, base: 0 },
+};
+
+// Outer size of a framed screen at scale 1, used to fit frames into the available space
+export const frameSize = (kind: DeviceKind, width: number, height: number) => {
+  const bezel = BEZELS[kind];
+  return {
+    width: width + bezel.side * 2 + (kind === 'laptop' ? 80 : 0),
+    height: height + bezel.top + bezel.bottom + bezel.base,
+  };
+};
+
+interface DeviceFrameProps {
+  kind: DeviceKind;
+  width: number;
+  height: number;
+  scale: number;
+  children: React.ReactNode;
+}
+
+/**
+ * Draws device chrome around a screen of exactly `width` x `height` CSS pixels and scales the
+ * whole thing. The screen is laid out at full size and transformed, so media queries inside the
+ * preview see the device width rather than the scaled one.
+ */
+export const DeviceFrame: React.FC<DeviceFrameProps> = ({ kind, width, height, scale, children }) => {
+  const bezel = BEZELS[kind];
+  const outer = frameSize(kind, width, height);
+  const bodyWidth = width + bezel.side * 2;
+  const radius = kind === 'phone' ? 44 : kind === 'tablet' ? 28 : kind === 'bare' ? 0 : 12;
+
+  return (
+    <div className="shrink-0" style={{ width: outer.width * scale, height: outer.height * scale }}>
+      <div className="origin-top-left flex flex-col items-center" style={{ width: outer.width, height: outer.height, transform: `scale(${scale})` }}>
+        <div
+          className={kind === 'bare' ? 'bg-dark-border' : 'bg-[#05060a] ring-1 ring-gray-700 shadow-2xl'}
+          style={{
+            width: bodyWidth,
+            padding: `${bezel.top}px ${bezel.side}px ${bezel.bottom}px`,
+            borderRadius: kind === 'laptop' || kind === 'desktop' ? `${radius}px ${radius}px 0 0` : radius,
+            position: 'relative',
+          }}
+        >
+          {kind === 'phone' && <div className="absolute left-1/2 -translate-x-1/2 top-[18px] w-24 h-6 rounded-full bg-black z-10" />}
+          <div className="bg-white overflow-hidden" style={{ width, height, borderRadius: kind === 'phone' ? 34 : kind === 'tablet' ? 12 : 0 }}>
+            {children}
+          </div>
+        </div>
+        {kind === 'laptop' && (
+          <div className="h-[14px] rounded-b-xl bg-gradient-to-b from-gray-500 to-gray-700" style={{ width: outer.width }}>
+            <div className="mx-auto w-24 h-1.5 rounded-b-md bg-gray-800" />
+          </div>
+        )}
+        {kind === 'desktop' && (
+          <>
+            <div className="w-20 h-6 bg-gradient-to-b from-gray-700 to-gray-600" />
+            <div className="w-48 h-2.5 rounded-t-md bg-gray-600" />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { ChevronDown, Download, FileJson, GitBranch, Loader2 } from 'lucide-react';
+import { EXPORT_LAYOUTS, ExportLayout } from '../services/projectExport';
+
+export interface ExportOptions {
+  layout: ExportLayout;
+  git: boolean;
+}
+
+interface ExportMenuProps {
+  isExporting: boolean;
+  onExportArchive: (options: ExportOptions) => void;
+  onExportManifest: () => void;
+}
+
+const OPTIONS_KEY = 'devarchitect.exportOptions';
+const DEFAULT_OPTIONS: ExportOptions = { layout: 'monorepo', git: true };
+
+const loadOptions = (): ExportOptions => {
+  try {
+    return { ...DEFAULT_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_OPTIONS;
+  }
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ isExporting, onExportArchive, onExportManifest }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>(loadOptions);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const update = (patch: Partial<ExportOptions>) => {
+    const next = { ...options, ...patch };
+    setOptions(next);
+    try {
+      localStorage.setItem(OPTIONS_KEY, JSON.stringify(next));
+    } catch {
+      // Storage may be disabled; the choice still applies to this session
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative flex flex-1 md:flex-none">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className="flex flex-1 md:flex-none justify-center items-center gap-2 px-5 py-2.5 bg-white text-dark-bg font-bold rounded-lg hover:bg-gray-100 transition-all shadow-lg shadow-white/5 active:scale-95 disabled:opacity-70 disabled:cursor-not-allowed whitespace-nowrap"
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        {isExporting ? 'Zipping...' : 'Export Project'}
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-dark-surface border border-dark-border rounded-xl shadow-2xl z-50 p-3 animate-fade-in">
+          <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider px-1 mb-2">Layout</div>
+          <div className="space-y-1">
+            {EXPORT_LAYOUTS.map(({ layout, label, description }) => (
+              <label
+                key={layout}
+                className={clsx(
+                  "flex items-start gap-2.5 px-2.5 py-2 rounded-lg cursor-pointer border transition-colors",
+                  options.layout === layout ? 'border-brand-500/30 bg-brand-500/10' : 'border-transparent hover:bg-[#21262d]'
+                )}
+              >
+                <input
+                  type="radio"
+                  name="export-layout"
+                  checked={options.layout === layout}
+                  onChange={() => update({ layout })}
+                  className="mt-0.5 accent-brand-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-200">{label}</span>
+                  <span className="block text-xs text-gray-500">{description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2.5 px-2.5 py-2 mt-2 rounded-lg cursor-pointer hover:bg-[#21262d]">
+            <input type="checkbox" checked={options.git} onChange={event => update({ git: event.target.checked })} className="accent-brand-500" />
+            <GitBranch className="w-4 h-4 text-gray-400" />
+            <span className="text-sm text-gray-200">Initialize git with a first commit</span>
+          </label>
+
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onExportArchive(options);
+            }}
+            className="w-full mt-2 flex items-center justify-center gap-2 px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" /> Download .zip
+          </button>
+
+          <div className="border-t border-dark-border my-3" />
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onExportManifest();
+            }}
+            className="w-full flex items-center gap-2.5 px-2.5 py-2 rounded-lg text-left hover:bg-[#21262d] transition-colors"
+          >
+            <FileJson className="w-4 h-4 text-gray-400 shrink-0" />
+            <span>
+              <span className="block text-sm font-medium text-gray-200">Project manifest (.json)</span>
+              <span className="block text-xs text-gray-500">Blueprint, code and history, to import elsewhere</span>
+            </span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
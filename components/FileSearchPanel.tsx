@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { CaseSensitive, ChevronDown, ChevronRight, Regex, Replace, WholeWord } from 'lucide-react';
+import { clsx } from 'clsx';
+import { FileEntry } from '../services/fileProtocol';
+import { MAX_SEARCH_MATCHES, SearchOptions, buildSearchPattern, replaceInFiles, searchFiles } from '../services/codeSearch';
+
+interface FileSearchPanelProps {
+  files: FileEntry[];
+  onOpenMatch: (name: string, line: number) => void;
+  // Replacing is only offered when the files are editable
+  onReplace?: (changes: FileEntry[]) => void;
+}
+
+export const FileSearchPanel: React.FC<FileSearchPanelProps> = ({ files, onOpenMatch, onReplace }) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<SearchOptions>({ caseSensitive: false, regex: false, wholeWord: false });
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+
+  const results = useMemo(() => searchFiles(files, query, options), [files, query, options]);
+  const matchCount = results.reduce((sum, result) => sum + result.matches.length, 0);
+  const invalid = Boolean(query) && !buildSearchPattern(query, options);
+
+  const toggleOption = (key: keyof SearchOptions) => setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+
+  const handleReplaceAll = () => {
+    if (!onReplace || matchCount === 0) return;
+    const changes = replaceInFiles(files, query, replacement, options);
+    if (changes.length > 0) onReplace(changes);
+  };
+
+  const optionButton = (key: keyof SearchOptions, Icon: typeof Regex, title: string) => (
+    <button
+      type="button"
+      onClick={() => toggleOption(key)}
+      className={clsx(
+        "p-0.5 rounded transition-colors",
+        options[key] ? "bg-brand-500/20 text-brand-400" : "text-gray-500 hover:text-gray-200"
+      )}
+      title={title}
+    >
+      <Icon className="w-3.5 h-3.5" />
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="p-2 space-y-1.5 border-b border-dark-border">
+        <div className={clsx(
+          "flex items-center gap-1 bg-dark-bg border rounded-md pr-1",
+          invalid ? "border-red-500/60" : "border-dark-border focus-within:border-brand-500/50"
+        )}>
+          <input
+            autoFocus
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder="Search"
+            className="flex-1 min-w-0 bg-transparent px-2 py-1 text-xs text-gray-200 placeholder-gray-600 focus:outline-none font-mono"
+          />
+          {optionButton('caseSensitive', CaseSensitive, 'Match case')}
+          {optionButton('wholeWord', WholeWord, 'Match whole word')}
+          {optionButton('regex', Regex, 'Use regular expression')}
+        </div>
+        {onReplace && (
+          <div className="flex items-center gap-1">
+            <input
+              value={replacement}
+              onChange={event => setReplacement(event.target.value)}
+              onKeyDown={event => event.key === 'Enter' && handleReplaceAll()}
+              placeholder="Replace"
+              className="flex-1 min-w-0 bg-dark-bg border border-dark-border rounded-md px-2 py-1 text-xs text-gray-200 placeholder-gray-600 focus:outline-none focus:border-brand-500/50 font-mono"
+            />
+            <button
+              type="button"
+              onClick={handleReplaceAll}
+              disabled={matchCount === 0}
+              className="p-1 text-gray-500 hover:text-brand-400 disabled:opacity-40 disabled:hover:text-gray-500 transition-colors"
+              title="Replace all"
+            >
+              <Replace className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+        {query && !invalid && (
+          <div className="text-[11px] text-gray-500 px-0.5">
+            {matchCount === 0
+              ? 'No results'
+              : `${matchCount >= MAX_SEARCH_MATCHES ? `${MAX_SEARCH_MATCHES}+` : matchCount} result${matchCount === 1 ? '' : 's'} in ${results.length} file${results.length === 1 ? '' : 's'}`}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1 custom-scrollbar">
+        {results.map(result => {
+          const isCollapsed = collapsed.includes(result.name);
+          return (
+            <div key={result.name}>
+              <button
+                onClick={() => setCollapsed(prev => isCollapsed ? prev.filter(name => name !== result.name) : [...prev, result.name])}
+                className="w-full flex items-center gap-1 px-1.5 py-1 rounded text-xs text-gray-300 hover:bg-[#21262d] font-mono text-left"
+              >
+                {isCollapsed ? <ChevronRight className="w-3 h-3 shrink-0" /> : <ChevronDown className="w-3 h-3 shrink-0" />}
+                <span className="truncate flex-1">{result.name}</span>
+                <span className="text-[10px] text-gray-500 bg-[#21262d] rounded-full px-1.5">{result.matches.length}</span>
+              </button>
+              {!isCollapsed && result.matches.map(match => (
+                <button
+                  key={`${match.line}:${match.column}`}
+                  onClick={() => onOpenMatch(result.name, match.line)}
+                  className="w-full flex items-baseline gap-2 pl-6 pr-1.5 py-0.5 rounded text-[11px] text-gray-400 hover:bg-[#21262d] hover:text-gray-200 font-mono text-left"
+                  title={`${result.name}:${match.line}:${match.column}`}
+                >
+                  <span className="text-gray-600 shrink-0">{match.line}</span>
+                  <span className="truncate whitespace-pre">
+                    {match.preview.slice(0, match.previewStart)}
+                    <span className="bg-amber-500/25 text-amber-200 rounded-sm">{match.preview.slice(match.previewStart, match.previewStart + match.length)}</span>
+                    {match.preview.slice(match.previewStart + match.length)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
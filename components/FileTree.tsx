@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Container, Database, File, FileCode, FileCog, FileImage, FileJson, FileLock, FileTerminal, FileText, Folder, FolderOpen, Globe, KeyRound, Palette } from 'lucide-react';
+import { clsx } from 'clsx';
+import { ParsedFile } from '../types';
+
+interface FileTreeProps {
+  files: ParsedFile[];
+  activeName: string | null;
+  onOpen: (file: ParsedFile) => void;
+  // Indicators shown after a file's name (generating, modified)
+  renderStatus?: (file: ParsedFile) => React.ReactNode;
+  // Buttons revealed when hovering a file row
+  renderActions?: (file: ParsedFile) => React.ReactNode;
+}
+
+interface FolderNode {
+  kind: 'folder';
+  name: string;
+  // Full path of the folder, used as its key
+  path: string;
+  children: TreeNode[];
+  fileCount: number;
+}
+
+interface FileNode {
+  kind: 'file';
+  name: string;
+  path: string;
+  file: ParsedFile;
+}
+
+type TreeNode = FolderNode | FileNode;
+
+interface TreeRow {
+  node: TreeNode;
+  depth: number;
+  parent: string | null;
+}
+
+const sortNodes = (nodes: TreeNode[]) => {
+  nodes.sort((a, b) => a.kind === b.kind ? a.name.localeCompare(b.name) : a.kind === 'folder' ? -1 : 1);
+  nodes.forEach(node => node.kind === 'folder' && sortNodes(node.children));
+};
+
+const buildTree = (files: ParsedFile[]): TreeNode[] => {
+  const root: FolderNode = { kind: 'folder', name: '', path: '', children: [], fileCount: 0 };
+  files.forEach(file => {
+    // "./src/App.tsx" and "src/App.tsx" belong in the same place
+    const segments = file.path.filter(segment => segment && segment !== '.');
+    let folder = root;
+    folder.fileCount++;
+    segments.slice(0, -1).forEach(segment => {
+      const path = folder.path ? `${folder.path}/${segment}` : segment;
+      let child = folder.children.find((node): node is FolderNode => node.kind === 'folder' && node.name === segment);
+      if (!child) {
+        child = { kind: 'folder', name: segment, path, children: [], fileCount: 0 };
+        folder.children.push(child);
+      }
+      child.fileCount++;
+      folder = child;
+    });
+    folder.children.push({ kind: 'file', name: segments[segments.length - 1] || file.name, path: file.name, file });
+  });
+  sortNodes(root.children);
+  return root.children;
+};
+
+// Rows in display order, skipping the contents of collapsed folders
+const visibleRows = (nodes: TreeNode[], collapsed: Set<string>, depth = 0, parent: string | null = null): TreeRow[] =>
+  nodes.flatMap(node => [
+    { node, depth, parent },
+    ...(node.kind === 'folder' && !collapsed.has(node.path) ? visibleRows(node.children, collapsed, depth + 1, node.path) : []),
+  ]);
+
+const rowKey = (node: TreeNode) => `${node.kind}:${node.path}`;
+
+export const FileTree: React.FC<FileTreeProps> = ({ files, activeName, onOpen, renderStatus, renderActions }) => {
+  const tree = useMemo(() => buildTree(files), [files]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  // Row with keyboard focus; follows the active file until the keyboard moves it
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  const treeRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(() => visibleRows(tree, collapsed), [tree, collapsed]);
+
+  // Files opened elsewhere (quick open, search, preview errors) are revealed by expanding their folders
+  useEffect(() => {
+    if (!activeName) return;
+    setFocusedKey(`file:${activeName}`);
+    const segments = activeName.split('/').filter(segment => segment && segment !== '.');
+    setCollapsed(prev => {
+      const ancestors = segments.slice(0, -1).map((_, idx) => segments.slice(0, idx + 1).join('/'));
+      if (!ancestors.some(path => prev.has(path))) return prev;
+      const next = new Set(prev);
+      ancestors.forEach(path => next.delete(path));
+      return next;
+    });
+  }, [activeName]);
+
+  useEffect(() => {
+    if (!focusedKey) return;
+    treeRef.current?.querySelector(`[data-key="${CSS.escape(focusedKey)}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [focusedKey]);
+
+  const toggleFolder = (path: string, expand?: boolean) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (expand ?? next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (rows.length === 0) return;
+    const index = Math.max(0, rows.findIndex(row => rowKey(row.node) === focusedKey));
+    const row = rows[index];
+    const focus = (target: TreeRow | undefined) => target && setFocusedKey(rowKey(target.node));
+
+    switch (event.key) {
+      case 'ArrowDown':
+        focus(rows[Math.min(index + 1, rows.length - 1)]);
+        break;
+      case 'ArrowUp':
+        focus(rows[Math.max(index - 1, 0)]);
+        break;
+      case 'Home':
+        focus(rows[0]);
+        break;
+      case 'End':
+        focus(rows[rows.length - 1]);
+        break;
+      case 'ArrowRight':
+        if (row.node.kind !== 'folder') return;
+        if (collapsed.has(row.node.path)) toggleFolder(row.node.path, true);
+        else focus(rows[index + 1]);
+        break;
+      case 'ArrowLeft':
+        if (row.node.kind === 'folder' && !collapsed.has(row.node.path)) toggleFolder(row.node.path, false);
+        else focus(rows.find(candidate => candidate.node.kind === 'folder' && candidate.node.path === row.parent));
+        break;
+      case 'Enter':
+      case ' ':
+        if (row.node.kind === 'folder') toggleFolder(row.node.path);
+        else onOpen(row.node.file);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div
+      ref={treeRef}
+      role="tree"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="space-y-0.5 focus:outline-none"
+    >
+      {rows.map(({ node, depth }) => {
+        const key = rowKey(node);
+        const isFocused = key === focusedKey;
+        const indent = { paddingLeft: 8 + depth * 12 };
+
+        if (node.kind === 'folder') {
+          const isOpen = !collapsed.has(node.path);
+          return (
+            <button
+              key={key}
+              data-key={key}
+              role="treeitem"
+              aria-expanded={isOpen}
+              aria-level={depth + 1}
+              tabIndex={-1}
+              onClick={() => {
+                setFocusedKey(key);
+                toggleFolder(node.path);
+              }}
+              style={indent}
+              className={clsx(
+                "w-full flex items-center gap-1.5 pr-3 py-1 rounded-md text-sm text-left font-mono text-gray-400 hover:bg-[#21262d] hover:text-gray-200 transition-colors",
+                isFocused && "ring-1 ring-inset ring-brand-500/40"
+              )}
+              title={node.path}
+            >
+              {isOpen ? <ChevronDown className="w-3 h-3 shrink-0 text-gray-500" /> : <ChevronRight className="w-3 h-3 shrink-0 text-gray-500" />}
+              {isOpen ? <FolderOpen className="w-3.5 h-3.5 shrink-0 text-brand-400/70" /> : <Folder className="w-3.5 h-3.5 shrink-0 text-brand-400/70" />}
+              <span className="truncate flex-1">{node.name}</span>
+              <span className="text-[10px] text-gray-500 bg-[#21262d] rounded-full px-1.5">{node.fileCount}</span>
+            </button>
+          );
+        }
+
+        const isActive = node.path === activeName;
+        const actions = renderActions?.(node.file);
+        return (
+          <div key={key} className="relative group">
+            <button
+              data-key={key}
+              role="treeitem"
+              aria-level={depth + 1}
+              aria-selected={isActive}
+              tabIndex={-1}
+              onClick={() => {
+                setFocusedKey(key);
+                onOpen(node.file);
+              }}
+              // Files line up with the names of sibling folders, past their chevron
+              style={{ paddingLeft: indent.paddingLeft + 18 }}
+              className={clsx(
+                "w-full flex items-center gap-2 pr-3 py-1 rounded-md text-sm transition-colors text-left font-mono",
+                isActive ? "bg-brand-500/10 text-brand-400" : "text-gray-400 hover:bg-[#21262d] hover:text-gray-200",
+                isFocused && "ring-1 ring-inset ring-brand-500/40"
+              )}
+              title={node.path}
+            >
+              <div className="shrink-0">{getFileIcon(node.path)}</div>
+              <span className="truncate flex-1">{node.name}</span>
+              {renderStatus?.(node.file)}
+            </button>
+            {actions && (
+              <div className="absolute right-1 top-1/2 -translate-y-1/2 hidden group-hover:flex items-center gap-0.5 bg-[#21262d] rounded">
+                {actions}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export const getFileIcon = (filename: string) => {
+  const base = filename.split('/').pop()!.toLowerCase();
+  const extension = base.includes('.') ? base.split('.').pop()! : '';
+  if (base === 'dockerfile' || base.startsWith('docker-compose') || base === '.dockerignore') return <Container className="w-3.5 h-3.5 text-sky-400" />;
+  if (base.startsWith('.env')) return <KeyRound className="w-3.5 h-3.5 text-amber-400" />;
+  if (base.endsWith('.lock') || base === 'package-lock.json') return <FileLock className="w-3.5 h-3.5 text-gray-500" />;
+  switch (extension) {
+    case 'json': return <FileJson className="w-3.5 h-3.5 text-yellow-500" />;
+    case 'ts': case 'tsx': return <FileCode className="w-3.5 h-3.5 text-blue-400" />;
+    case 'js': case 'jsx': case 'mjs': case 'cjs': return <FileCode className="w-3.5 h-3.5 text-yellow-400" />;
+    case 'py': case 'go': case 'rs': case 'java': case 'rb': case 'php': return <FileCode className="w-3.5 h-3.5 text-emerald-400" />;
+    case 'css': case 'scss': return <Palette className="w-3.5 h-3.5 text-pink-400" />;
+    case 'html': return <Globe className="w-3.5 h-3.5 text-orange-400" />;
+    case 'sql': case 'prisma': return <Database className="w-3.5 h-3.5 text-teal-400" />;
+    case 'yml': case 'yaml': case 'toml': case 'ini': return <FileCog className="w-3.5 h-3.5 text-purple-400" />;
+    case 'sh': case 'bash': return <FileTerminal className="w-3.5 h-3.5 text-green-400" />;
+    case 'png': case 'jpg': case 'jpeg': case 'gif': case 'svg': case 'ico': case 'webp': return <FileImage className="w-3.5 h-3.5 text-fuchsia-400" />;
+    case 'md': case 'mdx': case 'txt': return <FileText className="w-3.5 h-3.5 text-gray-400" />;
+    default: return <File className="w-3.5 h-3.5 text-gray-500" />;
+  }
+};
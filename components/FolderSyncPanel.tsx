@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { ChevronDown, ChevronRight, FolderSync, HardDrive, Loader2, RefreshCw, Server, X } from 'lucide-react';
+import { FolderSyncBinding } from '../types';
+import { FileEntry } from '../services/fileProtocol';
+import { diffFile } from '../services/codeDiff';
+import { loadFolderSync, saveFolderSync } from '../services/projectStore';
+import { SyncAction, SyncPlanEntry, applySync, companionFolder, pickDirectory, planSync, supportsDirectoryPicker } from '../services/folderSync';
+import { DiffView } from './VersionHistoryPanel';
+
+interface FolderSyncPanelProps {
+  projectId: string;
+  files: FileEntry[];
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<SyncAction, { label: string; className: string }> = {
+  create: { label: 'Create', className: 'text-green-300 bg-green-500/10 border-green-500/20' },
+  overwrite: { label: 'Overwrite', className: 'text-blue-300 bg-blue-500/10 border-blue-500/20' },
+  conflict: { label: 'Conflict', className: 'text-amber-300 bg-amber-500/10 border-amber-500/20' },
+  unchanged: { label: 'Unchanged', className: 'text-gray-400 bg-dark-bg border-dark-border' },
+};
+
+const ACTION_ORDER: SyncAction[] = ['conflict', 'create', 'overwrite', 'unchanged'];
+
+export const FolderSyncPanel: React.FC<FolderSyncPanelProps> = ({ projectId, files, onClose }) => {
+  const canPick = supportsDirectoryPicker();
+  const [binding, setBinding] = useState<FolderSyncBinding | null>(null);
+  const [rootInput, setRootInput] = useState('');
+  const [plan, setPlan] = useState<SyncPlanEntry[] | null>(null);
+  const [overwrite, setOverwrite] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'planning' | 'writing' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadFolderSync(projectId).then(saved => {
+      if (cancelled || !saved) return;
+      setBinding(saved);
+      if (saved.root) setRootInput(saved.root);
+    }).catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  // A new file list makes the last dry run stale
+  useEffect(() => {
+    setPlan(null);
+  }, [files]);
+
+  const runPlan = async (target: FolderSyncBinding) => {
+    setBusy('planning');
+    setError(null);
+    setNotice(null);
+    try {
+      setPlan(await planSync(target, files));
+      setOverwrite(new Set());
+      setExpanded(null);
+    } catch (err) {
+      setPlan(null);
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const bind = async (next: FolderSyncBinding) => {
+    setBinding(next);
+    await saveFolderSync(next).catch(() => undefined);
+    await runPlan(next);
+  };
+
+  const handlePick = async () => {
+    try {
+      await bind(await pickDirectory(projectId, binding));
+    } catch (err) {
+      if ((err as DOMException).name !== 'AbortError') setError((err as Error).message);
+    }
+  };
+
+  const handleCompanion = () => {
+    const root = rootInput.trim();
+    if (root) bind(companionFolder(projectId, root, binding));
+  };
+
+  const handleWrite = async () => {
+    if (!binding || !plan) return;
+    setBusy('writing');
+    setError(null);
+    try {
+      const { binding: synced, written } = await applySync(binding, plan, overwrite);
+      setBinding(synced);
+      await saveFolderSync(synced).catch(() => undefined);
+      setPlan(null);
+      setNotice(`Wrote ${written} file${written === 1 ? '' : 's'} to ${synced.label}`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleOverwrite = (name: string) => setOverwrite(prev => {
+    const next = new Set(prev);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    return next;
+  });
+
+  const counts = useMemo(() => {
+    const result: Record<SyncAction, number> = { create: 0, overwrite: 0, conflict: 0, unchanged: 0 };
+    plan?.forEach(entry => result[entry.action]++);
+    return result;
+  }, [plan]);
+  const writeCount = counts.create + counts.overwrite + overwrite.size;
+  const sorted = useMemo(
+    () => (plan ? [...plan].sort((a, b) => ACTION_ORDER.indexOf(a.action) - ACTION_ORDER.indexOf(b.action) || a.name.localeCompare(b.name)) : []),
+    [plan]
+  );
+
+  return (
+    <div className="mb-8 bg-dark-surface border border-dark-border rounded-xl p-5 animate-slide-up">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+          <FolderSync className="w-4 h-4 text-brand-400" /> Sync to Folder
+        </h3>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-white transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        {canPick && (
+          <button
+            onClick={handlePick}
+            disabled={busy !== null}
+            className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold border border-dark-border text-gray-200 hover:border-brand-500/40 hover:text-white transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            <HardDrive className="w-4 h-4" />
+            {binding?.kind === 'directory' ? 'Choose Another Folder' : 'Choose Folder'}
+          </button>
+        )}
+        <form
+          onSubmit={event => {
+            event.preventDefault();
+            handleCompanion();
+          }}
+          className="flex flex-1 gap-2"
+        >
+          <input
+            value={rootInput}
+            onChange={event => setRootInput(event.target.value)}
+            placeholder={canPick ? 'Or an absolute path, written by the companion server' : '/absolute/path/to/project (companion server)'}
+            spellCheck={false}
+            className="flex-1 bg-dark-bg border border-dark-border rounded-lg px-3 py-2 text-sm font-mono text-gray-200 placeholder-gray-600 focus:outline-none focus:border-brand-500/50"
+          />
+          <button
+            type="submit"
+            disabled={busy !== null || !rootInput.trim()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold border border-dark-border text-gray-200 hover:border-brand-500/40 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <Server className="w-4 h-4" /> Use Path
+          </button>
+        </form>
+      </div>
+      {!canPick && <p className="mt-1.5 text-xs text-gray-500">This browser cannot write to folders directly; start the companion server with <code className="text-gray-300">npm run companion</code>.</p>}
+
+      {binding && (
+        <div className="mt-4 flex items-center gap-3 text-xs text-gray-400">
+          <span>
+            Target: <span className="font-mono text-gray-200">{binding.label}</span>
+            {binding.syncedAt && <> · last synced {new Date(binding.syncedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</>}
+          </span>
+          <button
+            onClick={() => runPlan(binding)}
+            disabled={busy !== null}
+            className="ml-auto flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-dark-border text-gray-300 hover:text-white disabled:opacity-50"
+          >
+            <RefreshCw className={clsx("w-3.5 h-3.5", busy === 'planning' && "animate-spin")} /> Dry Run
+          </button>
+        </div>
+      )}
+
+      {error && <div className="mt-3 px-3 py-2 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-300">{error}</div>}
+      {notice && <div className="mt-3 px-3 py-2 bg-green-500/10 border border-green-500/20 rounded-lg text-sm text-green-300">{notice}</div>}
+
+      {plan && (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            {ACTION_ORDER.filter(action => counts[action] > 0).map(action => (
+              <span key={action} className={clsx("text-xs px-2 py-0.5 rounded border", ACTION_STYLES[action].className)}>
+                {counts[action]} {ACTION_STYLES[action].label.toLowerCase()}
+              </span>
+            ))}
+            {counts.conflict > 0 && <span className="text-xs text-gray-500">Conflicting files keep the version on disk unless you choose otherwise.</span>}
+          </div>
+
+          <ul className="border border-dark-border rounded-lg divide-y divide-dark-border max-h-96 overflow-y-auto custom-scrollbar">
+            {sorted.map(entry => {
+              const isConflict = entry.action === 'conflict';
+              const isOpen = expanded === entry.name;
+              return (
+                <li key={entry.name}>
+                  <div className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                    {isConflict ? (
+                      <button onClick={() => setExpanded(isOpen ? null : entry.name)} className="text-gray-500 hover:text-white">
+                        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                      </button>
+                    ) : <span className="w-3.5" />}
+                    <span className={clsx("font-mono truncate", entry.action === 'unchanged' ? 'text-gray-500' : 'text-gray-200')}>{entry.name}</span>
+                    {isConflict && (
+                      <span className="ml-auto flex items-center bg-dark-bg border border-dark-border rounded-md p-0.5 shrink-0">
+                        {[false, true].map(useGenerated => (
+                          <button
+                            key={String(useGenerated)}
+                            onClick={() => overwrite.has(entry.name) !== useGenerated && toggleOverwrite(entry.name)}
+                            className={clsx(
+                              "px-2 py-0.5 rounded text-[11px] font-medium transition-colors",
+                              overwrite.has(entry.name) === useGenerated ? 'bg-brand-500/15 text-brand-300' : 'text-gray-500 hover:text-white'
+                            )}
+                          >
+                            {useGenerated ? 'Use generated' : 'Keep disk'}
+                          </button>
+                        ))}
+                      </span>
+                    )}
+                    <span className={clsx("text-[10px] px-1.5 py-0.5 rounded border shrink-0", !isConflict && "ml-auto", ACTION_STYLES[entry.action].className)}>
+                      {ACTION_STYLES[entry.action].label}
+                    </span>
+                  </div>
+                  {isOpen && entry.disk !== null && <DiffView diff={diffFile(entry.name, entry.disk, entry.content)} />}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex items-center justify-end gap-3 mt-3">
+            <span className="text-xs text-gray-500">Files only in the folder are left alone.</span>
+            <button
+              onClick={handleWrite}
+              disabled={busy !== null || writeCount === 0}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-brand-600 hover:bg-brand-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'writing' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderSync className="w-4 h-4" />}
+              Write {writeCount} File{writeCount === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
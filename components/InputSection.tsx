@@ -1,13 +1,25 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Loader2, Sparkles, Send } from 'lucide-react';
+import { ProviderConfig } from '../types';
+import { ProviderSettings } from './ProviderSettings';
 
 interface InputSectionProps {
   onSubmit: (requirements: string) => void;
   isLoading: boolean;
+  initialValue?: string;
+  provider: ProviderConfig;
+  onProviderChange: (config: ProviderConfig) => void;
+  autoGenerate: boolean;
+  onAutoGenerateChange: (enabled: boolean) => void;
 }
 
-export const InputSection: React.FC<InputSectionProps> = ({ onSubmit, isLoading }) => {
-  const [input, setInput] = useState('');
+export const InputSection: React.FC<InputSectionProps> = ({ onSubmit, isLoading, initialValue = '', provider, onProviderChange, autoGenerate, onAutoGenerateChange }) => {
+  const [input, setInput] = useState(initialValue);
+
+  // Reopening a saved project restores its requirements text
+  useEffect(() => {
+    setInput(initialValue);
+  }, [initialValue]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -70,6 +82,19 @@ export const InputSection: React.FC<InputSectionProps> = ({ onSubmit, isLoading
               )}
             </button>
           </div>
+
+          <ProviderSettings value={provider} onChange={onProviderChange} disabled={isLoading} />
+
+          <label className="mt-3 flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={autoGenerate}
+              disabled={isLoading}
+              onChange={(e) => onAutoGenerateChange(e.target.checked)}
+              className="accent-brand-500"
+            />
+            Generate code automatically once the blueprint is ready
+          </label>
         </form>
       </div>
     </div>
@@ -0,0 +1,459 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ParsedFile, PreviewErrorReport } from '../types';
+import { BundleError, PreviewBundler, toVirtualFiles } from '../services/preview/bundler';
+import { buildPreviewDocument, packageName } from '../services/preview/document';
+import { loadPreviewRuntime } from '../services/preview/runtime';
+import { PreviewLogLevel, readBridgeMessage, toRuntimeReport } from '../services/preview/bridge';
+import { createSourceMapper } from '../services/preview/sourceMap';
+import { readSetting, writeSetting } from '../services/projectStore';
+import { DEVICE_PRESETS, DeviceFrame, DeviceKind, frameSize } from './DeviceFrame';
+import { AlertCircle, Ban, ChevronDown, ChevronUp, Columns3, Globe, Loader2, RefreshCw, RotateCw, Terminal, Wand2, X } from 'lucide-react';
+
+interface LivePreviewProps {
+  files: ParsedFile[];
+  isStreaming?: boolean;
+  // Name of the file still being written; it is left out of the build until it closes
+  streamingFile?: string | null;
+  onOpenFile?: (name: string, line?: number) => void;
+  // Asks the model to fix an error; omitted where the module cannot be regenerated
+  onFixError?: (report: PreviewErrorReport) => void;
+  isFixing?: boolean;
+}
+
+type BuildState = 'idle' | 'building' | 'ready' | 'error';
+
+interface LogEntry {
+  id: number;
+  level: PreviewLogLevel;
+  text: string;
+  // Consecutive identical entries are collapsed like in devtools
+  count: number;
+  report?: PreviewErrorReport;
+}
+
+// Rebuilding on every streamed chunk would thrash the worker; wait for the output to settle a little
+const BUILD_DELAY_MS = 250;
+const STREAMING_BUILD_DELAY_MS = 800;
+const MAX_LOG_ENTRIES = 500;
+
+const VIEWPORT_KEY = 'devarchitect.previewViewport';
+
+interface ViewportSettings {
+  // 'responsive' fills the panel, 'custom' uses `custom`, anything else is a DEVICE_PRESETS id
+  device: string;
+  custom: { width: number; height: number };
+  rotated: boolean;
+  zoom: 'fit' | number;
+  // Renders COMPARE_DEVICES side by side instead of a single device
+  compare: boolean;
+}
+
+interface Screen {
+  id: string;
+  label: string;
+  kind: DeviceKind;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_VIEWPORT: ViewportSettings = { device: 'responsive', custom: { width: 1024, height: 768 }, rotated: false, zoom: 'fit', compare: false };
+const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1, 1.25, 1.5];
+const COMPARE_DEVICES = ['iphone-15', 'ipad-mini', 'laptop'];
+const STAGE_PADDING = 24;
+const SCREEN_GAP = 32;
+const SCREEN_LABEL_HEIGHT = 24;
+const MIN_CUSTOM_SIZE = 200;
+const MAX_CUSTOM_SIZE = 3840;
+
+const loadViewport = (): ViewportSettings => {
+  try {
+    return { ...DEFAULT_VIEWPORT, ...JSON.parse(readSetting(VIEWPORT_KEY) || '{}') };
+  } catch {
+    return DEFAULT_VIEWPORT;
+  }
+};
+
+const orient = (screen: Screen, rotated: boolean): Screen => (rotated ? { ...screen, width: screen.height, height: screen.width } : screen);
+
+const toScreens = (viewport: ViewportSettings): Screen[] => {
+  if (viewport.compare) {
+    return COMPARE_DEVICES.map(id => orient(DEVICE_PRESETS.find(preset => preset.id === id)!, viewport.rotated));
+  }
+  if (viewport.device === 'custom') {
+    const { width, height } = viewport.custom;
+    return [orient({ id: 'custom', label: 'Custom', kind: 'bare', width, height }, viewport.rotated)];
+  }
+  const preset = DEVICE_PRESETS.find(candidate => candidate.id === viewport.device);
+  return preset ? [orient(preset, viewport.rotated)] : [];
+};
+
+const LEVEL_STYLES: Record<PreviewLogLevel, string> = {
+  log: 'text-gray-300',
+  info: 'text-sky-300',
+  debug: 'text-gray-500',
+  warn: 'text-amber-300 bg-amber-500/5',
+  error: 'text-red-300 bg-red-500/5',
+};
+
+const locationOf = (report: PreviewErrorReport) => `${report.file}${report.line ? `:${report.line}:${report.column ?? 1}` : ''}`;
+
+export const LivePreview: React.FC<LivePreviewProps> = ({ files, isStreaming = false, streamingFile = null, onOpenFile, onFixError, isFixing = false }) => {
+  const [previewDoc, setPreviewDoc] = useState<string | null>(null);
+  const [state, setState] = useState<BuildState>('idle');
+  const [buildErrors, setBuildErrors] = useState<PreviewErrorReport[]>([]);
+  const [runtimeErrors, setRuntimeErrors] = useState<PreviewErrorReport[]>([]);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [consoleOpen, setConsoleOpen] = useState(false);
+  const [missing, setMissing] = useState<string[]>([]);
+  // Packages the offline runtime does not vendor; these still load from esm.sh
+  const [remotePackages, setRemotePackages] = useState<string[]>([]);
+  const [buildTime, setBuildTime] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [viewport, setViewport] = useState<ViewportSettings>(loadViewport);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+  const bundlerRef = useRef<PreviewBundler | null>(null);
+  const buildIdRef = useRef(0);
+  // In compare mode every frame runs the same document; only the first one feeds the console
+  const iframeRefs = useRef<Array<HTMLIFrameElement | null>>([]);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const consoleRef = useRef<HTMLDivElement>(null);
+  const logIdRef = useRef(0);
+  // Source map and files of the document currently in the iframe, for locating runtime errors
+  const loadedRef = useRef<{ mapper: ReturnType<typeof createSourceMapper>; files: Map<string, string> } | null>(null);
+
+  useEffect(() => {
+    const bundler = new PreviewBundler();
+    bundlerRef.current = bundler;
+    return () => {
+      bundlerRef.current = null;
+      bundler.dispose();
+    };
+  }, []);
+
+  const resetDiagnostics = () => {
+    setLogs([]);
+    setRuntimeErrors([]);
+    setShowOverlay(true);
+  };
+
+  useEffect(() => {
+    const completeFiles = files.filter(file => file.name !== streamingFile);
+    if (completeFiles.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      const bundler = bundlerRef.current;
+      if (!bundler) return;
+      const buildId = ++buildIdRef.current;
+      const started = performance.now();
+      setState('building');
+
+      bundler.update(completeFiles);
+      bundler.setAllowMissing(isStreaming);
+      try {
+        const [runtime, bundle] = await Promise.all([loadPreviewRuntime(), bundler.build()]);
+        if (buildId !== buildIdRef.current) return;
+        const virtualFiles = toVirtualFiles(completeFiles);
+        loadedRef.current = { mapper: createSourceMapper(bundle.sourceMap), files: virtualFiles };
+        resetDiagnostics();
+        setPreviewDoc(buildPreviewDocument(bundle, virtualFiles, runtime));
+        setMissing(bundle.missing);
+        setRemotePackages([...new Set(bundle.externals.filter(name => !runtime.modules.includes(name)).map(packageName))]);
+        setBuildErrors([]);
+        setBuildTime(Math.round(performance.now() - started));
+        setState('ready');
+      } catch (error) {
+        if (buildId !== buildIdRef.current) return;
+        // Keep showing the last good build underneath the error list
+        setBuildErrors(error instanceof BundleError
+          ? error.messages.map(({ text, ...location }) => ({ kind: 'build' as const, message: text, ...location }))
+          : [{ kind: 'build', message: error instanceof Error ? error.message : String(error) }]);
+        setShowOverlay(true);
+        setState('error');
+      }
+    }, isStreaming ? STREAMING_BUILD_DELAY_MS : BUILD_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [files, isStreaming, streamingFile]);
+
+  useEffect(() => {
+    const append = (level: PreviewLogLevel, text: string, report?: PreviewErrorReport) => {
+      setLogs(prev => {
+        const last = prev[prev.length - 1];
+        if (last && last.level === level && last.text === text) {
+          return [...prev.slice(0, -1), { ...last, count: last.count + 1 }];
+        }
+        return [...prev, { id: ++logIdRef.current, level, text, count: 1, report }].slice(-MAX_LOG_ENTRIES);
+      });
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      // The preview is sandboxed without same-origin, so its messages can only be matched by source window
+      const primary = iframeRefs.current[0];
+      if (!primary || event.source !== primary.contentWindow) return;
+      const message = readBridgeMessage(event.data);
+      if (!message) return;
+
+      if (message.type === 'clear') {
+        setLogs([]);
+      } else if (message.type === 'console') {
+        append(message.level, message.args.join(' '));
+      } else {
+        const loaded = loadedRef.current;
+        const report = loaded ? toRuntimeReport(message, loaded.mapper, loaded.files) : { kind: 'runtime' as const, message: message.message, stack: message.stack };
+        append('error', report.message, report);
+        setRuntimeErrors(prev => [...prev, report]);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    if (consoleOpen && consoleRef.current) consoleRef.current.scrollTop = consoleRef.current.scrollHeight;
+  }, [logs, consoleOpen]);
+
+  useEffect(() => {
+    writeSetting(VIEWPORT_KEY, JSON.stringify(viewport));
+  }, [viewport]);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, []);
+
+  const toolbarInput = "bg-dark-bg border border-dark-border rounded px-1.5 py-0.5 text-[11px] text-gray-300 focus:outline-none focus:border-brand-500/50";
+
+  const updateViewport = (patch: Partial<ViewportSettings>) => {
+    // Moving between the bare iframe and device frames remounts the preview, which logs everything again
+    if ((toScreens(viewport).length === 0) !== (toScreens({ ...viewport, ...patch }).length === 0)) resetDiagnostics();
+    setViewport(prev => ({ ...prev, ...patch }));
+  };
+
+  // Custom sizes apply on blur or Enter; clamping while typing would fight the keyboard
+  const customSizeInput = (dimension: 'width' | 'height') => ({
+    type: 'number',
+    min: MIN_CUSTOM_SIZE,
+    max: MAX_CUSTOM_SIZE,
+    defaultValue: viewport.custom[dimension],
+    className: `${toolbarInput} w-16`,
+    onBlur: (event: React.FocusEvent<HTMLInputElement>) => {
+      const value = event.target.valueAsNumber;
+      if (!Number.isFinite(value)) return;
+      const size = Math.min(MAX_CUSTOM_SIZE, Math.max(MIN_CUSTOM_SIZE, Math.round(value)));
+      setViewport(prev => ({ ...prev, custom: { ...prev.custom, [dimension]: size } }));
+    },
+    onKeyDown: (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'Enter') event.currentTarget.blur();
+    },
+  });
+
+  const screens = toScreens(viewport);
+  const frames = screens.map(screen => frameSize(screen.kind, screen.width, screen.height));
+  const fitScale = frames.length === 0 ? 1 : Math.min(
+    1,
+    (stageSize.width - STAGE_PADDING * 2 - SCREEN_GAP * (frames.length - 1)) / frames.reduce((sum, frame) => sum + frame.width, 0),
+    (stageSize.height - STAGE_PADDING * 2 - SCREEN_LABEL_HEIGHT) / Math.max(...frames.map(frame => frame.height)),
+  );
+  const scale = viewport.zoom === 'fit' ? Math.max(fitScale, 0.1) : viewport.zoom;
+
+  const renderFrame = (idx: number, title: string) => (
+    <iframe
+      key={`${reloadKey}-${idx}`}
+      ref={element => { iframeRefs.current[idx] = element; }}
+      srcDoc={previewDoc!}
+      className="w-full h-full border-none bg-white"
+      title={title}
+      sandbox="allow-scripts allow-modals allow-forms"
+    />
+  );
+
+  const handleReload = () => {
+    resetDiagnostics();
+    setReloadKey(key => key + 1);
+  };
+
+  const overlayErrors = buildErrors.length > 0 ? buildErrors : runtimeErrors.slice(0, 1);
+  const errorCount = logs.filter(entry => entry.level === 'error').reduce((sum, entry) => sum + entry.count, 0);
+  const warningCount = logs.filter(entry => entry.level === 'warn').reduce((sum, entry) => sum + entry.count, 0);
+
+  const renderLocation = (report: PreviewErrorReport) => report.file && (
+    onOpenFile ? (
+      <button onClick={() => onOpenFile(report.file!, report.line)} className="text-gray-500 hover:text-brand-400 underline decoration-dotted underline-offset-2 transition-colors">
+        {locationOf(report)}
+      </button>
+    ) : (
+      <span className="text-gray-500">{locationOf(report)}</span>
+    )
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col bg-white">
+      <div className="flex items-center justify-between gap-3 px-3 py-1.5 bg-[#161b22] border-b border-dark-border text-[11px] font-mono text-gray-400">
+        <div className="flex items-center gap-2 min-w-0">
+          {state === 'building' && <Loader2 className="w-3 h-3 animate-spin text-brand-400" />}
+          {state === 'error' && <AlertCircle className="w-3 h-3 text-red-400" />}
+          <span className="truncate">
+            {state === 'building' && 'Bundling…'}
+            {state === 'ready' && `Built in ${buildTime}ms`}
+            {state === 'error' && `Build failed (${buildErrors.length} error${buildErrors.length === 1 ? '' : 's'})`}
+            {state === 'idle' && 'Waiting for files…'}
+          </span>
+          {missing.length > 0 && isStreaming && (
+            <span className="text-amber-400/80 truncate" title={missing.join('\n')}>· waiting for {missing.length} file{missing.length === 1 ? '' : 's'}</span>
+          )}
+          {remotePackages.length > 0 && (
+            <span className="flex items-center gap-1 text-sky-400/80 truncate" title={`Not bundled for offline use, loaded from esm.sh:\n${remotePackages.join('\n')}`}>
+              <Globe className="w-3 h-3 shrink-0" /> {remotePackages.length} from network
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <select
+            value={viewport.device}
+            onChange={event => updateViewport({ device: event.target.value })}
+            disabled={viewport.compare}
+            className={`${toolbarInput} disabled:opacity-50`}
+            title="Viewport"
+          >
+            <option value="responsive">Responsive</option>
+            {DEVICE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label} ({preset.width}×{preset.height})</option>)}
+            <option value="custom">Custom</option>
+          </select>
+          {viewport.device === 'custom' && !viewport.compare && (
+            <span className="flex items-center gap-1">
+              <input key={`width-${viewport.custom.width}`} {...customSizeInput('width')} title="Width" />
+              ×
+              <input key={`height-${viewport.custom.height}`} {...customSizeInput('height')} title="Height" />
+            </span>
+          )}
+          {screens.length > 0 && (
+            <>
+              <button onClick={() => updateViewport({ rotated: !viewport.rotated })} className={`hover:text-white transition-colors ${viewport.rotated ? 'text-brand-400' : ''}`} title="Rotate">
+                <RotateCw className="w-3 h-3" />
+              </button>
+              <select
+                value={String(viewport.zoom)}
+                onChange={event => updateViewport({ zoom: event.target.value === 'fit' ? 'fit' : Number(event.target.value) })}
+                className={toolbarInput}
+                title="Zoom"
+              >
+                <option value="fit">Fit ({Math.round(scale * 100)}%)</option>
+                {ZOOM_LEVELS.map(level => <option key={level} value={level}>{level * 100}%</option>)}
+              </select>
+            </>
+          )}
+          <button
+            onClick={() => updateViewport({ compare: !viewport.compare })}
+            className={`hover:text-white transition-colors ${viewport.compare ? 'text-brand-400' : ''}`}
+            title="Compare phone, tablet and laptop side by side"
+          >
+            <Columns3 className="w-3 h-3" />
+          </button>
+          <button onClick={handleReload} className="flex items-center gap-1 hover:text-white transition-colors" title="Reload preview">
+            <RefreshCw className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={stageRef} className="flex-1 relative min-h-0">
+        {previewDoc && screens.length === 0 ? (
+          renderFrame(0, 'Live Preview')
+        ) : previewDoc ? (
+          <div className="absolute inset-0 overflow-auto custom-scrollbar bg-[#0b0d12]">
+            <div className="min-w-full min-h-full w-max flex items-center justify-center" style={{ padding: STAGE_PADDING, gap: SCREEN_GAP }}>
+              {screens.map((screen, idx) => (
+                <div key={idx} className="flex flex-col items-center">
+                  <div className="text-[11px] font-mono text-gray-500 truncate" style={{ height: SCREEN_LABEL_HEIGHT }}>
+                    {screen.label} · {screen.width}×{screen.height} · {Math.round(scale * 100)}%
+                  </div>
+                  <DeviceFrame kind={screen.kind} width={screen.width} height={screen.height} scale={scale}>
+                    {renderFrame(idx, `Live Preview (${screen.label})`)}
+                  </DeviceFrame>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : state !== 'error' ? (
+          <div className="flex flex-col items-center justify-center h-full text-gray-800">
+            <Loader2 className="w-8 h-8 animate-spin text-brand-500 mb-2" />
+            <span className="text-sm">Building Preview...</span>
+          </div>
+        ) : null}
+
+        {overlayErrors.length > 0 && showOverlay && (
+          <div className={`${previewDoc ? 'absolute inset-x-0 bottom-0 max-h-[60%]' : 'absolute inset-0'} overflow-auto bg-[#1a0f12]/95 border-t border-red-500/30 p-4 font-mono text-xs`}>
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-[10px] font-bold uppercase tracking-wider text-red-400/80">
+                {buildErrors.length > 0 ? 'Build error' : 'Uncaught runtime error'}
+                {buildErrors.length === 0 && runtimeErrors.length > 1 && <span className="text-gray-500 normal-case font-normal tracking-normal"> · {runtimeErrors.length - 1} more in console</span>}
+              </span>
+              {buildErrors.length === 0 && (
+                <button onClick={() => setShowOverlay(false)} className="text-gray-500 hover:text-white transition-colors" title="Dismiss">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            {overlayErrors.map((report, idx) => (
+              <div key={idx} className="mb-4 last:mb-0">
+                <div className="text-red-400 whitespace-pre-wrap">{report.message}</div>
+                <div className="mt-0.5">{renderLocation(report)}</div>
+                {report.lineText && <pre className="text-gray-300 mt-1 whitespace-pre-wrap">{report.lineText}</pre>}
+                {report.stack && (
+                  <details className="mt-1 text-gray-500">
+                    <summary className="cursor-pointer hover:text-gray-300">Stack trace</summary>
+                    <pre className="mt-1 whitespace-pre-wrap">{report.stack}</pre>
+                  </details>
+                )}
+                {onFixError && (
+                  <button
+                    onClick={() => onFixError(report)}
+                    disabled={isFixing || isStreaming}
+                    className="mt-2 flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-sans font-medium text-brand-300 bg-brand-500/10 border border-brand-500/30 hover:bg-brand-500/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isFixing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+                    {isFixing ? 'Fixing…' : 'Ask the model to fix this'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-[#0d1117] border-t border-dark-border font-mono text-[11px]">
+        <div className="flex items-center justify-between px-3 py-1 text-gray-400">
+          <button onClick={() => setConsoleOpen(open => !open)} className="flex items-center gap-2 hover:text-white transition-colors">
+            <Terminal className="w-3 h-3" />
+            <span>Console</span>
+            {errorCount > 0 && <span className="px-1.5 rounded bg-red-500/15 text-red-400">{errorCount}</span>}
+            {warningCount > 0 && <span className="px-1.5 rounded bg-amber-500/15 text-amber-400">{warningCount}</span>}
+            {consoleOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />}
+          </button>
+          {consoleOpen && (
+            <button onClick={() => setLogs([])} className="hover:text-white transition-colors" title="Clear console">
+              <Ban className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        {consoleOpen && (
+          <div ref={consoleRef} className="h-40 overflow-auto custom-scrollbar border-t border-dark-border">
+            {logs.length === 0 ? (
+              <div className="px-3 py-2 text-gray-600 italic">No console output</div>
+            ) : logs.map(entry => (
+              <div key={entry.id} className={`flex items-start gap-2 px-3 py-1 border-b border-dark-border/50 ${LEVEL_STYLES[entry.level]}`}>
+                {entry.count > 1 && <span className="shrink-0 px-1.5 rounded-full bg-gray-700 text-gray-200 text-[10px]">{entry.count}</span>}
+                <span className="flex-1 whitespace-pre-wrap break-words">{entry.text}</span>
+                {entry.report && <span className="shrink-0">{renderLocation(entry.report)}</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
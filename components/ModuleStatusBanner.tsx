@@ -0,0 +1,86 @@
+import React from 'react';
+import { AlertCircle, Clock, KeyRound, Play, RotateCcw, ShieldAlert, Square, WifiOff, FileWarning } from 'lucide-react';
+import { GenerationErrorKind, ModuleState, ModuleStatus } from '../types';
+
+interface ModuleStatusBannerProps {
+  state: ModuleState;
+  // Complete files that a retry or resume keeps instead of generating again
+  keptFiles: number;
+  onResume: () => void;
+  onRestart: () => void;
+}
+
+const ERROR_DETAILS: Record<GenerationErrorKind, { title: string; hint: string; icon: typeof AlertCircle }> = {
+  auth: {
+    title: 'Authentication failed',
+    hint: 'The provider rejected the API key. Check it in the provider settings, then retry.',
+    icon: KeyRound,
+  },
+  'rate-limit': {
+    title: 'Rate limit or quota reached',
+    hint: 'The provider is throttling requests. Wait a minute before retrying, or switch to another model.',
+    icon: Clock,
+  },
+  safety: {
+    title: 'Blocked by the safety filter',
+    hint: 'The provider refused to generate this module. Rephrase the requirements in the blueprint and try again.',
+    icon: ShieldAlert,
+  },
+  network: {
+    title: 'Connection failed',
+    hint: 'The provider could not be reached or is temporarily unavailable. Check your connection and retry.',
+    icon: WifiOff,
+  },
+  malformed: {
+    title: 'Unreadable output',
+    hint: 'The response could not be read as project files. Retrying usually produces a usable response.',
+    icon: FileWarning,
+  },
+  unknown: {
+    title: 'Generation failed',
+    hint: 'Something unexpected went wrong. Retry, or start the module over.',
+    icon: AlertCircle,
+  },
+};
+
+export const ModuleStatusBanner: React.FC<ModuleStatusBannerProps> = ({ state, keptFiles, onResume, onRestart }) => {
+  if (state.status !== ModuleStatus.FAILED && state.status !== ModuleStatus.CANCELLED) return null;
+
+  const isFailed = state.status === ModuleStatus.FAILED;
+  const details = isFailed ? ERROR_DETAILS[state.error?.kind ?? 'unknown'] : null;
+  const Icon = details?.icon ?? Square;
+  const kept = keptFiles > 0 ? ` ${keptFiles} complete file${keptFiles === 1 ? ' is' : 's are'} kept.` : '';
+
+  return (
+    <div className={isFailed
+      ? "mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-start gap-3 text-red-400 animate-slide-up"
+      : "mb-4 p-4 bg-dark-surface border border-dark-border rounded-xl flex items-start gap-3 text-gray-300 animate-slide-up"}
+    >
+      <Icon className="w-5 h-5 mt-0.5 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <h4 className="font-bold text-sm">{details ? details.title : 'Generation stopped'}</h4>
+        <p className="text-sm opacity-90">{details ? details.hint : 'This module was stopped before it finished.'}{kept}</p>
+        {state.error?.message && <p className="text-xs font-mono opacity-70 mt-1 break-words">{state.error.message}</p>}
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {keptFiles > 0 && (
+          <button
+            onClick={onRestart}
+            className="px-3 py-1.5 text-xs font-semibold rounded-lg border border-dark-border text-gray-300 hover:bg-dark-bg transition-colors"
+            title="Discard this module's output and generate it from the beginning"
+          >
+            Start over
+          </button>
+        )}
+        <button
+          onClick={keptFiles > 0 ? onResume : onRestart}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-brand-600 hover:bg-brand-500 text-white transition-colors"
+          title={keptFiles > 0 ? 'Continue after the last complete file' : 'Generate this module again'}
+        >
+          {isFailed ? <RotateCcw className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+          {isFailed ? 'Retry' : 'Resume'}
+        </button>
+      </div>
+    </div>
+  );
+};
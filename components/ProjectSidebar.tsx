@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { FolderOpen, Plus, Pencil, Trash2, Check, X, Clock, Upload } from 'lucide-react';
+import { AppStatus, ProjectSummary } from '../types';
+
+interface ProjectSidebarProps {
+  isOpen: boolean;
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  // Restores a project from an exported manifest
+  onImport: (file: File) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdated = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : date.toLocaleDateString();
+};
+
+export const ProjectSidebar: React.FC<ProjectSidebarProps> = ({ isOpen, projects, activeProjectId, onClose, onOpen, onNew, onImport, onRename, onDelete }) => {
+  const importRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 z-[60] animate-fade-in" onClick={onClose}></div>}
+      <aside
+        className={clsx(
+          "fixed top-0 left-0 h-full w-80 max-w-[85vw] bg-dark-surface border-r border-dark-border z-[70] flex flex-col transition-transform duration-300",
+          isOpen ? "translate-x-0" : "-translate-x-full"
+        )}
+      >
+        <div className="h-16 px-4 border-b border-dark-border flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FolderOpen className="w-4 h-4 text-brand-400" />
+            <span className="text-sm font-bold text-white uppercase tracking-wider">Projects</span>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-white transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-3 border-b border-dark-border">
+          <button
+            onClick={onNew}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" /> New Project
+          </button>
+          <button
+            onClick={() => importRef.current?.click()}
+            className="w-full mt-2 flex items-center justify-center gap-2 px-4 py-2 border border-dark-border text-gray-300 hover:text-white hover:border-brand-500/40 text-sm font-semibold rounded-lg transition-colors"
+          >
+            <Upload className="w-4 h-4" /> Import Project
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 custom-scrollbar">
+          {projects.length === 0 && (
+            <p className="px-3 py-6 text-center text-xs text-gray-500">No saved projects yet. Generated blueprints are saved automatically.</p>
+          )}
+          <ul className="space-y-1">
+            {projects.map(project => (
+              <li
+                key={project.id}
+                className={clsx(
+                  "group rounded-lg border transition-colors",
+                  project.id === activeProjectId
+                    ? "bg-brand-500/10 border-brand-500/30"
+                    : "border-transparent hover:bg-dark-bg/60 hover:border-dark-border"
+                )}
+              >
+                {editingId === project.id ? (
+                  <div className="flex items-center gap-1 p-2">
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 bg-dark-bg border border-dark-border rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-brand-500"
+                    />
+                    <button onClick={commitRename} className="p-1 text-green-400 hover:text-green-300"><Check className="w-4 h-4" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-gray-500 hover:text-white"><X className="w-4 h-4" /></button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 p-2">
+                    <button onClick={() => onOpen(project.id)} className="flex-1 min-w-0 text-left">
+                      <div className="text-sm font-medium text-gray-200 truncate">{project.name}</div>
+                      <div className="flex items-center gap-1.5 text-[10px] text-gray-500 mt-0.5">
+                        <Clock className="w-3 h-3" />
+                        {formatUpdated(project.updatedAt)}
+                        {project.status === AppStatus.ERROR && <span className="text-red-400">· failed</span>}
+                      </div>
+                    </button>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => startRename(project)} title="Rename" className="p-1.5 text-gray-500 hover:text-white">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+                        }}
+                        title="Delete"
+                        className="p-1.5 text-gray-500 hover:text-red-400"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </aside>
+    </>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { Cpu } from 'lucide-react';
+import { ProviderConfig } from '../types';
+import { PROVIDER_OPTIONS } from '../services/providers';
+
+interface ProviderSettingsProps {
+  value: ProviderConfig;
+  onChange: (config: ProviderConfig) => void;
+  disabled?: boolean;
+}
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ value, onChange, disabled = false }) => {
+  const update = (patch: Partial<ProviderConfig>) => onChange({ ...value, ...patch });
+  const active = PROVIDER_OPTIONS.find(option => option.kind === value.kind);
+
+  return (
+    <div className="mt-4 bg-dark-bg/60 border border-dark-border rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2 text-xs font-bold text-gray-400 uppercase tracking-wider">
+        <Cpu className="w-3.5 h-3.5 text-brand-400" /> Model Provider
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {PROVIDER_OPTIONS.map(option => (
+          <button
+            key={option.kind}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ kind: option.kind })}
+            className={clsx(
+              "px-3 py-1.5 rounded-md text-xs font-medium border transition-colors disabled:opacity-50",
+              value.kind === option.kind
+                ? "bg-brand-500/15 text-brand-300 border-brand-500/40"
+                : "text-gray-400 border-dark-border hover:text-gray-200"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {active && <p className="text-xs text-gray-500">{active.description}</p>}
+
+      {value.kind !== 'mock' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <input
+            value={value.model || ''}
+            disabled={disabled}
+            onChange={(e) => update({ model: e.target.value || undefined })}
+            placeholder={value.kind === 'gemini' ? 'Model (default: gemini-2.5-flash / gemini-3-pro-preview)' : 'Model (e.g. llama3.1:70b)'}
+            className="bg-dark-bg border border-dark-border rounded-lg px-3 py-2 text-xs text-gray-200 placeholder-gray-600 font-mono focus:outline-none focus:border-brand-500"
+          />
+          {value.kind === 'openai' && (
+            <input
+              value={value.baseUrl || ''}
+              disabled={disabled}
+              onChange={(e) => update({ baseUrl: e.target.value || undefined })}
+              placeholder="Base URL (e.g. http://localhost:11434/v1)"
+              className="bg-dark-bg border border-dark-border rounded-lg px-3 py-2 text-xs text-gray-200 placeholder-gray-600 font-mono focus:outline-none focus:border-brand-500"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { clsx } from 'clsx';
+import { ParsedFile } from '../types';
+import { getFileIcon } from './FileTree';
+
+interface QuickOpenProps {
+  files: ParsedFile[];
+  onOpen: (file: ParsedFile) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+const SEPARATORS = '/._- ';
+
+/**
+ * Subsequence match of `query` in `path`, matched from the end so the file name is preferred
+ * over folder names. Consecutive characters and characters starting a segment or word score higher.
+ */
+const fuzzyMatch = (query: string, path: string): { score: number; indices: number[] } | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = path.toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  const indices: number[] = [];
+  let at = haystack.length - 1;
+  for (let q = needle.length - 1; q >= 0; q--) {
+    while (at >= 0 && haystack[at] !== needle[q]) at--;
+    if (at < 0) return null;
+    indices.unshift(at--);
+  }
+
+  const baseStart = path.lastIndexOf('/') + 1;
+  let score = 0;
+  indices.forEach((index, idx) => {
+    score += 1;
+    if (idx > 0 && indices[idx - 1] === index - 1) score += 5;
+    if (index === 0 || SEPARATORS.includes(path[index - 1])) score += 4;
+    else if (path[index] !== haystack[index] && path[index - 1] === haystack[index - 1]) score += 3; // camelCase hump
+    if (index >= baseStart) score += 2;
+  });
+  return { score: score - path.length * 0.01, indices };
+};
+
+const highlight = (text: string, indices: number[], offset: number) => {
+  const marked = new Set(indices.map(index => index - offset));
+  return Array.from(text).map((char, idx) =>
+    marked.has(idx) ? <span key={idx} className="text-brand-400 font-semibold">{char}</span> : char
+  );
+};
+
+export const QuickOpen: React.FC<QuickOpenProps> = ({ files, onOpen, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => files
+    .map(file => ({ file, match: fuzzyMatch(query, file.name) }))
+    .filter((result): result is { file: ParsedFile; match: NonNullable<ReturnType<typeof fuzzyMatch>> } => result.match !== null)
+    .sort((a, b) => b.match.score - a.match.score)
+    .slice(0, MAX_RESULTS), [files, query]);
+
+  useEffect(() => setSelected(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const open = (index: number) => {
+    const result = results[index];
+    if (!result) return;
+    onOpen(result.file);
+    onClose();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') setSelected(prev => Math.min(prev + 1, results.length - 1));
+    else if (event.key === 'ArrowUp') setSelected(prev => Math.max(prev - 1, 0));
+    else if (event.key === 'Enter') open(selected);
+    else if (event.key === 'Escape') onClose();
+    else return;
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex justify-center items-start pt-12 bg-black/40 backdrop-blur-[1px]" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-lg mx-4 bg-[#161b22] border border-dark-border rounded-lg shadow-2xl overflow-hidden"
+        onMouseDown={event => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-dark-border">
+          <Search className="w-3.5 h-3.5 text-gray-500 shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Go to file…"
+            className="flex-1 bg-transparent py-2.5 text-sm text-gray-200 placeholder-gray-600 focus:outline-none font-mono"
+          />
+        </div>
+        <div ref={listRef} role="listbox" className="max-h-80 overflow-y-auto p-1 custom-scrollbar">
+          {results.map(({ file, match }, idx) => {
+            const slash = file.name.lastIndexOf('/');
+            const folder = slash === -1 ? '' : file.name.slice(0, slash);
+            const base = file.name.slice(slash + 1);
+            return (
+              <button
+                key={file.name}
+                role="option"
+                aria-selected={idx === selected}
+                onMouseMove={() => setSelected(idx)}
+                onClick={() => open(idx)}
+                className={clsx(
+                  "w-full flex items-center gap-2 px-2.5 py-1.5 rounded text-left font-mono text-sm",
+                  idx === selected ? "bg-brand-500/15 text-gray-100" : "text-gray-300"
+                )}
+              >
+                <span className="shrink-0">{getFileIcon(file.name)}</span>
+                <span className="shrink-0">{highlight(base, match.indices, slash + 1)}</span>
+                {folder && <span className="truncate text-xs text-gray-500">{highlight(folder, match.indices, 0)}</span>}
+              </button>
+            );
+          })}
+          {results.length === 0 && <div className="px-3 py-4 text-center text-xs text-gray-500">No matching files</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
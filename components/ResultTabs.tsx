@@ -1,52 +1,88 @@
 import React from 'react';
-import { TabOption } from '../types';
+import { ModuleKind, ModuleState, ModuleStatus, TabOption } from '../types';
 import { clsx } from 'clsx';
-import { FileText, Layers, GitGraph, Database, Code, Terminal, Rocket, Loader2 } from 'lucide-react';
+import { FileText, Layers, GitGraph, Database, FileCode2, Code, Terminal, Rocket, Loader2, Square, Play, AlertCircle } from 'lucide-react';
 
 interface ResultTabsProps {
   activeTab: TabOption;
   setActiveTab: (tab: TabOption) => void;
-  loadingStates?: {
-    frontend: boolean;
-    backend: boolean;
-    deployment: boolean;
-  };
+  moduleStates?: Record<ModuleKind, ModuleState>;
+  onStop?: (module: ModuleKind) => void;
+  onResume?: (module: ModuleKind) => void;
 }
 
-export const ResultTabs: React.FC<ResultTabsProps> = ({ activeTab, setActiveTab, loadingStates }) => {
-  const tabs = [
+export const ResultTabs: React.FC<ResultTabsProps> = ({ activeTab, setActiveTab, moduleStates, onStop, onResume }) => {
+  const isLoading = (module: ModuleKind) => {
+    const status = moduleStates?.[module].status;
+    return status === ModuleStatus.QUEUED || status === ModuleStatus.STREAMING;
+  };
+
+  const tabs: Array<{ id: TabOption; icon: typeof FileText; loading?: boolean; module?: ModuleKind }> = [
     { id: TabOption.SUMMARY, icon: FileText, loading: false },
     { id: TabOption.STACK, icon: Layers, loading: false },
     { id: TabOption.ARCHITECTURE, icon: GitGraph, loading: false },
     { id: TabOption.DATABASE, icon: Database, loading: false },
-    { id: TabOption.FRONTEND, icon: Code, loading: loadingStates?.frontend },
-    { id: TabOption.BACKEND, icon: Terminal, loading: loadingStates?.backend },
-    { id: TabOption.DEPLOYMENT, icon: Rocket, loading: loadingStates?.deployment },
+    { id: TabOption.SCHEMA_EXPORT, icon: FileCode2, loading: false },
+    { id: TabOption.FRONTEND, icon: Code, loading: isLoading('frontend'), module: 'frontend' },
+    { id: TabOption.BACKEND, icon: Terminal, loading: isLoading('backend'), module: 'backend' },
+    { id: TabOption.DEPLOYMENT, icon: Rocket, loading: isLoading('deployment'), module: 'deployment' },
   ];
 
   return (
     <div className="w-full overflow-hidden mb-8">
       <div className="flex overflow-x-auto pb-2 gap-1 scrollbar-hide border-b border-dark-border/50">
         {tabs.map((tab) => {
-          const Icon = tab.loading ? Loader2 : tab.icon;
+          const state = tab.module ? moduleStates?.[tab.module] : undefined;
+          const isFailed = state?.status === ModuleStatus.FAILED;
+          const Icon = tab.loading ? Loader2 : isFailed ? AlertCircle : tab.icon;
           const isActive = activeTab === tab.id;
+          const retry = tab.loading ? state?.attempt : undefined;
+          const canStop = Boolean(tab.module && tab.loading && onStop);
+          const canResume = Boolean(tab.module && state?.status === ModuleStatus.CANCELLED && onResume);
           return (
-            <button
-              key={tab.id}
-              onClick={() => setActiveTab(tab.id)}
-              className={clsx(
-                "flex items-center gap-2 px-4 py-3 rounded-t-lg text-sm font-medium transition-all whitespace-nowrap border-b-2 relative top-[1px] select-none",
-                isActive 
-                  ? "border-brand-500 text-brand-400 bg-dark-surface" 
-                  : "border-transparent text-gray-500 hover:text-gray-300 hover:bg-dark-surface/30"
+            <div key={tab.id} className="flex items-center">
+              <button
+                onClick={() => setActiveTab(tab.id)}
+                className={clsx(
+                  "flex items-center gap-2 px-4 py-3 rounded-t-lg text-sm font-medium transition-all whitespace-nowrap border-b-2 relative top-[1px] select-none",
+                  (canStop || canResume) && "pr-9",
+                  isActive
+                    ? "border-brand-500 text-brand-400 bg-dark-surface"
+                    : "border-transparent text-gray-500 hover:text-gray-300 hover:bg-dark-surface/30"
+                )}
+              >
+                <Icon className={clsx("w-4 h-4", isFailed ? "text-red-400" : isActive ? "text-brand-400" : "text-gray-500", tab.loading && "animate-spin")} />
+                {tab.id}
+                {retry !== undefined && (
+                  <span className="text-[10px] font-semibold text-amber-400" title={`The stream dropped; retrying (attempt ${retry})`}>
+                    retry {retry}
+                  </span>
+                )}
+                {canResume && <span className="text-[10px] font-semibold text-gray-500">stopped</span>}
+              </button>
+              {/* Sits over the tab's right padding; a button cannot be nested inside the tab button */}
+              {canStop && (
+                <button
+                  onClick={() => onStop!(tab.module!)}
+                  className="-ml-8 relative z-10 p-1 rounded text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                  title="Stop generating this module"
+                >
+                  <Square className="w-3 h-3 fill-current" />
+                </button>
+              )}
+              {canResume && (
+                <button
+                  onClick={() => onResume!(tab.module!)}
+                  className="-ml-8 relative z-10 p-1 rounded text-gray-500 hover:text-brand-400 hover:bg-brand-500/10 transition-colors"
+                  title="Resume after the last complete file"
+                >
+                  <Play className="w-3 h-3 fill-current" />
+                </button>
               )}
-            >
-              <Icon className={clsx("w-4 h-4", isActive ? "text-brand-400" : "text-gray-500", tab.loading && "animate-spin")} />
-              {tab.id}
-            </button>
+            </div>
           );
         })}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
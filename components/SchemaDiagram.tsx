@@ -0,0 +1,313 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SchemaModel } from '../types';
+import { ER_HEADER_HEIGHT, ER_ROW_HEIGHT, EREdge, ERNode, buildERDiagram, columnAnchorY, diagramBounds, toMermaidER } from '../services/erDiagram';
+import { downloadFile, serializeSvg, svgToPng } from '../services/diagramExport';
+import { ZoomIn, ZoomOut, Maximize, RotateCcw, Image, FileCode2, Copy, Check } from 'lucide-react';
+
+interface SchemaDiagramProps {
+  models: SchemaModel[];
+  // Base name for exported files, e.g. the app slug
+  fileName: string;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+type DragState =
+  | { kind: 'pan'; startX: number; startY: number; origin: Viewport }
+  | { kind: 'node'; name: string; startX: number; startY: number; originX: number; originY: number };
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 2.5;
+const COLORS = {
+  node: '#1e212b',
+  header: '#161b22',
+  border: '#2d3342',
+  active: '#38bdf8',
+  edge: '#475569',
+  text: '#e5e7eb',
+  muted: '#6b7280',
+  pk: '#fbbf24',
+  fk: '#38bdf8',
+};
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Cubic path between the facing sides of two tables; overlapping tables loop out on the right
+const edgePath = (edge: EREdge, from: ERNode, to: ERNode) => {
+  const y1 = edge.fromColumn ? columnAnchorY(from, edge.fromColumn) : from.y + ER_HEADER_HEIGHT / 2;
+  const y2 = edge.toColumn ? columnAnchorY(to, edge.toColumn) : to.y + ER_HEADER_HEIGHT / 2;
+  let side1 = 1;
+  let side2 = 1;
+  if (to.x >= from.x + from.width) side2 = -1;
+  else if (to.x + to.width <= from.x) side1 = -1;
+  const x1 = side1 === 1 ? from.x + from.width : from.x;
+  const x2 = side2 === 1 ? to.x + to.width : to.x;
+  const curve = Math.max(50, Math.abs(x2 - x1) / 2);
+  return {
+    d: `M ${x1} ${y1} C ${x1 + side1 * curve} ${y1}, ${x2 + side2 * curve} ${y2}, ${x2} ${y2}`,
+    midX: (x1 + x2) / 2 + (side1 === side2 ? side1 * curve * 0.75 : 0),
+    midY: (y1 + y2) / 2,
+  };
+};
+
+export const SchemaDiagram: React.FC<SchemaDiagramProps> = ({ models, fileName }) => {
+  const diagram = useMemo(() => buildERDiagram(models), [models]);
+  const [moved, setMoved] = useState<Record<string, { x: number; y: number }>>({});
+  const [view, setView] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const nodes = useMemo(
+    () => diagram.nodes.map(node => (moved[node.name] ? { ...node, ...moved[node.name] } : node)),
+    [diagram, moved]
+  );
+  const nodeMap = useMemo(() => new Map(nodes.map(node => [node.name, node])), [nodes]);
+
+  const neighbors = useMemo(() => {
+    if (!hovered) return null;
+    const related = new Set([hovered]);
+    diagram.edges.forEach(edge => {
+      if (edge.from === hovered) related.add(edge.to);
+      if (edge.to === hovered) related.add(edge.from);
+    });
+    return related;
+  }, [diagram, hovered]);
+
+  const fit = useCallback((target: ERNode[] = nodes) => {
+    const container = containerRef.current;
+    if (!container || target.length === 0) return;
+    const bounds = diagramBounds(target, 40);
+    const { width, height } = container.getBoundingClientRect();
+    const scale = clampScale(Math.min(1.2, width / bounds.width, height / bounds.height));
+    setView({
+      scale,
+      x: (width - bounds.width * scale) / 2 - bounds.x * scale,
+      y: (height - bounds.height * scale) / 2 - bounds.y * scale,
+    });
+  }, [nodes]);
+
+  // A different set of tables means a fresh layout; manual positions only survive edits to the same tables
+  const modelKey = models.map(model => model.name).join('|');
+  useEffect(() => {
+    setMoved({});
+    fit(diagram.nodes);
+  }, [modelKey]);
+
+  // React registers wheel listeners as passive, so zooming needs a native listener to stop page scroll
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+      const py = event.clientY - rect.top;
+      setView(current => {
+        const scale = clampScale(current.scale * Math.exp(-event.deltaY * 0.0015));
+        const ratio = scale / current.scale;
+        return { scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio };
+      });
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const zoomBy = (factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const { width, height } = container.getBoundingClientRect();
+    setView(current => {
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      return { scale, x: width / 2 - (width / 2 - current.x) * ratio, y: height / 2 - (height / 2 - current.y) * ratio };
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    const target = (event.target as Element).closest('[data-node]');
+    const name = target?.getAttribute('data-node');
+    if (name) {
+      const node = nodeMap.get(name)!;
+      dragRef.current = { kind: 'node', name, startX: event.clientX, startY: event.clientY, originX: node.x, originY: node.y };
+    } else {
+      dragRef.current = { kind: 'pan', startX: event.clientX, startY: event.clientY, origin: view };
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (drag.kind === 'pan') {
+      setView({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy });
+    } else {
+      setMoved(current => ({ ...current, [drag.name]: { x: drag.originX + dx / view.scale, y: drag.originY + dy / view.scale } }));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = null;
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  const exportMarkup = () => {
+    if (!svgRef.current) return null;
+    const bounds = diagramBounds(nodes, 80);
+    return { bounds, markup: serializeSvg(svgRef.current, bounds) };
+  };
+
+  const handleExportSvg = () => {
+    const result = exportMarkup();
+    if (result) downloadFile(`${fileName}-er-diagram.svg`, result.markup, 'image/svg+xml');
+  };
+
+  const handleExportPng = async () => {
+    const result = exportMarkup();
+    if (!result) return;
+    try {
+      setExportError(null);
+      const png = await svgToPng(result.markup, result.bounds.width, result.bounds.height);
+      downloadFile(`${fileName}-er-diagram.png`, png);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'PNG export failed');
+    }
+  };
+
+  const handleExportMermaid = () => downloadFile(`${fileName}-er-diagram.mmd`, toMermaidER({ nodes, edges: diagram.edges }));
+
+  const handleCopyMermaid = async () => {
+    try {
+      await navigator.clipboard.writeText(toMermaidER({ nodes, edges: diagram.edges }));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setExportError('Clipboard access was denied');
+    }
+  };
+
+  const toolbarButton = "p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/5 transition-colors";
+  const exportButton = "flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium text-gray-300 bg-dark-bg border border-dark-border hover:border-brand-500/40 hover:text-white transition-colors";
+
+  return (
+    <div className="bg-dark-surface border border-dark-border rounded-xl overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2.5 border-b border-dark-border bg-[#161b22]">
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoomBy(1.2)} className={toolbarButton} title="Zoom in"><ZoomIn className="w-4 h-4" /></button>
+          <button onClick={() => zoomBy(1 / 1.2)} className={toolbarButton} title="Zoom out"><ZoomOut className="w-4 h-4" /></button>
+          <button onClick={() => fit()} className={toolbarButton} title="Fit to view"><Maximize className="w-4 h-4" /></button>
+          <button onClick={() => { setMoved({}); fit(diagram.nodes); }} className={toolbarButton} title="Reset layout"><RotateCcw className="w-4 h-4" /></button>
+          <span className="ml-2 text-xs text-gray-500 font-mono">{Math.round(view.scale * 100)}%</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {exportError && <span className="text-xs text-red-400">{exportError}</span>}
+          <button onClick={handleExportSvg} className={exportButton}><Image className="w-3.5 h-3.5" /> SVG</button>
+          <button onClick={handleExportPng} className={exportButton}><Image className="w-3.5 h-3.5" /> PNG</button>
+          <button onClick={handleExportMermaid} className={exportButton}><FileCode2 className="w-3.5 h-3.5" /> Mermaid</button>
+          <button onClick={handleCopyMermaid} className={exportButton} title="Copy Mermaid erDiagram">
+            {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="relative h-[560px] bg-dark-bg">
+        <svg
+          ref={svgRef}
+          className="w-full h-full select-none cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          fontFamily="JetBrains Mono, monospace"
+        >
+          <defs>
+            {[['', COLORS.edge], ['-active', COLORS.active]].map(([suffix, color]) => (
+              <React.Fragment key={suffix}>
+                <marker id={`er-one${suffix}`} viewBox="0 0 16 16" refX="16" refY="8" markerWidth="16" markerHeight="16" markerUnits="userSpaceOnUse" orient="auto-start-reverse">
+                  <path d="M 10 2 L 10 14 M 0 8 L 16 8" stroke={color} strokeWidth="1.5" fill="none" />
+                </marker>
+                <marker id={`er-many${suffix}`} viewBox="0 0 16 16" refX="16" refY="8" markerWidth="16" markerHeight="16" markerUnits="userSpaceOnUse" orient="auto-start-reverse">
+                  <path d="M 16 2 L 4 8 L 16 14 M 0 8 L 16 8" stroke={color} strokeWidth="1.5" fill="none" />
+                </marker>
+              </React.Fragment>
+            ))}
+          </defs>
+
+          <g data-viewport="" transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+            {diagram.edges.map(edge => {
+              const from = nodeMap.get(edge.from);
+              const to = nodeMap.get(edge.to);
+              if (!from || !to) return null;
+              const active = hovered !== null && (edge.from === hovered || edge.to === hovered);
+              const suffix = active ? '-active' : '';
+              const path = edgePath(edge, from, to);
+              return (
+                <g key={edge.id} opacity={hovered && !active ? 0.15 : 1}>
+                  <path
+                    d={path.d}
+                    fill="none"
+                    stroke={active ? COLORS.active : COLORS.edge}
+                    strokeWidth={active ? 2 : 1.5}
+                    strokeDasharray={edge.optional ? '5 4' : undefined}
+                    markerStart={`url(#er-${edge.cardinality === 'one-to-one' ? 'one' : 'many'}${suffix})`}
+                    markerEnd={`url(#er-${edge.cardinality === 'many-to-many' ? 'many' : 'one'}${suffix})`}
+                  />
+                  {active && (
+                    <text x={path.midX} y={path.midY - 6} fill={COLORS.active} fontSize="11" textAnchor="middle">{edge.label}</text>
+                  )}
+                </g>
+              );
+            })}
+
+            {nodes.map(node => {
+              const isHovered = hovered === node.name;
+              const dimmed = neighbors !== null && !neighbors.has(node.name);
+              return (
+                <g
+                  key={node.name}
+                  data-node={node.name}
+                  transform={`translate(${node.x} ${node.y})`}
+                  opacity={dimmed ? 0.25 : 1}
+                  onPointerEnter={() => setHovered(node.name)}
+                  onPointerLeave={() => setHovered(current => (current === node.name ? null : current))}
+                  style={{ cursor: 'move' }}
+                >
+                  <rect width={node.width} height={node.height} rx="8" fill={COLORS.node} stroke={isHovered || (neighbors?.has(node.name) && hovered) ? COLORS.active : COLORS.border} strokeWidth={isHovered ? 2 : 1} />
+                  <path d={`M 0 8 Q 0 0 8 0 L ${node.width - 8} 0 Q ${node.width} 0 ${node.width} 8 L ${node.width} ${ER_HEADER_HEIGHT} L 0 ${ER_HEADER_HEIGHT} Z`} fill={COLORS.header} />
+                  <line x1="0" y1={ER_HEADER_HEIGHT} x2={node.width} y2={ER_HEADER_HEIGHT} stroke={COLORS.border} />
+                  <text x="12" y={ER_HEADER_HEIGHT / 2 + 4} fill={COLORS.text} fontSize="13" fontWeight="bold" fontFamily="Inter, sans-serif">{node.name}</text>
+                  {node.columns.map((column, idx) => {
+                    const y = ER_HEADER_HEIGHT + idx * ER_ROW_HEIGHT + ER_ROW_HEIGHT / 2 + 4;
+                    const badge = column.primaryKey ? 'PK' : column.foreignKey ? 'FK' : column.unique ? 'UQ' : '';
+                    return (
+                      <g key={column.name}>
+                        {badge && <text x="12" y={y} fontSize="9" fontWeight="bold" fill={column.primaryKey ? COLORS.pk : column.foreignKey ? COLORS.fk : '#c084fc'}>{badge}</text>}
+                        <text x="36" y={y} fontSize="11" fill={COLORS.text}>{column.name}</text>
+                        <text x={node.width - 12} y={y} fontSize="10" fill={COLORS.muted} textAnchor="end">{column.type}{column.nullable ? '?' : ''}</text>
+                      </g>
+                    );
+                  })}
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        <div className="absolute bottom-3 left-3 flex items-center gap-4 text-[10px] text-gray-500 bg-dark-surface/80 border border-dark-border rounded-md px-3 py-1.5 pointer-events-none">
+          <span>Drag to pan · Scroll to zoom · Drag tables to rearrange</span>
+          <span className="flex items-center gap-1"><span className="w-4 border-t border-dashed border-gray-500"></span> optional</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, Wand2, XCircle } from 'lucide-react';
+import { ValidationIssue } from '../services/projectValidation';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  isValidating: boolean;
+  onOpenIssue: (file: string, line?: number) => void;
+  // Offered when the module can be changed; asks the model to fix the failing files
+  onRepair?: () => void;
+  // Round of the repair loop in progress, if any
+  repairRound?: number | null;
+}
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, isValidating, onOpenIssue, onRepair, repairRound = null }) => {
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-dark-border space-y-2">
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          {isValidating ? (
+            <><Loader2 className="w-3.5 h-3.5 animate-spin" /> Checking files…</>
+          ) : issues.length === 0 ? (
+            <><CheckCircle2 className="w-3.5 h-3.5 text-green-400" /> No problems found</>
+          ) : (
+            <span>
+              {errors > 0 && <span className="text-red-400">{errors} error{errors === 1 ? '' : 's'}</span>}
+              {errors > 0 && warnings > 0 && ', '}
+              {warnings > 0 && <span className="text-amber-400">{warnings} warning{warnings === 1 ? '' : 's'}</span>}
+            </span>
+          )}
+        </div>
+        {onRepair && issues.length > 0 && (
+          <button
+            onClick={onRepair}
+            disabled={repairRound !== null}
+            className="w-full flex items-center justify-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium bg-brand-600 hover:bg-brand-500 text-white disabled:opacity-50 transition-colors"
+            title="Ask the model to fix only the files with problems, then check again"
+          >
+            {repairRound !== null ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+            {repairRound !== null ? `Repairing (round ${repairRound})…` : 'Repair with AI'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1 custom-scrollbar">
+        {issues.map((issue, idx) => (
+          <button
+            key={idx}
+            onClick={() => issue.file && onOpenIssue(issue.file, issue.line)}
+            disabled={!issue.file}
+            className="w-full flex items-start gap-2 px-2 py-1.5 rounded text-left hover:bg-[#21262d] disabled:hover:bg-transparent transition-colors"
+          >
+            {issue.severity === 'error'
+              ? <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-red-400" />
+              : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-amber-400" />}
+            <span className="min-w-0">
+              <span className="block text-xs text-gray-300 break-words">{issue.message}</span>
+              <span className="block text-[10px] font-mono text-gray-500 truncate">
+                {issue.file ? `${issue.file}${issue.line ? `:${issue.line}` : ''}` : 'missing file'} · {issue.check}
+              </span>
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
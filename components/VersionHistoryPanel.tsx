@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { ArrowRight, ChevronDown, ChevronRight, History, RotateCcw, X } from 'lucide-react';
+import { CodeSnapshot, ModuleKind } from '../types';
+import { FileDiff, diffModules, moduleFiles, toHunks } from '../services/codeDiff';
+
+interface VersionHistoryPanelProps {
+  module: ModuleKind;
+  // This module's snapshots, oldest first
+  snapshots: CodeSnapshot[];
+  current: string;
+  // Restoring is unavailable while the module is being generated or rewritten
+  canRestore: boolean;
+  onRestore: (snapshot: CodeSnapshot) => void;
+  onRestoreFile: (snapshot: CodeSnapshot, name: string) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const MODULE_TITLES: Record<ModuleKind, string> = {
+  frontend: 'Frontend',
+  backend: 'Backend',
+  deployment: 'Deployment',
+};
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+};
+
+const STATUS_STYLES: Record<Exclude<FileDiff['status'], 'unchanged'>, string> = {
+  added: 'text-green-400 bg-green-500/10 border-green-500/20',
+  removed: 'text-red-400 bg-red-500/10 border-red-500/20',
+  changed: 'text-amber-400 bg-amber-500/10 border-amber-500/20',
+};
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ module, snapshots, current, canRestore, onRestore, onRestoreFile, onClose }) => {
+  const versions = useMemo(() => {
+    let run = 0;
+    const labelled = snapshots.map(snapshot => ({
+      id: snapshot.id,
+      label: snapshot.source === 'generation'
+        ? `Run ${++run} · ${formatTime(snapshot.createdAt)}`
+        : `Edits · ${formatTime(snapshot.createdAt)}`,
+      content: snapshot.content,
+      snapshot,
+    }));
+    return [...labelled, { id: CURRENT, label: 'Current', content: current, snapshot: null }];
+  }, [snapshots, current]);
+
+  // By default compare the most recent snapshot that differs from the working copy against it
+  const defaultBase = () => [...snapshots].reverse().find(snapshot => snapshot.content !== current)?.id ?? snapshots[snapshots.length - 1]?.id ?? CURRENT;
+  const [baseId, setBaseId] = useState(defaultBase);
+  const [targetId, setTargetId] = useState(CURRENT);
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Snapshots can be pruned or added (a run finishing) while the panel is open
+  useEffect(() => {
+    if (!versions.some(version => version.id === baseId)) setBaseId(defaultBase());
+    if (!versions.some(version => version.id === targetId)) setTargetId(CURRENT);
+  }, [versions]);
+
+  const base = versions.find(version => version.id === baseId) ?? versions[versions.length - 1];
+  const target = versions.find(version => version.id === targetId) ?? versions[versions.length - 1];
+  const diffs = useMemo(() => diffModules(base.content, target.content), [base.content, target.content]);
+  const currentFiles = useMemo(() => moduleFiles(current), [current]);
+  const changed = diffs.filter(diff => diff.status !== 'unchanged');
+  const shown = showUnchanged ? diffs : changed;
+  const counts = {
+    added: changed.filter(diff => diff.status === 'added').length,
+    removed: changed.filter(diff => diff.status === 'removed').length,
+    changed: changed.filter(diff => diff.status === 'changed').length,
+  };
+
+  const toggle = (name: string) => setExpanded(prev => prev.includes(name) ? prev.filter(entry => entry !== name) : [...prev, name]);
+
+  const versionSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={event => onChange(event.target.value)}
+      className="bg-dark-bg border border-dark-border rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-brand-500/50"
+    >
+      {versions.map(version => <option key={version.id} value={version.id}>{version.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="mb-4 bg-dark-surface border border-dark-border rounded-xl p-5 animate-slide-up">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+          <History className="w-4 h-4 text-brand-400" /> {MODULE_TITLES[module]} History
+        </h3>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-white transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500">No earlier versions yet. A snapshot is kept each time this module finishes generating.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {versionSelect(baseId, setBaseId)}
+            <ArrowRight className="w-3.5 h-3.5 text-gray-500" />
+            {versionSelect(targetId, setTargetId)}
+            <span className="text-xs text-gray-500 ml-1">
+              {changed.length === 0
+                ? 'No differences'
+                : [counts.changed && `${counts.changed} changed`, counts.added && `${counts.added} added`, counts.removed && `${counts.removed} removed`].filter(Boolean).join(', ')}
+            </span>
+            <div className="flex items-center gap-3 ml-auto">
+              <label className="flex items-center gap-1.5 text-xs text-gray-500 cursor-pointer">
+                <input type="checkbox" checked={showUnchanged} onChange={event => setShowUnchanged(event.target.checked)} className="accent-brand-500" />
+                Unchanged files
+              </label>
+              {base.snapshot && (
+                <button
+                  onClick={() => onRestore(base.snapshot!)}
+                  disabled={!canRestore || base.content === current}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg border border-dark-border text-gray-200 hover:bg-dark-bg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title="Replace the current module with this version; the current code is kept as a snapshot"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" /> Restore version
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            {shown.map(diff => {
+              const isOpen = expanded.includes(diff.name);
+              return (
+                <div key={diff.name} className="border border-dark-border rounded-lg overflow-hidden">
+                  <div className="flex items-center gap-2 px-3 py-1.5 bg-[#161b22]">
+                    <button
+                      onClick={() => toggle(diff.name)}
+                      disabled={diff.status === 'unchanged'}
+                      className="flex items-center gap-2 flex-1 min-w-0 text-left text-sm font-mono text-gray-300 disabled:text-gray-500"
+                    >
+                      {isOpen ? <ChevronDown className="w-3.5 h-3.5 shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 shrink-0" />}
+                      <span className="truncate">{diff.name}</span>
+                      {diff.status !== 'unchanged' && (
+                        <span className={clsx("text-[10px] uppercase tracking-wider px-1.5 rounded border", STATUS_STYLES[diff.status])}>{diff.status}</span>
+                      )}
+                      {diff.additions > 0 && <span className="text-xs text-green-400">+{diff.additions}</span>}
+                      {diff.deletions > 0 && <span className="text-xs text-red-400">−{diff.deletions}</span>}
+                    </button>
+                    {/* Restoring a file the older version did not have removes it from the current code */}
+                    {base.snapshot && currentFiles.get(diff.name) !== diff.before && (
+                      <button
+                        onClick={() => onRestoreFile(base.snapshot!, diff.name)}
+                        disabled={!canRestore}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:text-white disabled:opacity-40 disabled:hover:text-gray-500 transition-colors shrink-0"
+                        title={`Copy this file from ${base.label} into the current code`}
+                      >
+                        <RotateCcw className="w-3 h-3" /> Restore file
+                      </button>
+                    )}
+                  </div>
+                  {isOpen && <DiffView diff={diff} />}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export const DiffView: React.FC<{ diff: FileDiff }> = ({ diff }) => {
+  const hunks = useMemo(() => toHunks(diff.lines), [diff.lines]);
+  return (
+    <div className="max-h-96 overflow-auto custom-scrollbar bg-[#0d1117] font-mono text-xs">
+      {hunks.map((hunk, idx) => (
+        <div key={idx}>
+          <div className="px-3 py-0.5 text-brand-400/70 bg-brand-500/5">@@ -{hunk.oldStart} +{hunk.newStart} @@</div>
+          {hunk.lines.map((line, lineIdx) => (
+            <div
+              key={lineIdx}
+              className={clsx(
+                "flex whitespace-pre",
+                line.kind === 'added' && "bg-green-500/10 text-green-300",
+                line.kind === 'removed' && "bg-red-500/10 text-red-300",
+                line.kind === 'equal' && "text-gray-400"
+              )}
+            >
+              <span className="w-10 shrink-0 text-right pr-2 text-gray-600 select-none">{line.oldLine ?? ''}</span>
+              <span className="w-10 shrink-0 text-right pr-2 text-gray-600 select-none">{line.newLine ?? ''}</span>
+              <span className="w-4 shrink-0 select-none">{line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '}</span>
+              <span>{line.text}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import { Blueprint } from "../types";
+
+export type ParticipantKind = 'client' | 'gateway' | 'service' | 'database' | 'cache' | 'queue' | 'external';
+
+export interface ArchParticipant {
+  id: string;
+  label: string;
+  // Technology the participant was inferred from, e.g. "PostgreSQL"
+  technology?: string;
+  kind: ParticipantKind;
+  // Lowercase words that identify this participant inside a flow step
+  aliases: string[];
+}
+
+export interface ArchInteraction {
+  from: string;
+  to: string;
+  label: string;
+  // Index into architecture.flowSteps the interaction was read from
+  step: number;
+}
+
+export interface ArchitectureDiagram {
+  participants: ArchParticipant[];
+  // Static component links (who talks to whom), deduplicated
+  links: Array<{ from: string; to: string }>;
+  interactions: ArchInteraction[];
+}
+
+interface Matcher {
+  pattern: RegExp;
+  kind: ParticipantKind;
+  label: string;
+}
+
+// Order matters: the first matching entry classifies a technology
+const TECHNOLOGY_MATCHERS: Matcher[] = [
+  { pattern: /redis|memcached|valkey|dragonfly/i, kind: 'cache', label: 'Cache' },
+  { pattern: /kafka|rabbitmq|\bsqs\b|\bsns\b|pub\/?sub|nats|bullmq|celery|sidekiq|eventbridge|kinesis/i, kind: 'queue', label: 'Queue' },
+  { pattern: /elastic|opensearch|meilisearch|typesense|algolia/i, kind: 'database', label: 'Search Index' },
+  { pattern: /\bs3\b|blob storage|cloud storage|\br2\b|minio/i, kind: 'database', label: 'Object Storage' },
+  { pattern: /postgres|mysql|mariadb|sqlite|mongo|dynamo|cockroach|planetscale|supabase|firestore|cassandra|neo4j|turso|sql server|oracle/i, kind: 'database', label: 'Database' },
+  { pattern: /nginx|traefik|kong|api gateway|cloudflare|cloudfront|cdn|load balancer|envoy|haproxy/i, kind: 'gateway', label: 'Gateway' },
+];
+
+const EXTERNAL_SERVICES: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /stripe|paypal|braintree|paddle/i, label: 'Payments' },
+  { pattern: /auth0|clerk|cognito|okta|firebase auth|keycloak|oauth|google sign|github login|\bsso\b/i, label: 'Identity Provider' },
+  { pattern: /sendgrid|mailgun|postmark|\bses\b|resend|smtp|email service/i, label: 'Email Service' },
+  { pattern: /twilio|vonage|\bsms\b/i, label: 'SMS Gateway' },
+  { pattern: /openai|anthropic|gemini|\bllm\b|vertex ai/i, label: 'AI Model API' },
+  { pattern: /google maps|mapbox/i, label: 'Maps API' },
+  { pattern: /cloudinary|imgix|uploadcare/i, label: 'Media Service' },
+];
+
+const GENERIC_ALIASES: Record<ParticipantKind, string[]> = {
+  client: ['user', 'users', 'client', 'browser', 'frontend', 'ui', 'mobile'],
+  gateway: ['gateway', 'proxy', 'cdn', 'load balancer', 'edge'],
+  service: ['api', 'server', 'backend', 'endpoint', 'service', 'controller', 'handler'],
+  database: ['database', 'db', 'stored', 'persist', 'persists', 'query', 'queries', 'table', 'record', 'records', 'orm', 'repository', 'repositories'],
+  cache: ['cache', 'cached', 'session store'],
+  queue: ['queue', 'queued', 'job', 'jobs', 'worker', 'event', 'events', 'message broker'],
+  external: [],
+};
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const classify = (technology: string) => TECHNOLOGY_MATCHERS.find(matcher => matcher.pattern.test(technology));
+
+export const inferArchitecture = (blueprint: Blueprint): ArchitectureDiagram => {
+  const participants: ArchParticipant[] = [];
+  const add = (participant: Omit<ArchParticipant, 'id'> & { id?: string }) => {
+    const id = participant.id || `${participant.kind}_${slug(participant.technology || participant.label)}`;
+    if (participants.some(existing => existing.id === id)) return;
+    participants.push({ ...participant, id });
+  };
+  const { frontend, backend, database, devOps } = blueprint.techStack;
+
+  add({ id: 'client', kind: 'client', label: 'Client', technology: frontend[0], aliases: [...GENERIC_ALIASES.client, ...frontend.map(t => t.toLowerCase())] });
+
+  [...devOps, ...backend].forEach(technology => {
+    const match = classify(technology);
+    if (match?.kind === 'gateway') add({ kind: 'gateway', label: match.label, technology, aliases: [...GENERIC_ALIASES.gateway, technology.toLowerCase()] });
+  });
+
+  const serviceTechs = backend.filter(technology => !classify(technology));
+  add({ id: 'api', kind: 'service', label: 'API Server', technology: serviceTechs[0], aliases: [...GENERIC_ALIASES.service, ...serviceTechs.map(t => t.toLowerCase())] });
+
+  [...database, ...backend, ...devOps].forEach(technology => {
+    const match = classify(technology);
+    if (!match || match.kind === 'gateway') return;
+    add({ kind: match.kind, label: match.label, technology, aliases: [technology.toLowerCase(), ...(match.label === 'Database' ? GENERIC_ALIASES.database : GENERIC_ALIASES[match.kind])] });
+  });
+  // A blueprint with models but no recognised database still persists somewhere
+  if (!participants.some(p => p.kind === 'database') && blueprint.databaseSchema.models.length > 0) {
+    add({ kind: 'database', label: 'Database', technology: database[0], aliases: GENERIC_ALIASES.database });
+  }
+  // A queue implies a background worker consuming it
+  if (participants.some(p => p.kind === 'queue')) {
+    add({ id: 'worker', kind: 'service', label: 'Worker', aliases: ['worker', 'background', 'consumer'] });
+  }
+
+  const corpus = [...blueprint.architecture.flowSteps, ...blueprint.authentication, ...backend, ...devOps].join('\n');
+  EXTERNAL_SERVICES.forEach(service => {
+    const match = corpus.match(service.pattern);
+    if (match) add({ kind: 'external', label: service.label, technology: match[0], aliases: [match[0].toLowerCase()] });
+  });
+
+  const byId = new Map(participants.map(p => [p.id, p]));
+  const api = byId.get('api')!;
+  const gateway = participants.find(p => p.kind === 'gateway');
+
+  const links: Array<{ from: string; to: string }> = [];
+  const link = (from: string, to: string) => {
+    if (from !== to && !links.some(l => l.from === from && l.to === to)) links.push({ from, to });
+  };
+  if (gateway) {
+    link('client', gateway.id);
+    link(gateway.id, api.id);
+  } else {
+    link('client', api.id);
+  }
+  participants.forEach(p => {
+    if (p.kind === 'database' || p.kind === 'cache' || p.kind === 'queue') link(api.id, p.id);
+    if (p.kind === 'external') link(api.id, p.id);
+    if (p.id === 'worker') participants.filter(q => q.kind === 'queue').forEach(queue => link(queue.id, 'worker'));
+  });
+  if (byId.has('worker')) participants.filter(p => p.kind === 'database').slice(0, 1).forEach(db => link('worker', db.id));
+
+  // Each step is read left to right: the participants it mentions, in order, are the hops of the message
+  const mentionIndex = (step: string, participant: ArchParticipant) => {
+    const text = step.toLowerCase();
+    const hits = participant.aliases
+      .map(alias => text.search(new RegExp(`\\b${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`)))
+      .filter(index => index >= 0);
+    return hits.length ? Math.min(...hits) : -1;
+  };
+
+  const interactions: ArchInteraction[] = [];
+  let cursor = 'client';
+  blueprint.architecture.flowSteps.forEach((step, stepIdx) => {
+    const mentioned = participants
+      .map(participant => ({ participant, index: mentionIndex(step, participant) }))
+      .filter(entry => entry.index >= 0)
+      .sort((a, b) => a.index - b.index)
+      .map(entry => entry.participant.id)
+      .filter((id, idx, ids) => ids.indexOf(id) === idx);
+
+    // Data stores and third parties only answer the API, so the next hop starts from there
+    const cursorKind = byId.get(cursor)!.kind;
+    if (cursorKind !== 'client' && cursorKind !== 'gateway' && cursorKind !== 'service') cursor = api.id;
+    const hops = mentioned.length === 0 ? [cursor, api.id] : mentioned.length === 1 ? [cursor, mentioned[0]] : mentioned;
+    if (hops[0] === hops[1] && hops.length === 2 && hops[0] !== api.id) hops[1] = api.id;
+    for (let i = 0; i < hops.length - 1; i++) {
+      interactions.push({ from: hops[i], to: hops[i + 1], label: step, step: stepIdx });
+      // Responses travel back along an existing link and do not add a component dependency
+      if (!links.some(l => l.from === hops[i + 1] && l.to === hops[i])) link(hops[i], hops[i + 1]);
+    }
+    cursor = hops[hops.length - 1];
+  });
+
+  return { participants, links, interactions };
+};
+
+export const participantTitle = (participant: ArchParticipant) =>
+  participant.technology && participant.technology !== participant.label ? `${participant.label} (${participant.technology})` : participant.label;
+
+// Mermaid and PlantUML both choke on some punctuation inside labels
+const label = (value: string, max = 80) => {
+  const clean = value.replace(/["`;#{}\[\]]/g, '').replace(/\s+/g, ' ').trim();
+  return clean.length > max ? clean.slice(0, max - 1) + '…' : clean;
+};
+
+const MERMAID_SHAPES: Record<ParticipantKind, [string, string]> = {
+  client: ['([', '])'],
+  gateway: ['{{', '}}'],
+  service: ['[', ']'],
+  database: ['[(', ')]'],
+  cache: ['[(', ')]'],
+  queue: ['[/', '/]'],
+  external: ['>', ']'],
+};
+
+export const toMermaidFlowchart = (diagram: ArchitectureDiagram): string => {
+  const lines = ['flowchart LR'];
+  diagram.participants.forEach(p => {
+    const [open, close] = MERMAID_SHAPES[p.kind];
+    lines.push(`    ${p.id}${open}"${label(participantTitle(p))}"${close}`);
+  });
+  diagram.links.forEach(l => lines.push(`    ${l.from} --> ${l.to}`));
+  return lines.join('\n') + '\n';
+};
+
+export const toMermaidSequence = (diagram: ArchitectureDiagram): string => {
+  const lines = ['sequenceDiagram', '    autonumber'];
+  diagram.participants.forEach(p => {
+    lines.push(`    ${p.kind === 'client' ? 'actor' : 'participant'} ${p.id} as ${label(participantTitle(p), 40)}`);
+  });
+  diagram.interactions.forEach(i => lines.push(`    ${i.from}->>${i.to}: ${label(i.label)}`));
+  return lines.join('\n') + '\n';
+};
+
+const PLANTUML_KEYWORDS: Record<ParticipantKind, string> = {
+  client: 'actor',
+  gateway: 'boundary',
+  service: 'participant',
+  database: 'database',
+  cache: 'database',
+  queue: 'queue',
+  external: 'cloud',
+};
+
+const PLANTUML_COMPONENTS: Record<ParticipantKind, string> = {
+  client: 'actor',
+  gateway: 'node',
+  service: 'component',
+  database: 'database',
+  cache: 'database',
+  queue: 'queue',
+  external: 'cloud',
+};
+
+export const toPlantUMLComponent = (diagram: ArchitectureDiagram): string => {
+  const lines = ['@startuml', 'left to right direction'];
+  diagram.participants.forEach(p => lines.push(`${PLANTUML_COMPONENTS[p.kind]} "${label(participantTitle(p), 40)}" as ${p.id}`));
+  diagram.links.forEach(l => lines.push(`${l.from} --> ${l.to}`));
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+};
+
+export const toPlantUMLSequence = (diagram: ArchitectureDiagram): string => {
+  const lines = ['@startuml', 'autonumber'];
+  // `cloud` is not a sequence participant type, so external APIs fall back to `entity`
+  diagram.participants.forEach(p => {
+    const keyword = p.kind === 'external' ? 'entity' : PLANTUML_KEYWORDS[p.kind];
+    lines.push(`${keyword} "${label(participantTitle(p), 40)}" as ${p.id}`);
+  });
+  diagram.interactions.forEach(i => lines.push(`${i.from} -> ${i.to} : ${label(i.label)}`));
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+};
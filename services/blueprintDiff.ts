@@ -0,0 +1,101 @@
+import { Blueprint, SchemaRelationship } from "../types";
+import { describeField, describeRelationship, findModel } from "./schema";
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface BlueprintChange {
+  kind: ChangeKind;
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+export interface BlueprintDiffSection {
+  key: string;
+  title: string;
+  changes: BlueprintChange[];
+}
+
+// Order-insensitive list diff; items are compared case-insensitively so "JWT" vs "jwt" is not noise
+const diffList = (label: string, before: string[] = [], after: string[] = []): BlueprintChange[] => {
+  const normalize = (value: string) => value.trim().toLowerCase();
+  const beforeSet = new Set(before.map(normalize));
+  const afterSet = new Set(after.map(normalize));
+
+  return [
+    ...before.filter(item => !afterSet.has(normalize(item))).map(item => ({ kind: 'removed' as const, label, before: item })),
+    ...after.filter(item => !beforeSet.has(normalize(item))).map(item => ({ kind: 'added' as const, label, after: item })),
+  ];
+};
+
+const diffValue = (label: string, before?: string, after?: string): BlueprintChange[] => {
+  if ((before || '') === (after || '')) return [];
+  return [{ kind: 'changed', label, before, after }];
+};
+
+// Keyed diff for schema entries: same key with a different description counts as a change
+const diffKeyed = <T>(label: string, before: T[], after: T[], key: (item: T) => string, describe: (item: T) => string): BlueprintChange[] => {
+  const beforeMap = new Map(before.map(item => [key(item).toLowerCase(), item]));
+  const afterMap = new Map(after.map(item => [key(item).toLowerCase(), item]));
+  const changes: BlueprintChange[] = [];
+
+  beforeMap.forEach((item, id) => {
+    if (!afterMap.has(id)) changes.push({ kind: 'removed', label, before: describe(item) });
+  });
+  afterMap.forEach((item, id) => {
+    const previous = beforeMap.get(id);
+    if (!previous) changes.push({ kind: 'added', label, after: describe(item) });
+    else if (describe(previous) !== describe(item)) changes.push({ kind: 'changed', label, before: describe(previous), after: describe(item) });
+  });
+  return changes;
+};
+
+// A model can reference the same target more than once (a message's sender and recipient), so the column tells them apart
+const relationshipKey = (relationship: SchemaRelationship) =>
+  `${relationship.target}:${relationship.foreignKey || relationship.cardinality}`;
+
+const TECH_STACK_LABELS: Record<keyof Blueprint['techStack'], string> = {
+  frontend: 'Frontend',
+  backend: 'Backend',
+  database: 'Database',
+  devOps: 'DevOps',
+};
+
+export const diffBlueprints = (before: Blueprint, after: Blueprint): BlueprintDiffSection[] => {
+  const overview = [
+    ...diffValue('App name', before.appName, after.appName),
+    ...diffValue('Tagline', before.tagline, after.tagline),
+    ...diffValue('Architecture pattern', before.architecture?.pattern, after.architecture?.pattern),
+  ];
+
+  const techStack = (Object.keys(TECH_STACK_LABELS) as Array<keyof Blueprint['techStack']>).flatMap(key =>
+    diffList(TECH_STACK_LABELS[key], before.techStack?.[key], after.techStack?.[key])
+  );
+
+  const beforeModels = before.databaseSchema?.models || [];
+  const afterModels = after.databaseSchema?.models || [];
+  const models: BlueprintChange[] = [
+    ...beforeModels.filter(model => !findModel(afterModels, model.name)).map(model => ({ kind: 'removed' as const, label: 'Model', before: model.name })),
+    ...afterModels.filter(model => !findModel(beforeModels, model.name)).map(model => ({ kind: 'added' as const, label: 'Model', after: model.name })),
+    ...afterModels.flatMap(model => {
+      const previous = findModel(beforeModels, model.name);
+      if (!previous) return [];
+      return [
+        ...diffKeyed(`${model.name} field`, previous.fields, model.fields, field => field.name, describeField),
+        ...diffKeyed(`${model.name} relationship`, previous.relationships, model.relationships, relationshipKey, describeRelationship),
+      ];
+    }),
+  ];
+
+  return [
+    { key: 'overview', title: 'Overview', changes: overview },
+    { key: 'techStack', title: 'Tech Stack', changes: techStack },
+    { key: 'models', title: 'Database Models', changes: models },
+    { key: 'flow', title: 'Request Flow', changes: diffList('Step', before.architecture?.flowSteps, after.architecture?.flowSteps) },
+    { key: 'authentication', title: 'Authentication', changes: diffList('Strategy', before.authentication, after.authentication) },
+    { key: 'securityFeatures', title: 'Security Features', changes: diffList('Feature', before.securityFeatures, after.securityFeatures) },
+  ];
+};
+
+export const countChanges = (sections: BlueprintDiffSection[]) =>
+  sections.reduce((total, section) => total + section.changes.length, 0);
@@ -0,0 +1,93 @@
+import { Blueprint } from "../types";
+import { findModel, foreignKeyOwner } from "./schema";
+
+export interface BlueprintIssue {
+  // Dotted path into the blueprint, e.g. "databaseSchema.models.2.name"
+  path: string;
+  message: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const checkList = (issues: BlueprintIssue[], path: string, items: string[], label: string) => {
+  items.forEach((item, idx) => {
+    if (!item.trim()) issues.push({ path: `${path}.${idx}`, message: `${label} ${idx + 1} is empty` });
+  });
+};
+
+export const validateBlueprint = (blueprint: Blueprint): BlueprintIssue[] => {
+  const issues: BlueprintIssue[] = [];
+
+  if (!blueprint.appName.trim()) issues.push({ path: 'appName', message: 'App name is required' });
+  if (!blueprint.summary.trim()) issues.push({ path: 'summary', message: 'Summary is required' });
+
+  (['frontend', 'backend', 'database', 'devOps'] as const).forEach(key => {
+    checkList(issues, `techStack.${key}`, blueprint.techStack[key], `${key} technology`);
+  });
+  if (blueprint.techStack.frontend.length === 0 && blueprint.techStack.backend.length === 0) {
+    issues.push({ path: 'techStack', message: 'Pick at least one frontend or backend technology' });
+  }
+
+  checkList(issues, 'authentication', blueprint.authentication, 'Auth strategy');
+  checkList(issues, 'securityFeatures', blueprint.securityFeatures, 'Security feature');
+
+  if (!blueprint.architecture.pattern.trim()) issues.push({ path: 'architecture.pattern', message: 'Architecture pattern is required' });
+  checkList(issues, 'architecture.flowSteps', blueprint.architecture.flowSteps, 'Flow step');
+
+  const seen = new Set<string>();
+  blueprint.databaseSchema.models.forEach((model, idx) => {
+    const path = `databaseSchema.models.${idx}`;
+    const name = model.name.trim();
+    if (!name) {
+      issues.push({ path: `${path}.name`, message: `Model ${idx + 1} needs a name` });
+    } else if (!IDENTIFIER.test(name)) {
+      issues.push({ path: `${path}.name`, message: `Model "${name}" must be a valid identifier (letters, digits, underscores)` });
+    } else if (seen.has(name.toLowerCase())) {
+      issues.push({ path: `${path}.name`, message: `Model "${name}" is defined more than once` });
+    }
+    seen.add(name.toLowerCase());
+
+    const label = name || `Model ${idx + 1}`;
+    if (model.fields.length === 0) issues.push({ path: `${path}.fields`, message: `${label} has no fields` });
+    else if (!model.fields.some(field => field.primaryKey)) issues.push({ path: `${path}.fields`, message: `${label} has no primary key` });
+
+    const fieldNames = new Set<string>();
+    model.fields.forEach((field, fieldIdx) => {
+      const fieldPath = `${path}.fields.${fieldIdx}`;
+      if (!IDENTIFIER.test(field.name)) {
+        issues.push({ path: fieldPath, message: `${label} field "${field.name || fieldIdx + 1}" must be a valid identifier` });
+      } else if (fieldNames.has(field.name.toLowerCase())) {
+        issues.push({ path: fieldPath, message: `${label} defines "${field.name}" more than once` });
+      }
+      fieldNames.add(field.name.toLowerCase());
+      if (field.primaryKey && field.nullable) issues.push({ path: fieldPath, message: `${label}.${field.name} is a primary key and cannot be nullable` });
+    });
+
+    model.relationships.forEach((relationship, relIdx) => {
+      const relPath = `${path}.relationships.${relIdx}`;
+      const target = findModel(blueprint.databaseSchema.models, relationship.target);
+      if (!target) {
+        issues.push({ path: relPath, message: `${label} relates to unknown model "${relationship.target}"` });
+        return;
+      }
+      const ownerName = foreignKeyOwner(model, relationship);
+      const owner = ownerName ? findModel(blueprint.databaseSchema.models, ownerName) : undefined;
+      if (relationship.foreignKey && owner && !owner.fields.some(field => field.name === relationship.foreignKey)) {
+        issues.push({ path: relPath, message: `Foreign key "${relationship.foreignKey}" does not exist on ${owner.name}` });
+      }
+      if (relationship.onDelete === 'SET NULL' && owner && relationship.foreignKey) {
+        const column = owner.fields.find(field => field.name === relationship.foreignKey);
+        if (column && !column.nullable) issues.push({ path: relPath, message: `ON DELETE SET NULL needs ${owner.name}.${column.name} to be nullable` });
+      }
+    });
+  });
+
+  (['frontend', 'backend', 'devOps', 'security'] as const).forEach(key => {
+    const score = blueprint.estimatedComplexity[key];
+    if (!Number.isFinite(score) || score < 0 || score > 100) {
+      issues.push({ path: `estimatedComplexity.${key}`, message: `${key} complexity must be between 0 and 100` });
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,173 @@
+import { applyFileChanges, parseFiles } from "./fileProtocol";
+
+export type DiffLineKind = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  // 1-based line numbers on each side; absent on the side the line does not exist in
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export type FileDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FileDiff {
+  name: string;
+  status: FileDiffStatus;
+  before?: string;
+  after?: string;
+  lines: DiffLine[];
+  additions: number;
+  deletions: number;
+}
+
+// Beyond this many edits a line diff is not worth reading; the file is shown as replaced
+const MAX_EDIT_DISTANCE = 1000;
+
+type Edit = { kind: DiffLineKind; oldIndex: number; newIndex: number };
+
+// Myers' O(ND) shortest edit script over lines
+const shortestEdit = (a: string[], b: string[]): Edit[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m, offset);
+    }
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number, offset: number): Edit[] => {
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      edits.push({ kind: 'equal', oldIndex: x, newIndex: y });
+    }
+    if (d === 0) break;
+    if (x === prevX) edits.push({ kind: 'added', oldIndex: x, newIndex: prevY });
+    else edits.push({ kind: 'removed', oldIndex: prevX, newIndex: y });
+    x = prevX;
+    y = prevY;
+  }
+  return edits.reverse();
+};
+
+const splitLines = (text: string) => (text ? text.split('\n') : []);
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Most regenerations keep the start and end of a file; only diff the middle
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const edits = shortestEdit(middleA, middleB) ?? [
+    ...middleA.map((_, idx) => ({ kind: 'removed' as const, oldIndex: idx, newIndex: 0 })),
+    ...middleB.map((_, idx) => ({ kind: 'added' as const, oldIndex: middleA.length, newIndex: idx })),
+  ];
+
+  const equal = (oldIndex: number, newIndex: number): DiffLine =>
+    ({ kind: 'equal', text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+
+  return [
+    ...a.slice(0, prefix).map((_, idx) => equal(idx, idx)),
+    ...edits.map((edit): DiffLine => {
+      const oldIndex = prefix + edit.oldIndex;
+      const newIndex = prefix + edit.newIndex;
+      if (edit.kind === 'added') return { kind: 'added', text: b[newIndex], newLine: newIndex + 1 };
+      if (edit.kind === 'removed') return { kind: 'removed', text: a[oldIndex], oldLine: oldIndex + 1 };
+      return equal(oldIndex, newIndex);
+    }),
+    ...a.slice(a.length - suffix).map((_, idx) => equal(a.length - suffix + idx, b.length - suffix + idx)),
+  ];
+};
+
+// Groups changed lines with `context` unchanged lines around them, like a unified diff
+export const toHunks = (lines: DiffLine[], context = 3): DiffHunk[] => {
+  const shown = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, idx) => {
+    if (line.kind === 'equal') return;
+    for (let at = Math.max(0, idx - context); at <= Math.min(lines.length - 1, idx + context); at++) shown[at] = true;
+  });
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldSeen = 0;
+  let newSeen = 0;
+  lines.forEach((line, idx) => {
+    if (!shown[idx]) {
+      current = null;
+    } else {
+      if (!current) {
+        current = { oldStart: oldSeen + 1, newStart: newSeen + 1, lines: [] };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+    }
+    if (line.kind !== 'added') oldSeen++;
+    if (line.kind !== 'removed') newSeen++;
+  });
+  return hunks;
+};
+
+// A serialized module's files after applying its actions, by name
+export const moduleFiles = (content: string): Map<string, string> =>
+  new Map(applyFileChanges([], parseFiles(content)).files.map(file => [file.name, file.content]));
+
+// Comparison of one file's two versions; a missing side means the file was added or removed
+export const diffFile = (name: string, before?: string, after?: string): FileDiff => {
+  const status: FileDiffStatus = before === undefined ? 'added' : after === undefined ? 'removed' : before === after ? 'unchanged' : 'changed';
+  const lines = status === 'unchanged' ? [] : diffLines(before ?? '', after ?? '');
+  return {
+    name,
+    status,
+    before,
+    after,
+    lines,
+    additions: lines.filter(line => line.kind === 'added').length,
+    deletions: lines.filter(line => line.kind === 'removed').length,
+  };
+};
+
+// File-level comparison of two serialized modules, in the newer module's file order with removed files last
+export const diffModules = (before: string, after: string): FileDiff[] => {
+  const oldFiles = moduleFiles(before);
+  const newFiles = moduleFiles(after);
+  const names = [...newFiles.keys(), ...[...oldFiles.keys()].filter(name => !newFiles.has(name))];
+  return names.map(name => diffFile(name, oldFiles.get(name), newFiles.get(name)));
+};
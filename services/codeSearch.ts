@@ -0,0 +1,85 @@
+import { FileEntry } from './fileProtocol';
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  regex: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  // 1-based, like editor positions
+  line: number;
+  column: number;
+  length: number;
+  // The matched line, shortened around the match; `previewStart` is where the match begins in it
+  preview: string;
+  previewStart: number;
+}
+
+export interface FileSearchResult {
+  name: string;
+  matches: SearchMatch[];
+}
+
+// Results stop being useful well before this, and rendering them all would stall the panel
+export const MAX_SEARCH_MATCHES = 1000;
+const PREVIEW_CONTEXT = 40;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Null for an empty query or an invalid regular expression
+export const buildSearchPattern = (query: string, options: SearchOptions): RegExp | null => {
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  try {
+    return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+  } catch {
+    return null;
+  }
+};
+
+const previewOf = (lineText: string, column: number, length: number) => {
+  const from = Math.max(0, column - PREVIEW_CONTEXT);
+  const before = (from > 0 ? '…' : '') + lineText.slice(from, column).trimStart();
+  return { preview: before + lineText.slice(column, column + length + PREVIEW_CONTEXT * 2), previewStart: before.length };
+};
+
+export const searchFiles = (files: FileEntry[], query: string, options: SearchOptions): FileSearchResult[] => {
+  const pattern = buildSearchPattern(query, options);
+  if (!pattern) return [];
+
+  const results: FileSearchResult[] = [];
+  let total = 0;
+  for (const file of files) {
+    if (total >= MAX_SEARCH_MATCHES) break;
+    const matches: SearchMatch[] = [];
+    file.content.split('\n').forEach((lineText, index) => {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while (total < MAX_SEARCH_MATCHES && (match = pattern.exec(lineText))) {
+        // Patterns like `^` or `x*` can match nothing; step past them instead of looping forever
+        if (match[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        matches.push({ line: index + 1, column: match.index + 1, length: match[0].length, ...previewOf(lineText, match.index, match[0].length) });
+        total++;
+      }
+    });
+    if (matches.length > 0) results.push({ name: file.name, matches });
+  }
+  return results;
+};
+
+// Returns only the files whose content changed; regex replacements may use `$1`-style references
+export const replaceInFiles = (files: FileEntry[], query: string, replacement: string, options: SearchOptions): FileEntry[] => {
+  const pattern = buildSearchPattern(query, options);
+  if (!pattern) return [];
+  return files.flatMap(file => {
+    const content = options.regex
+      ? file.content.replace(pattern, replacement)
+      : file.content.replace(pattern, () => replacement);
+    return content === file.content ? [] : [{ name: file.name, content }];
+  });
+};
@@ -0,0 +1,31 @@
+export const COMPANION_URL = process.env.COMPANION_URL || 'http://localhost:4319';
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+export class CompanionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompanionError';
+  }
+}
+
+/**
+ * POSTs JSON to a companion server route and returns its JSON response. Throws a CompanionError
+ * when the server is not running or rejects the request.
+ */
+export const callCompanion = async <T>(route: string, body: unknown, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${COMPANION_URL}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch {
+    throw new CompanionError(`The companion server at ${COMPANION_URL} is not reachable. Start it with "npm run companion".`);
+  }
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) throw new CompanionError(payload?.error || `The companion server responded with ${response.status}`);
+  return payload as T;
+};
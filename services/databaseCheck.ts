@@ -0,0 +1,60 @@
+import { DatabaseCheckResult, SchemaModel } from "../types";
+import { parseFiles } from "./fileProtocol";
+import { snakeCase, tableName } from "./schemaGraph";
+import { callCompanion } from "./companion";
+
+export interface DatabaseUrlSource {
+  url: string;
+  // Generated file the URL was read from
+  file: string;
+}
+
+const URL_PATTERN = /DATABASE_URL\s*[=:]\s*["']?([a-z][\w+.-]*:\/\/[^"'\s]+|file:[^"'\s]+)/i;
+
+// Real .env files win over examples, which win over URLs embedded in compose files or docs
+const sourceRank = (name: string) => {
+  const base = name.split('/').pop()!;
+  if (base === '.env') return 0;
+  if (base.startsWith('.env')) return 1;
+  return 2;
+};
+
+export const findDatabaseUrl = (modules: string[]): DatabaseUrlSource | null => {
+  const files = modules.flatMap(content => parseFiles(content)).sort((a, b) => sourceRank(a.name) - sourceRank(b.name));
+  for (const file of files) {
+    const match = file.content.match(URL_PATTERN);
+    // Compose files often interpolate (${DB_PASSWORD}); those cannot be connected to as written
+    if (match && !match[1].includes('${')) return { url: match[1], file: file.name };
+  }
+  return null;
+};
+
+export const maskPassword = (url: string) => url.replace(/(\/\/[^:/@]+:)[^@]*@/, '$1****@');
+
+/**
+ * Asks the companion server to connect to `url`. When the companion is not running the
+ * result is a `companion` failure rather than a thrown error.
+ */
+export const runDatabaseCheck = async (url: string): Promise<DatabaseCheckResult> => {
+  try {
+    return await callCompanion<DatabaseCheckResult>('/db/check', { url });
+  } catch (error) {
+    return { ok: false, kind: 'companion', message: (error as Error).message };
+  }
+};
+
+export interface ModelTableMatch {
+  model: string;
+  // Table the model maps to in the database, if one exists
+  table: string | null;
+}
+
+// ORMs name tables after the model (Prisma), in snake_case, or pluralized (the SQL export)
+export const matchModelTables = (models: SchemaModel[], tables: string[]): ModelTableMatch[] => {
+  const byName = new Map(tables.map(table => [table.split('.').pop()!.toLowerCase(), table]));
+  return models.map(model => {
+    const candidates = [model.name, snakeCase(model.name), tableName(model.name), `${model.name}s`].map(name => name.toLowerCase());
+    const found = candidates.find(candidate => byName.has(candidate));
+    return { model: model.name, table: found ? byName.get(found)! : null };
+  });
+};
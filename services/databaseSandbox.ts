@@ -0,0 +1,288 @@
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { SchemaField, SchemaModel } from "../types";
+import { FileEntry } from "./fileProtocol";
+import { SchemaGraph, buildSchemaGraph, primaryKeyOf, snakeCase, tableName } from "./schemaGraph";
+import { generateDDL } from "./sqlExport";
+
+const FAKE_ROWS_PER_MODEL = 8;
+
+export interface SandboxColumn {
+  name: string;
+  type: string;
+  primaryKey: boolean;
+  notNull: boolean;
+}
+
+export interface SandboxForeignKey {
+  column: string;
+  table: string;
+  targetColumn: string;
+}
+
+export interface SandboxTable {
+  name: string;
+  rowCount: number;
+  columns: SandboxColumn[];
+  foreignKeys: SandboxForeignKey[];
+}
+
+export interface SeedReport {
+  // Generated seed SQL files that were run, and the statements in them that SQLite rejected
+  seedFiles: string[];
+  statements: number;
+  failed: Array<{ statement: string; message: string }>;
+  // Tables the seed files left empty, filled with synthesized rows instead
+  synthesized: string[];
+  // Rows whose foreign key points at a row that does not exist
+  violations: Array<{ table: string; rowid: number; parent: string }>;
+}
+
+export interface QueryResultSet {
+  columns: string[];
+  rows: SqlValue[][];
+}
+
+export interface QueryResult {
+  sets: QueryResultSet[];
+  rowsModified: number;
+  durationMs: number;
+}
+
+let engine: Promise<SqlJsStatic> | null = null;
+
+// sql.js and its WASM binary are only fetched once a sandbox is started
+const loadEngine = () => {
+  if (!engine) {
+    engine = import('sql.js')
+      .then(module => module.default({ locateFile: () => sqlWasmUrl }))
+      .catch(error => {
+        engine = null;
+        throw error;
+      });
+  }
+  return engine;
+};
+
+export const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Small seeded PRNG so the same schema always gets the same sample rows
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const FIRST_NAMES = ['Ada', 'Grace', 'Alan', 'Linus', 'Margaret', 'Dennis', 'Barbara', 'Ken', 'Radia', 'Edsger'];
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Turing', 'Torvalds', 'Hamilton', 'Ritchie', 'Liskov', 'Thompson', 'Perlman', 'Dijkstra'];
+const WORDS = ['alpha', 'bravo', 'cedar', 'delta', 'ember', 'fjord', 'garnet', 'harbor', 'indigo', 'juniper', 'kestrel', 'lumen'];
+const STATUSES = ['active', 'pending', 'archived'];
+const BASE_TIME = Date.UTC(2025, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fakeUuid = (random: () => number) =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const nibble = Math.floor(random() * 16);
+    return (char === 'x' ? nibble : (nibble & 0x3) | 0x8).toString(16);
+  });
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// A plausible value for a column, guessed from its type and name
+const fakeValue = (field: SchemaField, index: number, random: () => number): SqlValue => {
+  const name = field.name.toLowerCase();
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const unique = field.unique || field.primaryKey;
+
+  switch (field.type) {
+    case 'uuid':
+      return fakeUuid(random);
+    case 'integer':
+    case 'bigint':
+      return unique ? index + 1 : Math.floor(random() * 100) + 1;
+    case 'float':
+    case 'decimal':
+      return Math.round(random() * 100000) / 100;
+    case 'boolean':
+      return random() < 0.5 ? 1 : 0;
+    case 'datetime':
+      return new Date(BASE_TIME - Math.floor(random() * 90 * DAY_MS)).toISOString();
+    case 'date':
+      return new Date(BASE_TIME - Math.floor(random() * 365) * DAY_MS).toISOString().slice(0, 10);
+    case 'json':
+      return JSON.stringify({ sample: index + 1 });
+    case 'enum':
+      return field.defaultValue?.replace(/^['"]|['"]$/g, '') || pick(STATUSES);
+    case 'text':
+      return `${capitalize(pick(WORDS))} ${pick(WORDS)} ${pick(WORDS)} ${pick(WORDS)}.`;
+  }
+
+  const first = FIRST_NAMES[index % FIRST_NAMES.length];
+  const last = LAST_NAMES[(index * 3) % LAST_NAMES.length];
+  if (name.includes('email')) return `${first}.${last}${index + 1}@example.com`.toLowerCase();
+  if (/first_?name/.test(name)) return first;
+  if (/last_?name|surname/.test(name)) return last;
+  if (/password|hash|secret|token/.test(name)) return `hashed-${fakeUuid(random).slice(0, 8)}`;
+  if (/url|website|avatar|image|photo/.test(name)) return `https://example.com/${snakeCase(field.name)}/${index + 1}`;
+  if (name.includes('phone')) return `+1-555-01${String(index).padStart(2, '0')}`;
+  if (name.includes('slug')) return `${pick(WORDS)}-${index + 1}`;
+  if (/status|state/.test(name)) return unique ? `${pick(STATUSES)}-${index + 1}` : pick(STATUSES);
+  if (name.includes('role')) return unique ? `role-${index + 1}` : pick(['admin', 'member', 'viewer']);
+  if (/name$/.test(name)) return `${first} ${last}${unique ? ` ${index + 1}` : ''}`;
+  return `${capitalize(pick(WORDS))} ${pick(WORDS)}${unique ? ` ${index + 1}` : ''}`;
+};
+
+const splitStatements = (sql: string) =>
+  sql
+    .split(/;\s*(?:\r?\n|$)/)
+    .map(statement => statement.replace(/^\s*--.*$/gm, '').trim())
+    .filter(Boolean);
+
+const isSeedFile = (name: string) => /seed/i.test(name) && name.toLowerCase().endsWith('.sql');
+
+/**
+ * A throwaway SQLite database built from the blueprint schema, running entirely in the
+ * browser. Seed SQL from the generated backend is run first; tables it leaves empty get
+ * synthesized rows whose foreign keys point at real parent rows.
+ */
+export class DatabaseSandbox {
+  private constructor(private db: Database, readonly seedReport: SeedReport) {}
+
+  static async create(models: SchemaModel[], backendFiles: FileEntry[] = []): Promise<DatabaseSandbox> {
+    const SQL = await loadEngine();
+    const db = new SQL.Database();
+    // Common PostgreSQL and MySQL functions, so generated seed SQL has a chance of running as is
+    const uuid = () => fakeUuid(Math.random);
+    db.create_function('gen_random_uuid', uuid);
+    db.create_function('uuid_generate_v4', uuid);
+    db.create_function('uuid', uuid);
+    db.create_function('now', () => new Date().toISOString());
+
+    try {
+      const graph = buildSchemaGraph(models);
+      db.exec(generateDDL(graph, 'sqlite'));
+      db.exec('PRAGMA foreign_keys = OFF');
+      const report = DatabaseSandbox.runSeedFiles(db, backendFiles.filter(file => isSeedFile(file.name)));
+      report.synthesized = DatabaseSandbox.synthesizeRows(db, graph);
+      db.exec('PRAGMA foreign_keys = ON');
+      const check = db.exec('PRAGMA foreign_key_check')[0];
+      report.violations = (check?.values || []).map(([table, rowid, parent]) => ({ table: String(table), rowid: Number(rowid), parent: String(parent) }));
+      return new DatabaseSandbox(db, report);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+  }
+
+  private static runSeedFiles(db: Database, files: FileEntry[]): SeedReport {
+    const report: SeedReport = { seedFiles: files.map(file => file.name), statements: 0, failed: [], synthesized: [], violations: [] };
+    files.forEach(file => splitStatements(file.content).forEach(statement => {
+      report.statements++;
+      try {
+        db.exec(statement);
+      } catch (error) {
+        report.failed.push({ statement, message: (error as Error).message });
+      }
+    }));
+    return report;
+  }
+
+  private static synthesizeRows(db: Database, graph: SchemaGraph): string[] {
+    const random = mulberry32(graph.models.length * 7919 + 17);
+    const synthesized: string[] = [];
+    const count = (table: string) => Number(db.exec(`SELECT COUNT(*) FROM ${quoteIdentifier(table)}`)[0].values[0][0]);
+
+    // Primary keys of every model, existing or planned, so foreign keys can point at them in any insert order
+    const keys = new Map<string, SqlValue[]>();
+    const empty = new Set<string>();
+    graph.models.forEach(model => {
+      const table = tableName(model.name);
+      const pk = primaryKeyOf(model);
+      if (count(table) > 0) {
+        const existing = db.exec(`SELECT ${quoteIdentifier(snakeCase(pk.name))} FROM ${quoteIdentifier(table)}`)[0];
+        keys.set(model.name, existing?.values.map(row => row[0]) || []);
+        return;
+      }
+      empty.add(model.name);
+      keys.set(model.name, Array.from({ length: FAKE_ROWS_PER_MODEL }, (_, idx) => fakeValue({ ...pk, unique: true }, idx, random)));
+    });
+
+    graph.models.filter(model => empty.has(model.name)).forEach(model => {
+      const table = tableName(model.name);
+      const columns = graph.columns.get(model.name) || [];
+      const pk = primaryKeyOf(model);
+      const statement = db.prepare(
+        `INSERT INTO ${quoteIdentifier(table)} (${columns.map(field => quoteIdentifier(snakeCase(field.name))).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+      );
+      let inserted = 0;
+      keys.get(model.name)!.forEach((key, idx) => {
+        const values = columns.map(field => {
+          if (field.name === pk.name) return key;
+          const link = graph.foreignKeys.find(fk => fk.owner === model.name && fk.column === field.name);
+          if (!link) return fakeValue(field, idx, random);
+          const parents = keys.get(link.target) || [];
+          // One-to-one links need a different parent per row
+          if (link.unique) return parents[idx] ?? null;
+          return parents.length > 0 ? parents[Math.floor(random() * parents.length)] : null;
+        });
+        try {
+          statement.run(values);
+          inserted++;
+        } catch {
+          // A generated value tripped a constraint the heuristics do not know about; skip the row
+        }
+      });
+      statement.free();
+      if (inserted > 0) synthesized.push(table);
+    });
+
+    graph.manyToMany.forEach(link => {
+      if (count(link.table) > 0) return;
+      const left = keys.get(link.left) || [];
+      const right = keys.get(link.right) || [];
+      if (left.length === 0 || right.length === 0) return;
+      const statement = db.prepare(`INSERT OR IGNORE INTO ${quoteIdentifier(link.table)} (${quoteIdentifier(link.leftColumn)}, ${quoteIdentifier(link.rightColumn)}) VALUES (?, ?)`);
+      left.forEach(leftKey => {
+        for (let pair = 0; pair < 2; pair++) statement.run([leftKey, right[Math.floor(random() * right.length)]]);
+      });
+      statement.free();
+      synthesized.push(link.table);
+    });
+
+    return synthesized;
+  }
+
+  tables(): SandboxTable[] {
+    const names = this.db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")[0];
+    return (names?.values || []).map(([value]) => {
+      const name = String(value);
+      const table = quoteIdentifier(name);
+      const columns = this.db.exec(`PRAGMA table_info(${table})`)[0]?.values || [];
+      const foreignKeys = this.db.exec(`PRAGMA foreign_key_list(${table})`)[0]?.values || [];
+      return {
+        name,
+        rowCount: Number(this.db.exec(`SELECT COUNT(*) FROM ${table}`)[0].values[0][0]),
+        // table_info rows: cid, name, type, notnull, dflt_value, pk
+        columns: columns.map(([, column, type, notNull, , pk]) => ({ name: String(column), type: String(type), notNull: Boolean(notNull), primaryKey: Number(pk) > 0 })),
+        // foreign_key_list rows: id, seq, table, from, to, ...
+        foreignKeys: foreignKeys.map(([, , target, from, to]) => ({ column: String(from), table: String(target), targetColumn: String(to) })),
+      };
+    });
+  }
+
+  // Runs one or more statements; throws SQLite's error for the first one that fails
+  query(sql: string, params?: SqlValue[]): QueryResult {
+    const start = performance.now();
+    const sets = this.db.exec(sql, params).map(set => ({ columns: set.columns, rows: set.values }));
+    return { sets, rowsModified: this.db.getRowsModified(), durationMs: Math.round((performance.now() - start) * 10) / 10 };
+  }
+
+  export(): Uint8Array {
+    return this.db.export();
+  }
+
+  close() {
+    this.db.close();
+  }
+}
@@ -0,0 +1,67 @@
+export interface DiagramBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const downloadFile = (filename: string, content: Blob | string, type = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+// Standalone SVG markup for the content group of an on-screen diagram, ignoring the current pan/zoom.
+// Diagrams must style their SVG with attributes rather than Tailwind classes for the export to look the same.
+export const serializeSvg = (svg: SVGSVGElement, bounds: DiagramBounds, background = '#0f1117'): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll('[data-viewport]').forEach(node => node.removeAttribute('transform'));
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('viewBox', `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`);
+  clone.setAttribute('width', String(Math.ceil(bounds.width)));
+  clone.setAttribute('height', String(Math.ceil(bounds.height)));
+  clone.removeAttribute('class');
+  clone.removeAttribute('style');
+
+  const backdrop = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  backdrop.setAttribute('x', String(bounds.x));
+  backdrop.setAttribute('y', String(bounds.y));
+  backdrop.setAttribute('width', String(bounds.width));
+  backdrop.setAttribute('height', String(bounds.height));
+  backdrop.setAttribute('fill', background);
+  clone.insertBefore(backdrop, clone.firstChild);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+};
+
+export const svgToPng = (markup: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = window.URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(width * scale);
+      canvas.height = Math.ceil(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        window.URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available in this browser'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      window.URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))), 'image/png');
+    };
+    image.onerror = () => {
+      window.URL.revokeObjectURL(url);
+      reject(new Error('Failed to render SVG'));
+    };
+    image.src = url;
+  });
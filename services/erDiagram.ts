@@ -0,0 +1,165 @@
+import { FieldType, SchemaModel } from "../types";
+import { buildSchemaGraph } from "./schemaGraph";
+
+export const ER_NODE_WIDTH = 240;
+export const ER_HEADER_HEIGHT = 34;
+export const ER_ROW_HEIGHT = 22;
+const COLUMN_GAP = 140;
+const ROW_GAP = 48;
+
+export interface ERColumn {
+  name: string;
+  type: FieldType;
+  primaryKey: boolean;
+  foreignKey: boolean;
+  unique: boolean;
+  nullable: boolean;
+}
+
+export interface ERNode {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  columns: ERColumn[];
+}
+
+export interface EREdge {
+  id: string;
+  // `from` holds the foreign key (the "many" side); `to` is the referenced model
+  from: string;
+  to: string;
+  fromColumn: string;
+  toColumn: string;
+  cardinality: 'one-to-one' | 'one-to-many' | 'many-to-many';
+  optional: boolean;
+  label: string;
+}
+
+export interface ERDiagram {
+  nodes: ERNode[];
+  edges: EREdge[];
+}
+
+export const nodeHeight = (columns: number) => ER_HEADER_HEIGHT + Math.max(columns, 1) * ER_ROW_HEIGHT + 8;
+
+// Vertical centre of a column row, used to anchor edges; unknown columns anchor to the header
+export const columnAnchorY = (node: ERNode, column: string) => {
+  const idx = node.columns.findIndex(col => col.name === column);
+  return idx === -1 ? node.y + ER_HEADER_HEIGHT / 2 : node.y + ER_HEADER_HEIGHT + idx * ER_ROW_HEIGHT + ER_ROW_HEIGHT / 2;
+};
+
+export const diagramBounds = (nodes: ERNode[], padding = 24) => {
+  if (nodes.length === 0) return { x: 0, y: 0, width: padding * 2, height: padding * 2 };
+  const minX = Math.min(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxX = Math.max(...nodes.map(node => node.x + node.width));
+  const maxY = Math.max(...nodes.map(node => node.y + node.height));
+  return { x: minX - padding, y: minY - padding, width: maxX - minX + padding * 2, height: maxY - minY + padding * 2 };
+};
+
+// Layered layout: referenced tables sit to the left of the tables that point at them
+export const buildERDiagram = (models: SchemaModel[]): ERDiagram => {
+  const graph = buildSchemaGraph(models);
+
+  const edges: EREdge[] = [
+    ...graph.foreignKeys.map(link => {
+      const column = (graph.columns.get(link.owner) || []).find(field => field.name === link.column);
+      return {
+        id: `${link.owner}.${link.column}`,
+        from: link.owner,
+        to: link.target,
+        fromColumn: link.column,
+        toColumn: link.targetColumn,
+        cardinality: link.unique ? 'one-to-one' as const : 'one-to-many' as const,
+        optional: Boolean(column?.nullable),
+        label: link.ownerProperty,
+      };
+    }),
+    ...graph.manyToMany.map(link => ({
+      id: link.table,
+      from: link.left,
+      to: link.right,
+      fromColumn: '',
+      toColumn: '',
+      cardinality: 'many-to-many' as const,
+      optional: true,
+      label: link.table,
+    })),
+  ];
+
+  const ranks = new Map<string, number>();
+  const rankOf = (name: string, visiting: Set<string>): number => {
+    if (ranks.has(name)) return ranks.get(name)!;
+    if (visiting.has(name)) return 0;
+    visiting.add(name);
+    const parents = graph.foreignKeys.filter(link => link.owner === name && link.target !== name);
+    const rank = parents.length === 0 ? 0 : 1 + Math.max(...parents.map(link => rankOf(link.target, visiting)));
+    visiting.delete(name);
+    ranks.set(name, rank);
+    return rank;
+  };
+  models.forEach(model => rankOf(model.name, new Set()));
+
+  const layers: string[][] = [];
+  models.forEach(model => {
+    const rank = ranks.get(model.name) || 0;
+    (layers[rank] = layers[rank] || []).push(model.name);
+  });
+
+  // Order each layer by the average row of its parents to keep edges from crossing
+  const rowOf = new Map<string, number>();
+  const nodes: ERNode[] = [];
+  layers.forEach((layer, rank) => {
+    const ordered = rank === 0 ? layer : [...layer].sort((a, b) => {
+      const centre = (name: string) => {
+        const rows = graph.foreignKeys.filter(link => link.owner === name && rowOf.has(link.target)).map(link => rowOf.get(link.target)!);
+        return rows.length ? rows.reduce((sum, row) => sum + row, 0) / rows.length : Number.MAX_SAFE_INTEGER;
+      };
+      return centre(a) - centre(b);
+    });
+
+    let y = 0;
+    ordered.forEach((name, row) => {
+      rowOf.set(name, row);
+      const columns = (graph.columns.get(name) || []).map(field => ({
+        name: field.name,
+        type: field.type,
+        primaryKey: field.primaryKey,
+        foreignKey: graph.foreignKeys.some(link => link.owner === name && link.column === field.name),
+        unique: field.unique,
+        nullable: field.nullable,
+      }));
+      const height = nodeHeight(columns.length);
+      nodes.push({ name, x: rank * (ER_NODE_WIDTH + COLUMN_GAP), y, width: ER_NODE_WIDTH, height, columns });
+      y += height + ROW_GAP;
+    });
+  });
+
+  return { nodes, edges };
+};
+
+const MERMAID_CARDINALITY: Record<EREdge['cardinality'], (optional: boolean) => string> = {
+  'one-to-one': optional => optional ? '|o--o|' : '||--o|',
+  'one-to-many': optional => optional ? '|o--o{' : '||--o{',
+  'many-to-many': () => '}o--o{',
+};
+
+// Mermaid `erDiagram` text; relationships are written parent-first to match Mermaid's left-to-right reading
+export const toMermaidER = (diagram: ERDiagram): string => {
+  const lines = ['erDiagram'];
+  diagram.edges.forEach(edge => {
+    const [left, right] = edge.cardinality === 'many-to-many' ? [edge.from, edge.to] : [edge.to, edge.from];
+    lines.push(`    ${left} ${MERMAID_CARDINALITY[edge.cardinality](edge.optional)} ${right} : "${edge.label}"`);
+  });
+  diagram.nodes.forEach(node => {
+    lines.push(`    ${node.name} {`);
+    node.columns.forEach(column => {
+      const keys = [column.primaryKey && 'PK', column.foreignKey && 'FK', column.unique && !column.primaryKey && 'UK'].filter(Boolean);
+      lines.push(`        ${column.type} ${column.name}${keys.length ? ' ' + keys.join(', ') : ''}`);
+    });
+    lines.push('    }');
+  });
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,330 @@
+/**
+ * The `<file name="...">` block format used by generated modules and locally generated exports.
+ *
+ *   <file name="src/App.tsx" language="tsx">...</file>
+ *   <file name="src/lib/api.ts" action="patch">unified diff</file>
+ *   <file name="src/old.ts" action="delete" />
+ *
+ * Content that itself contains `</file>` is wrapped in `<![CDATA[...]]>`. Text between blocks
+ * (commentary, stray markdown fences) is ignored.
+ */
+export interface FileEntry {
+  name: string;
+  content: string;
+}
+
+export type FileAction = 'create' | 'patch' | 'delete';
+
+export interface StreamedFile extends FileEntry {
+  action: FileAction;
+  language?: string;
+  // False while the closing tag has not arrived (or never did, for truncated output)
+  complete: boolean;
+}
+
+// A change to fold onto existing files; `action` defaults to create
+export type FileChange = FileEntry & { action?: FileAction };
+
+export type FileEvent =
+  | { type: 'file-start'; name: string; action: FileAction; language?: string }
+  // Raw text as it arrives; fences and surrounding whitespace are only stripped from `StreamedFile.content`
+  | { type: 'chunk'; name: string; text: string }
+  | { type: 'file-end'; name: string; content: string };
+
+const OPEN_TAG = '<file';
+const CLOSE_TAG = '</file>';
+const CDATA_OPEN = '<![CDATA[';
+const CDATA_CLOSE = ']]>';
+const ACTIONS: FileAction[] = ['create', 'patch', 'delete'];
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = match[2] ?? match[3];
+  }
+  return attributes;
+};
+
+const OPENING_FENCE = /^```[\w.+-]*[ \t]*(?:\n|$)/;
+
+// Models sometimes wrap a file's content in a markdown fence even when told not to. The fence is
+// only removed as a matched pair around the whole content, so a markdown file that merely starts
+// or ends with a code block is left alone; while streaming, a leading fence is hidden tentatively.
+const cleanContent = (raw: string, complete: boolean) => {
+  const content = raw.trim();
+  const opening = content.match(OPENING_FENCE);
+  if (!opening) return content;
+  const inner = content.slice(opening[0].length);
+  if (!complete) return inner.trim();
+  const closing = inner.match(/(?:^|\n)```$/);
+  if (!closing) return content;
+  const body = inner.slice(0, closing.index);
+  // A fence inside means the content is several code blocks, not one wrapped file
+  return /(^|\n)```/.test(body) ? content : body.trim();
+};
+
+// CDATA content is literal apart from the newlines serializeFiles puts inside the markers
+const cleanCData = (raw: string) => raw.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+
+// Longest suffix of `text` that is a proper prefix of `token`, i.e. a token that may be split across chunks
+const partialSuffix = (text: string, token: string) => {
+  for (let length = Math.min(token.length - 1, text.length); length > 0; length--) {
+    if (token.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+};
+
+interface OpenFile {
+  name: string;
+  action: FileAction;
+  language?: string;
+  raw: string;
+  cdata: boolean;
+}
+
+type ParserState = 'outside' | 'body-start' | 'body' | 'cdata' | 'after-cdata';
+
+/**
+ * Incremental parser for the file protocol. Each `push()` only scans the new text plus a few
+ * held-back characters, so feeding a streamed module chunk by chunk stays linear overall.
+ */
+export class FileStreamParser {
+  private buffer = '';
+  private state: ParserState = 'outside';
+  private open: OpenFile | null = null;
+  private completed: StreamedFile[] = [];
+
+  push(text: string): FileEvent[] {
+    this.buffer += text;
+    const events: FileEvent[] = [];
+    while (this.step(events, false));
+    return events;
+  }
+
+  // Flushes held-back text at the end of the stream; a file without a closing tag stays incomplete
+  end(): FileEvent[] {
+    const events: FileEvent[] = [];
+    while (this.step(events, true));
+    if (this.open && this.buffer) {
+      this.append(this.buffer, events);
+      this.buffer = '';
+    }
+    return events;
+  }
+
+  get files(): StreamedFile[] {
+    if (!this.open) return this.completed;
+    const { name, action, language, raw, cdata } = this.open;
+    return [...this.completed, { name, action, language, content: cdata ? cleanCData(raw) : cleanContent(raw, false), complete: false }];
+  }
+
+  // Name of the file currently being streamed, if any
+  get current(): string | null {
+    return this.open?.name ?? null;
+  }
+
+  private append(text: string, events: FileEvent[]) {
+    if (!text || !this.open) return;
+    this.open.raw += text;
+    events.push({ type: 'chunk', name: this.open.name, text });
+  }
+
+  private start(attributes: Record<string, string>, events: FileEvent[]) {
+    const action = ACTIONS.includes(attributes.action as FileAction) ? attributes.action as FileAction : 'create';
+    this.open = { name: attributes.name, action, language: attributes.language, raw: '', cdata: false };
+    events.push({ type: 'file-start', name: attributes.name, action, language: attributes.language });
+  }
+
+  private finish(events: FileEvent[]) {
+    const { name, action, language, raw, cdata } = this.open!;
+    const content = cdata ? cleanCData(raw) : cleanContent(raw, true);
+    this.completed.push({ name, action, language, content, complete: true });
+    events.push({ type: 'file-end', name, content });
+    this.open = null;
+    this.state = 'outside';
+  }
+
+  // Consumes as much of the buffer as the current state allows; returns true to keep going
+  private step(events: FileEvent[], final: boolean): boolean {
+    const buffer = this.buffer;
+
+    if (this.state === 'outside') {
+      const index = buffer.indexOf(OPEN_TAG);
+      if (index === -1) {
+        this.buffer = final ? '' : buffer.slice(buffer.length - partialSuffix(buffer, OPEN_TAG));
+        return false;
+      }
+      const close = buffer.indexOf('>', index);
+      if (close === -1) {
+        this.buffer = final ? '' : buffer.slice(index);
+        return false;
+      }
+      const next = buffer[index + OPEN_TAG.length];
+      // `<filename>` or similar text that merely starts like the tag
+      if (!/[\s/>]/.test(next)) {
+        this.buffer = buffer.slice(index + 1);
+        return true;
+      }
+      const selfClosing = buffer[close - 1] === '/';
+      const attributes = parseAttributes(buffer.slice(index + OPEN_TAG.length, selfClosing ? close - 1 : close));
+      this.buffer = buffer.slice(close + 1);
+      if (!attributes.name) return true;
+      this.start(attributes, events);
+      if (selfClosing) this.finish(events);
+      else this.state = 'body-start';
+      return true;
+    }
+
+    if (this.state === 'body-start' || this.state === 'after-cdata') {
+      const trimmed = buffer.trimStart();
+      if (trimmed.startsWith(CDATA_OPEN)) {
+        this.open!.cdata = true;
+        this.buffer = trimmed.slice(CDATA_OPEN.length);
+        this.state = 'cdata';
+        return true;
+      }
+      if (this.state === 'after-cdata' && trimmed.startsWith(CLOSE_TAG)) {
+        this.buffer = trimmed.slice(CLOSE_TAG.length);
+        this.finish(events);
+        return true;
+      }
+      // Not enough text yet to tell whether a CDATA section (or the closing tag) follows
+      const undecided = CDATA_OPEN.startsWith(trimmed) || (this.state === 'after-cdata' && CLOSE_TAG.startsWith(trimmed));
+      if (undecided && !final) return false;
+      // Anything else after a CDATA section is kept as plain content
+      this.state = 'body';
+      return true;
+    }
+
+    if (this.state === 'body') {
+      const index = buffer.indexOf(CLOSE_TAG);
+      if (index === -1) {
+        const keep = final ? 0 : partialSuffix(buffer, CLOSE_TAG);
+        this.append(buffer.slice(0, buffer.length - keep), events);
+        this.buffer = buffer.slice(buffer.length - keep);
+        return false;
+      }
+      this.append(buffer.slice(0, index), events);
+      this.buffer = buffer.slice(index + CLOSE_TAG.length);
+      this.finish(events);
+      return true;
+    }
+
+    // cdata
+    const index = buffer.indexOf(CDATA_CLOSE);
+    if (index === -1) {
+      const keep = final ? 0 : partialSuffix(buffer, CDATA_CLOSE);
+      this.append(buffer.slice(0, buffer.length - keep), events);
+      this.buffer = buffer.slice(buffer.length - keep);
+      return false;
+    }
+    this.append(buffer.slice(0, index), events);
+    this.buffer = buffer.slice(index + CDATA_CLOSE.length);
+    this.state = 'after-cdata';
+    return true;
+  }
+}
+
+// Complete files only, in output order; a block cut off mid-stream is ignored
+export const parseFiles = (content: string): StreamedFile[] => {
+  const parser = new FileStreamParser();
+  parser.push(content);
+  parser.end();
+  return parser.files.filter(file => file.complete);
+};
+
+// Drops a block cut off mid-stream (and any trailing commentary) so generation can continue after the last complete file
+export const keepCompleteFiles = (content: string): string => {
+  const complete = parseFiles(content);
+  return complete.length > 0 ? `${serializeFiles(complete)}\n\n` : '';
+};
+
+// Plain content is only used when reading it back gives the same text; anything else (a closing
+// tag, a leading CDATA marker, surrounding whitespace, a fence the reader would strip) goes in CDATA
+const wrapContent = (content: string) => {
+  const plain = !content.includes(CLOSE_TAG) && !content.trimStart().startsWith(CDATA_OPEN) && cleanContent(content, true) === content;
+  return plain ? content : `${CDATA_OPEN}\n${content.split(CDATA_CLOSE).join(`]]${CDATA_CLOSE}${CDATA_OPEN}>`)}\n${CDATA_CLOSE}`;
+};
+
+// Lossless: parseFiles(serializeFiles(files)) returns the same names and contents
+export const serializeFiles = (files: FileEntry[]): string =>
+  files.map(file => `<file name="${file.name}">\n${wrapContent(file.content)}\n</file>`).join('\n\n');
+
+/**
+ * Applies a unified diff. Hunks are matched by their context and removed lines rather than by
+ * line number alone, since models rarely get the numbers right; returns null if a hunk does not match.
+ */
+export const applyPatch = (source: string, patch: string): string | null => {
+  const lines = source.split('\n');
+  const hunks: Array<{ start: number; before: string[]; after: string[] }> = [];
+  patch.split('\n').forEach(line => {
+    const header = line.match(/^@@ -(\d+)/);
+    if (header) {
+      hunks.push({ start: Number(header[1]) - 1, before: [], after: [] });
+      return;
+    }
+    const hunk = hunks[hunks.length - 1];
+    if (!hunk || line.startsWith('\\')) return;
+    if (line.startsWith('-')) hunk.before.push(line.slice(1));
+    else if (line.startsWith('+')) hunk.after.push(line.slice(1));
+    else if (line.startsWith(' ') || line === '') {
+      hunk.before.push(line.slice(1));
+      hunk.after.push(line.slice(1));
+    }
+  });
+  if (hunks.length === 0) return null;
+
+  let offset = 0;
+  for (const hunk of hunks) {
+    // A trailing blank line in the diff is usually just the end of the text, not context
+    while (hunk.before.length && hunk.before[hunk.before.length - 1] === '' && hunk.after[hunk.after.length - 1] === '') {
+      hunk.before.pop();
+      hunk.after.pop();
+    }
+    const matchesAt = (at: number) => hunk.before.every((line, idx) => lines[at + idx]?.trimEnd() === line.trimEnd());
+    const expected = Math.max(0, hunk.start + offset);
+    let at = -1;
+    for (let distance = 0; distance <= lines.length && at === -1; distance++) {
+      if (matchesAt(expected + distance)) at = expected + distance;
+      else if (distance > 0 && expected - distance >= 0 && matchesAt(expected - distance)) at = expected - distance;
+    }
+    if (at === -1) return null;
+    lines.splice(at, hunk.before.length, ...hunk.after);
+    offset += hunk.after.length - hunk.before.length;
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Folds a list of file changes onto existing files: creates replace in place or append,
+ * deletes remove, patches apply a unified diff. Patches that do not apply are reported
+ * in `rejected` and leave the file unchanged.
+ */
+export const applyFileChanges = (
+  base: FileEntry[],
+  changes: FileChange[],
+): { files: FileEntry[]; rejected: string[] } => {
+  const files = base.map(file => ({ name: file.name, content: file.content }));
+  const rejected: string[] = [];
+  changes.forEach(change => {
+    const index = files.findIndex(file => file.name === change.name);
+    if (change.action === 'delete') {
+      if (index !== -1) files.splice(index, 1);
+    } else if (change.action === 'patch') {
+      const patched = index === -1 ? null : applyPatch(files[index].content, change.content);
+      if (patched === null) rejected.push(change.name);
+      else files[index] = { name: change.name, content: patched };
+    } else if (index === -1) {
+      files.push({ name: change.name, content: change.content });
+    } else {
+      files[index] = { name: change.name, content: change.content };
+    }
+  });
+  return { files, rejected };
+};
+
+// Applies changes (e.g. only the files a fix touched) to a whole serialized module
+export const mergeFiles = (content: string, changes: FileChange[]) => {
+  const { files, rejected } = applyFileChanges(parseFiles(content), changes);
+  return { content: serializeFiles(files), rejected };
+};
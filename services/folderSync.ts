@@ -0,0 +1,142 @@
+import { FolderSyncBinding } from "../types";
+import { FileEntry } from "./fileProtocol";
+import { callCompanion } from "./companion";
+
+// Parts of the File System Access API that are not in TypeScript's DOM typings yet
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+  interface FileSystemHandle {
+    queryPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+    requestPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  }
+}
+
+/**
+ * - create: the file does not exist on disk
+ * - overwrite: the file on disk is what the last sync wrote, so replacing it loses nothing
+ * - conflict: the file on disk was edited since the last sync (or predates syncing) and differs
+ * - unchanged: the file on disk already matches
+ */
+export type SyncAction = 'create' | 'overwrite' | 'conflict' | 'unchanged';
+
+export interface SyncPlanEntry {
+  name: string;
+  action: SyncAction;
+  content: string;
+  // Current content on disk, or null when the file does not exist
+  disk: string | null;
+}
+
+interface SyncTarget {
+  read(names: string[]): Promise<Record<string, string | null>>;
+  write(files: FileEntry[]): Promise<void>;
+}
+
+export const supportsDirectoryPicker = () => typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+
+const hashContent = async (content: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const pathSegments = (name: string) => {
+  const segments = name.split('/').filter(segment => segment && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) throw new Error(`Refusing to write ${name} outside the folder`);
+  return segments;
+};
+
+const fileHandle = async (root: FileSystemDirectoryHandle, name: string, create: boolean) => {
+  const segments = pathSegments(name);
+  let directory = root;
+  for (const segment of segments.slice(0, -1)) directory = await directory.getDirectoryHandle(segment, { create });
+  return directory.getFileHandle(segments[segments.length - 1], { create });
+};
+
+const directoryTarget = (root: FileSystemDirectoryHandle): SyncTarget => ({
+  read: async names => Object.fromEntries(await Promise.all(names.map(async name => {
+    try {
+      return [name, await (await (await fileHandle(root, name, false)).getFile()).text()] as const;
+    } catch (error) {
+      if ((error as DOMException).name === 'NotFoundError' || (error as DOMException).name === 'TypeMismatchError') return [name, null] as const;
+      throw error;
+    }
+  }))),
+  write: async files => {
+    for (const file of files) {
+      const writable = await (await fileHandle(root, file.name, true)).createWritable();
+      await writable.write(file.content);
+      await writable.close();
+    }
+  },
+});
+
+const companionTarget = (root: string): SyncTarget => ({
+  read: async names => (await callCompanion<{ files: Record<string, string | null> }>('/fs/read', { root, names })).files,
+  write: async files => {
+    await callCompanion('/fs/write', { root, files }, 120000);
+  },
+});
+
+// Permission on a stored handle lapses between sessions; asking again needs a user gesture
+const ensurePermission = async (handle: FileSystemDirectoryHandle) => {
+  if ((await handle.queryPermission?.({ mode: 'readwrite' })) === 'granted') return;
+  const state = await handle.requestPermission?.({ mode: 'readwrite' });
+  if (state !== undefined && state !== 'granted') throw new Error(`Write access to "${handle.name}" was not granted`);
+};
+
+const targetFor = async (binding: FolderSyncBinding): Promise<SyncTarget> => {
+  if (binding.kind === 'directory') {
+    if (!binding.handle) throw new Error('No folder has been picked');
+    await ensurePermission(binding.handle);
+    return directoryTarget(binding.handle);
+  }
+  if (!binding.root) throw new Error('No folder path has been entered');
+  return companionTarget(binding.root);
+};
+
+/** Asks for a folder with the browser's directory picker. Rejects with an AbortError if the picker is dismissed. */
+export const pickDirectory = async (projectId: string, previous: FolderSyncBinding | null): Promise<FolderSyncBinding> => {
+  const handle = await window.showDirectoryPicker!({ id: 'devarchitect-sync', mode: 'readwrite' });
+  const same = previous?.handle ? await previous.handle.isSameEntry(handle) : false;
+  return { projectId, kind: 'directory', label: handle.name, handle, files: same ? previous!.files : {} };
+};
+
+export const companionFolder = (projectId: string, root: string, previous: FolderSyncBinding | null): FolderSyncBinding => ({
+  projectId,
+  kind: 'companion',
+  label: root,
+  root,
+  files: previous?.kind === 'companion' && previous.root === root ? previous.files : {},
+});
+
+/** Compares the project's files with the folder without writing anything. */
+export const planSync = async (binding: FolderSyncBinding, files: FileEntry[]): Promise<SyncPlanEntry[]> => {
+  const disk = await (await targetFor(binding)).read(files.map(file => file.name));
+  return Promise.all(files.map(async file => {
+    const current = disk[file.name] ?? null;
+    let action: SyncAction;
+    if (current === null) action = 'create';
+    else if (current === file.content) action = 'unchanged';
+    else if (binding.files[file.name] === await hashContent(current)) action = 'overwrite';
+    else action = 'conflict';
+    return { name: file.name, action, content: file.content, disk: current };
+  }));
+};
+
+/**
+ * Writes created and overwritten files, plus the conflicts listed in `overwrite`, and returns the
+ * binding with the new sync baseline. Conflicts left out keep the version on disk.
+ */
+export const applySync = async (binding: FolderSyncBinding, plan: SyncPlanEntry[], overwrite: Set<string>): Promise<{ binding: FolderSyncBinding; written: number }> => {
+  const writes = plan.filter(entry => entry.action === 'create' || entry.action === 'overwrite' || (entry.action === 'conflict' && overwrite.has(entry.name)));
+  await (await targetFor(binding)).write(writes.map(({ name, content }) => ({ name, content })));
+
+  const files = { ...binding.files };
+  const synced = [...writes, ...plan.filter(entry => entry.action === 'unchanged')];
+  await Promise.all(synced.map(async entry => {
+    files[entry.name] = await hashContent(entry.content);
+  }));
+  return { binding: { ...binding, files, syncedAt: Date.now() }, written: writes.length };
+};
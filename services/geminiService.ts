@@ -1,9 +1,39 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Blueprint } from "../types";
+import { Type, Schema } from "@google/genai";
+import { Blueprint, ModuleKind, PreviewErrorReport, ProviderConfig } from "../types";
+import { createProvider, DEFAULT_PROVIDER, GenerationError, isAbortError, toGenerationError } from "./providers";
+import { CARDINALITIES, FIELD_TYPES, ON_DELETE_ACTIONS } from "./schema";
+import { normalizeBlueprint } from "./schemaMigration";
+import { ValidationIssue } from "./projectValidation";
+import { FileEntry, FileStreamParser, StreamedFile, keepCompleteFiles, parseFiles, serializeFiles } from "./fileProtocol";
 
-const apiKey = process.env.API_KEY || '';
+const schemaFieldSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: "Column name in camelCase" },
+    type: { type: Type.STRING, enum: FIELD_TYPES },
+    nullable: { type: Type.BOOLEAN },
+    defaultValue: { type: Type.STRING, description: "SQL-style default such as now(), 0, 'draft' or gen_random_uuid()", nullable: true },
+    unique: { type: Type.BOOLEAN },
+    index: { type: Type.BOOLEAN },
+    primaryKey: { type: Type.BOOLEAN },
+  },
+  required: ["name", "type", "nullable", "unique", "index", "primaryKey"]
+};
 
-const ai = new GoogleGenAI({ apiKey });
+const schemaRelationshipSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    target: { type: Type.STRING, description: "Name of the related model" },
+    cardinality: { type: Type.STRING, enum: CARDINALITIES },
+    foreignKey: {
+      type: Type.STRING,
+      description: "FK column: on this model for many-to-one/one-to-one, on the target for one-to-many. Omit for many-to-many.",
+      nullable: true
+    },
+    onDelete: { type: Type.STRING, enum: ON_DELETE_ACTIONS, nullable: true }
+  },
+  required: ["target", "cardinality"]
+};
 
 const blueprintSchema: Schema = {
   type: Type.OBJECT,
@@ -42,9 +72,10 @@ const blueprintSchema: Schema = {
             type: Type.OBJECT,
             properties: {
               name: { type: Type.STRING },
-              fields: { type: Type.ARRAY, items: { type: Type.STRING } },
-              relationships: { type: Type.ARRAY, items: { type: Type.STRING } }
-            }
+              fields: { type: Type.ARRAY, items: schemaFieldSchema },
+              relationships: { type: Type.ARRAY, items: schemaRelationshipSchema }
+            },
+            required: ["name", "fields", "relationships"]
           }
         }
       }
@@ -63,10 +94,8 @@ const blueprintSchema: Schema = {
   required: ["appName", "summary", "techStack", "authentication", "architecture", "databaseSchema", "securityFeatures", "estimatedComplexity"]
 };
 
-export const generateBlueprint = async (requirements: string): Promise<Blueprint> => {
-  if (!apiKey) throw new Error("API Key is missing");
-
-  const model = "gemini-2.5-flash"; 
+export const generateBlueprint = async (requirements: string, providerConfig: ProviderConfig = DEFAULT_PROVIDER): Promise<Blueprint> => {
+  const provider = createProvider(providerConfig);
   
   const prompt = `
     You are a Senior Full-Stack Architect (Cursor + Lovable + Backend Builder). 
@@ -79,42 +108,66 @@ export const generateBlueprint = async (requirements: string): Promise<Blueprint
     1. Tech Stack: Be opinionated. Choose the best modern stack (e.g., Next.js 14, NestJS/FastAPI, Postgres/Supabase) unless specified.
     2. Architecture: Ensure scalability and modularity.
     3. Security: Include best practices (RBAC, Rate Limiting, Sanitization).
-    4. Database: Design a normalized schema with proper relationships.
+    4. Database: Design a normalized schema. Give every model a primary key, type every column, and declare each relationship with its cardinality, foreign key column and on-delete behavior.
     5. Auth: Specify robust authentication methods.
 
     Output strictly valid JSON matching the schema.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: blueprintSchema,
-      }
+    const result = await provider.generateJSON<Blueprint>({
+      prompt,
+      schema: blueprintSchema,
+      tier: 'fast',
+      task: 'blueprint',
     });
-
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
-    
-    return JSON.parse(text) as Blueprint;
+    return normalizeBlueprint(result);
   } catch (error) {
     console.error("Blueprint generation failed:", error);
     throw error;
   }
 };
 
-export const generateModuleCode = async (
-  blueprint: Blueprint, 
-  moduleType: 'frontend' | 'backend' | 'deployment',
-  onChunk?: (chunk: string) => void
-): Promise<string> => {
-  if (!apiKey) throw new Error("API Key is missing");
+export const refineBlueprint = async (
+  blueprint: Blueprint,
+  instruction: string,
+  providerConfig: ProviderConfig = DEFAULT_PROVIDER
+): Promise<Blueprint> => {
+  const provider = createProvider(providerConfig);
 
-  const model = "gemini-3-pro-preview";
+  const prompt = `
+    You are a Senior Full-Stack Architect revising an existing architectural blueprint.
+
+    <current_blueprint>
+    ${JSON.stringify(blueprint)}
+    </current_blueprint>
+
+    Change Request:
+    "${instruction}"
+
+    Guidelines:
+    1. Apply the change request precisely and keep everything it does not affect unchanged.
+    2. Propagate the change consistently (e.g. swapping a database updates techStack, schema and flow steps).
+    3. Keep model and field names stable unless the request renames them.
+
+    Output the complete revised blueprint as strictly valid JSON matching the schema.
+  `;
 
-  const context = `
+  try {
+    const result = await provider.generateJSON<Blueprint>({
+      prompt,
+      schema: blueprintSchema,
+      tier: 'fast',
+      task: 'refine-blueprint',
+    });
+    return normalizeBlueprint(result);
+  } catch (error) {
+    console.error("Blueprint refinement failed:", error);
+    throw error;
+  }
+};
+
+const moduleContext = (blueprint: Blueprint) => `
     App Name: ${blueprint.appName}
     Summary: ${blueprint.summary}
     Stack: ${JSON.stringify(blueprint.techStack)}
@@ -122,6 +175,68 @@ export const generateModuleCode = async (
     DB Schema: ${JSON.stringify(blueprint.databaseSchema)}
   `;
 
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface ModuleGenerationOptions {
+  signal?: AbortSignal;
+  // Output of an earlier, interrupted run; generation continues after its complete files
+  resumeFrom?: string;
+  // Called before each retry with the output kept from the failed attempt, which replaces what streamed so far
+  onRetry?: (retry: { attempt: number; delayMs: number; kept: string; error: unknown }) => void;
+}
+
+// Resolves after `ms`, or rejects with the abort reason as soon as the signal fires
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const continuationPrompt = (prompt: string, kept: string) => `${prompt}
+
+    CONTINUATION:
+    An earlier response was cut off. These files are already complete and must NOT be output again:
+    ${parseFiles(kept).map(file => `- ${file.name}`).join('\n    ')}
+
+    Continue with the remaining files only, in the same output format.
+  `;
+
+// Output that ends inside a file (or is empty) was cut off and is worth continuing
+const checkModuleOutput = (output: string) => {
+  if (!output.trim()) throw new GenerationError('malformed', "The model returned an empty response", { retryable: true });
+  const parser = new FileStreamParser();
+  parser.push(output);
+  parser.end();
+  const cutOff = parser.files.find(file => !file.complete);
+  if (cutOff) throw new GenerationError('malformed', `The output stopped in the middle of ${cutOff.name}`, { retryable: true });
+  if (parser.files.length === 0 && output.includes('<file')) throw new GenerationError('malformed', "The output could not be read as files");
+};
+
+/**
+ * Streams a module, retrying transient failures (rate limits, overloaded servers, dropped
+ * connections, truncated output) with exponential backoff. A retry resumes after the last complete
+ * file instead of starting over. Rejects with a GenerationError once retries are exhausted, or
+ * with an AbortError when cancelled through `options.signal`.
+ */
+export const generateModuleCode = async (
+  blueprint: Blueprint, 
+  moduleType: ModuleKind,
+  onChunk?: (chunk: string) => void,
+  providerConfig: ProviderConfig = DEFAULT_PROVIDER,
+  options: ModuleGenerationOptions = {}
+): Promise<string> => {
+  const provider = createProvider(providerConfig);
+
+  const context = moduleContext(blueprint);
+
   const formatInstruction = `
     OUTPUT FORMAT:
     Do NOT use markdown code blocks or backticks.
@@ -135,6 +250,8 @@ export const generateModuleCode = async (
     <file name="package.json">
     ...
     </file>
+
+    If a file's content contains the literal text </file>, wrap the content in <![CDATA[ ... ]]>.
   `;
 
   let prompt = "";
@@ -233,25 +350,241 @@ export const generateModuleCode = async (
     `;
   }
 
-  try {
-    const result = await ai.models.generateContentStream({
-      model,
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 4096 },
-      }
-    });
+  const { signal, onRetry } = options;
+  let kept = options.resumeFrom ? keepCompleteFiles(options.resumeFrom) : '';
 
-    let fullText = "";
-    for await (const chunk of result) {
-      const text = chunk.text();
-      fullText += text;
-      if (onChunk) onChunk(text);
+  for (let attempt = 1; ; attempt++) {
+    let streamed = '';
+    try {
+      const fullText = await provider.streamText({
+        prompt: kept ? continuationPrompt(prompt, kept) : prompt,
+        tier: 'pro',
+        task: moduleType,
+        thinkingBudget: 4096,
+        signal,
+      }, chunk => {
+        streamed += chunk;
+        onChunk?.(chunk);
+      });
+
+      const output = kept + fullText;
+      checkModuleOutput(output);
+      return output;
+    } catch (caught) {
+      if (isAbortError(caught)) throw caught;
+      const error = toGenerationError(caught);
+      if (!error.retryable || attempt >= MAX_ATTEMPTS) throw error;
+      kept = keepCompleteFiles(kept + streamed);
+      // 1s, 2s, 4s with jitter so parallel modules do not retry in lockstep
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      console.warn(`Code generation for ${moduleType} was interrupted, retrying in ${Math.round(delayMs)}ms`, error);
+      onRetry?.({ attempt, delayMs, kept, error });
+      await wait(delayMs, signal);
     }
+  }
+};
+
+export const fixModuleError = async (
+  blueprint: Blueprint,
+  moduleType: ModuleKind,
+  files: FileEntry[],
+  report: PreviewErrorReport,
+  onChunk?: (chunk: string) => void,
+  providerConfig: ProviderConfig = DEFAULT_PROVIDER
+): Promise<StreamedFile[]> => {
+  const provider = createProvider(providerConfig);
+
+  const location = report.file ? `${report.file}${report.line ? `:${report.line}:${report.column ?? 1}` : ''}` : 'unknown';
+  const prompt = `
+    You are an Expert Software Engineer fixing a bug in generated ${moduleType} code for "${blueprint.appName}".
+
+    The ${report.kind === 'build' ? 'build' : 'live preview at runtime'} failed with:
+    <error>
+    Message: ${report.message}
+    Location: ${location}
+    ${report.lineText ? `Line: ${report.lineText.trim()}` : ''}
+    ${report.stack ? `Stack:\n${report.stack}` : ''}
+    </error>
+
+    <current_files>
+    ${serializeFiles(files)}
+    </current_files>
+
+    Guidelines:
+    1. Fix the root cause of the error, not just the symptom at the reported line.
+    2. Keep the change minimal and do not restyle or reorganize unrelated code.
+    3. If the error comes from a missing file, create it.
+
+    OUTPUT FORMAT:
+    Do NOT use markdown code blocks or backticks.
+    Output ONLY the files you changed, created or removed, using this strict XML format:
 
-    return fullText || "Failed to generate code.";
+    <file name="src/App.tsx">
+    (complete new content)
+    </file>
+
+    <file name="src/components/LargeTable.tsx" action="patch">
+    (unified diff with @@ hunks, for small edits to long files)
+    </file>
+
+    <file name="src/unused.ts" action="delete" />
+
+    If a file's content contains the literal text </file>, wrap the content in <![CDATA[ ... ]]>.
+  `;
+
+  try {
+    const fullText = await provider.streamText({
+      prompt,
+      tier: 'pro',
+      task: `fix-${moduleType}`,
+      thinkingBudget: 4096,
+    }, onChunk);
+    return parseFiles(fullText);
+  } catch (error) {
+    console.error(`Fixing ${moduleType} code failed:`, error);
+    throw error;
+  }
+};
+
+const describeIssue = (issue: ValidationIssue) =>
+  `- ${issue.file ? `${issue.file}${issue.line ? `:${issue.line}` : ''}` : '(missing file)'} [${issue.check}] ${issue.message}`;
+
+/**
+ * Asks the model to fix the problems found by validating a module. Only the files the issues
+ * point at are sent for rewriting; the rest are listed by name so missing files can be created.
+ */
+export const repairModuleFiles = async (
+  blueprint: Blueprint,
+  moduleType: ModuleKind,
+  files: FileEntry[],
+  issues: ValidationIssue[],
+  onChunk?: (chunk: string) => void,
+  providerConfig: ProviderConfig = DEFAULT_PROVIDER
+): Promise<StreamedFile[]> => {
+  const provider = createProvider(providerConfig);
+  const failing = new Set(issues.map(issue => issue.file).filter(Boolean));
+  const failingFiles = files.filter(file => failing.has(file.name.replace(/^\.?\//, '')));
+
+  const prompt = `
+    CONTEXT:
+    ${moduleContext(blueprint)}
+
+    ROLE:
+    Expert Software Engineer repairing generated ${moduleType} code that failed validation.
+
+    <issues>
+    ${issues.map(describeIssue).join('\n    ')}
+    </issues>
+
+    <failing_files>
+    ${serializeFiles(failingFiles)}
+    </failing_files>
+
+    <other_files>
+    ${files.filter(file => !failingFiles.includes(file)).map(file => file.name).join('\n    ')}
+    </other_files>
+
+    Guidelines:
+    1. Fix every listed issue, changing only the failing files.
+    2. Create a file only when an issue reports it missing or an import points at it.
+    3. Keep the changes minimal and do not restyle or reorganize unrelated code.
+
+    OUTPUT FORMAT:
+    Do NOT use markdown code blocks or backticks.
+    Output ONLY the files you changed or created, using this strict XML format:
+
+    <file name="src/App.tsx">
+    (complete new content)
+    </file>
+
+    If a file's content contains the literal text </file>, wrap the content in <![CDATA[ ... ]]>.
+  `;
+
+  try {
+    const fullText = await provider.streamText({
+      prompt,
+      tier: 'pro',
+      task: `repair-${moduleType}`,
+      thinkingBudget: 4096,
+    }, onChunk);
+    return parseFiles(fullText);
+  } catch (error) {
+    console.error(`Repairing ${moduleType} code failed:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Rewrites a single file of a generated module, either from scratch or following an
+ * instruction. `onDraft` receives the file's content so far while it streams.
+ */
+export const regenerateFile = async (
+  blueprint: Blueprint,
+  moduleType: ModuleKind,
+  files: FileEntry[],
+  fileName: string,
+  instruction?: string,
+  onDraft?: (content: string) => void,
+  providerConfig: ProviderConfig = DEFAULT_PROVIDER
+): Promise<string> => {
+  const provider = createProvider(providerConfig);
+  const target = files.find(file => file.name === fileName);
+  const siblings = files.filter(file => file.name !== fileName);
+
+  const task = instruction
+    ? `Apply this change to ${fileName}:\n    "${instruction}"\n    Keep everything the change does not affect as it is.`
+    : `Rewrite ${fileName} from scratch. The current version is considered wrong; produce a correct, complete implementation that fits the sibling files.`;
+
+  const prompt = `
+    CONTEXT:
+    ${moduleContext(blueprint)}
+
+    ROLE:
+    Expert Software Engineer maintaining the generated ${moduleType} code.
+
+    <sibling_files>
+    ${serializeFiles(siblings)}
+    </sibling_files>
+
+    <current_file>
+    ${target ? serializeFiles([target]) : `(${fileName} does not exist yet)`}
+    </current_file>
+
+    TASK:
+    ${task}
+    Keep imports and exports compatible with the sibling files.
+
+    OUTPUT FORMAT:
+    Do NOT use markdown code blocks or backticks.
+    Output ONLY the complete new ${fileName} in this strict XML format:
+
+    <file name="${fileName}">
+    ...
+    </file>
+
+    If the content contains the literal text </file>, wrap it in <![CDATA[ ... ]]>.
+  `;
+
+  const parser = new FileStreamParser();
+  const draftOf = () => parser.files.find(file => file.name === fileName);
+
+  try {
+    await provider.streamText({
+      prompt,
+      tier: 'pro',
+      task: instruction ? `edit-${moduleType}-file` : `regenerate-${moduleType}-file`,
+      thinkingBudget: 2048,
+    }, chunk => {
+      parser.push(chunk);
+      const draft = draftOf();
+      if (draft && onDraft) onDraft(draft.content);
+    });
+    parser.end();
+    const result = draftOf();
+    if (!result?.complete) throw new Error(`The model did not return a complete ${fileName}`);
+    return result.content;
   } catch (error) {
-    console.error(`Code generation for ${moduleType} failed:`, error);
-    return `// Error generating ${moduleType} code. Please try again. \n// ${error}`;
+    console.error(`Regenerating ${fileName} failed:`, error);
+    throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,156 @@
+import { FileEntry } from "./fileProtocol";
+
+/**
+ * Writes a git repository by hand: loose objects, an index and a branch pointing at a single
+ * commit of `files`. Unpacked next to the files it is a regular clone with a clean working tree.
+ */
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitCommitOptions {
+  message: string;
+  author: GitAuthor;
+  // Seconds since the epoch; defaults to now
+  timestamp?: number;
+  branch?: string;
+}
+
+export interface BinaryFileEntry {
+  name: string;
+  content: Uint8Array | string;
+}
+
+const FILE_MODE = 0o100644;
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha1 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-1', data));
+
+// Loose objects are zlib streams, which is what CompressionStream calls "deflate"
+const deflate = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+// Git orders tree and index entries by their raw bytes
+const compareBytes = (a: Uint8Array, b: Uint8Array) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+class ObjectStore {
+  readonly objects = new Map<string, Uint8Array>();
+
+  async add(type: 'blob' | 'tree' | 'commit', body: Uint8Array): Promise<Uint8Array> {
+    const data = concat([encoder.encode(`${type} ${body.length}\0`), body]);
+    const id = await sha1(data);
+    const hex = toHex(id);
+    if (!this.objects.has(hex)) this.objects.set(hex, await deflate(data));
+    return id;
+  }
+}
+
+interface TreeNode {
+  files: Map<string, Uint8Array>;
+  dirs: Map<string, TreeNode>;
+}
+
+const emptyNode = (): TreeNode => ({ files: new Map(), dirs: new Map() });
+
+const writeTree = async (store: ObjectStore, node: TreeNode): Promise<Uint8Array> => {
+  const files = [...node.files].map(([name, id]) => ({ mode: '100644', name, id, key: encoder.encode(name) }));
+  const dirs = await Promise.all([...node.dirs].map(async ([name, child]) => ({
+    mode: '40000',
+    name,
+    id: await writeTree(store, child),
+    // Directories sort as if their name ended in a slash
+    key: encoder.encode(`${name}/`),
+  })));
+  const entries = [...files, ...dirs].sort((a, b) => compareBytes(a.key, b.key));
+  return store.add('tree', concat(entries.flatMap(entry => [encoder.encode(`${entry.mode} ${entry.name}\0`), entry.id])));
+};
+
+// Version 2 index with zeroed stat data; git re-hashes such entries once and finds them clean
+const writeIndex = async (entries: Array<{ path: Uint8Array; id: Uint8Array; size: number }>, timestamp: number) => {
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set(encoder.encode('DIRC'));
+  view.setUint32(4, 2);
+  view.setUint32(8, entries.length);
+
+  const records = entries.map(({ path, id, size }) => {
+    // 62 bytes of fixed fields, the path, then 1-8 NULs so the record is a multiple of 8 bytes
+    const length = Math.ceil((62 + path.length + 1) / 8) * 8;
+    const record = new Uint8Array(length);
+    const fields = new DataView(record.buffer);
+    fields.setUint32(0, timestamp);
+    fields.setUint32(8, timestamp);
+    fields.setUint32(24, FILE_MODE);
+    fields.setUint32(36, size);
+    record.set(id, 40);
+    fields.setUint16(60, Math.min(path.length, 0xfff));
+    record.set(path, 62);
+    return record;
+  });
+
+  const body = concat([header, ...records]);
+  return concat([body, await sha1(body)]);
+};
+
+// Paths git would refuse to check out are left out of the commit
+const isCommittable = (name: string) => {
+  const segments = name.split('/');
+  return segments.every(segment => segment && segment !== '.' && segment !== '..' && segment.toLowerCase() !== '.git');
+};
+
+/** The `.git` directory for a repository whose only commit contains `files`, as paths relative to the work tree. */
+export const createGitRepository = async (files: FileEntry[], options: GitCommitOptions): Promise<BinaryFileEntry[]> => {
+  const store = new ObjectStore();
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const branch = options.branch || 'main';
+
+  const root = emptyNode();
+  const indexEntries: Array<{ path: Uint8Array; id: Uint8Array; size: number }> = [];
+  for (const file of files.filter(entry => isCommittable(entry.name))) {
+    const content = encoder.encode(file.content);
+    const id = await store.add('blob', content);
+    const segments = file.name.split('/');
+    let node = root;
+    segments.slice(0, -1).forEach(segment => {
+      if (!node.dirs.has(segment)) node.dirs.set(segment, emptyNode());
+      node = node.dirs.get(segment)!;
+    });
+    node.files.set(segments[segments.length - 1], id);
+    indexEntries.push({ path: encoder.encode(file.name), id, size: content.length });
+  }
+
+  const tree = await writeTree(store, root);
+  const signature = `${options.author.name} <${options.author.email}> ${timestamp} +0000`;
+  const commit = await store.add('commit', encoder.encode(
+    `tree ${toHex(tree)}\nauthor ${signature}\ncommitter ${signature}\n\n${options.message.trim()}\n`
+  ));
+
+  indexEntries.sort((a, b) => compareBytes(a.path, b.path));
+  return [
+    { name: '.git/HEAD', content: `ref: refs/heads/${branch}\n` },
+    { name: '.git/config', content: '[core]\n\trepositoryformatversion = 0\n\tfilemode = true\n\tbare = false\n\tlogallrefupdates = true\n' },
+    { name: `.git/refs/heads/${branch}`, content: `${toHex(commit)}\n` },
+    { name: '.git/index', content: await writeIndex(indexEntries, timestamp) },
+    ...[...store.objects].map(([hex, data]) => ({ name: `.git/objects/${hex.slice(0, 2)}/${hex.slice(2)}`, content: data })),
+  ];
+};
@@ -0,0 +1,46 @@
+/**
+ * tsconfig and friends are JSON with comments and trailing commas. Both are blanked out with
+ * spaces rather than removed, so offsets and line numbers in JSON.parse errors still match the
+ * original text. Strings are skipped whole: `"@/*"` and `"src/**\/*.ts"` are not a comment.
+ */
+export const blankJsonc = (text: string): string => {
+  const out = text.split('');
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to; i++) if (out[i] !== '\n') out[i] = ' ';
+  };
+  // Comma seen since the last value, removed if the next token closes the object or array
+  let comma = -1;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"' && text[i] !== '\n') i += text[i] === '\\' ? 2 : 1;
+      i++;
+      comma = -1;
+      continue;
+    }
+    if (char === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      blank(i, end < 0 ? text.length : end);
+      i = end < 0 ? text.length : end;
+      continue;
+    }
+    if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      blank(i, end < 0 ? text.length : end + 2);
+      i = end < 0 ? text.length : end + 2;
+      continue;
+    }
+    if (char === ',') comma = i;
+    else if (char === '}' || char === ']') {
+      if (comma >= 0) out[comma] = ' ';
+      comma = -1;
+    } else if (!/\s/.test(char)) comma = -1;
+    i++;
+  }
+  return out.join('');
+};
+
+/** Parses JSON with comments and trailing commas; throws like JSON.parse on anything else. */
+export const parseJsonc = (text: string): unknown => JSON.parse(blankJsonc(text));
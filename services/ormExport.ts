@@ -0,0 +1,392 @@
+import { FieldType, SchemaField } from "../types";
+import { SchemaGraph, SqlDialect, lowerFirst, primaryKeyOf, snakeCase, tableName } from "./schemaGraph";
+import { findModel } from "./schema";
+
+const isNow = (value?: string) => Boolean(value && /^(now\(\)|current_timestamp(\(\d*\))?)$/i.test(value.trim()));
+const isUuid = (value?: string) => Boolean(value && /^(gen_random_uuid\(\)|uuid\(\)|uuid_generate_v4\(\)|cuid\(\))$/i.test(value.trim()));
+const isAutoIncrement = (field: SchemaField) =>
+  field.primaryKey && (field.type === 'integer' || field.type === 'bigint') && !field.defaultValue;
+
+const stripQuotes = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+const isLiteral = (value: string) => /^(true|false|-?\d+(\.\d+)?)$/i.test(value.trim());
+
+const ON_DELETE_PRISMA: Record<string, string> = {
+  'CASCADE': 'Cascade',
+  'SET NULL': 'SetNull',
+  'RESTRICT': 'Restrict',
+  'NO ACTION': 'NoAction',
+};
+
+// ---------------------------------------------------------------------------
+// Prisma
+// ---------------------------------------------------------------------------
+
+const PRISMA_TYPES: Record<FieldType, string> = {
+  uuid: 'String', string: 'String', text: 'String', integer: 'Int', bigint: 'BigInt', float: 'Float',
+  decimal: 'Decimal', boolean: 'Boolean', datetime: 'DateTime', date: 'DateTime', json: 'Json', enum: 'String',
+};
+
+const prismaDefault = (field: SchemaField): string | null => {
+  if (isAutoIncrement(field)) return 'autoincrement()';
+  const value = field.defaultValue?.trim();
+  if (!value) return null;
+  if (isNow(value)) return 'now()';
+  if (isUuid(value)) return /cuid/i.test(value) ? 'cuid()' : 'uuid()';
+  if (isLiteral(value)) return value.toLowerCase();
+  if (/\)$/.test(value)) return `dbgenerated("${value.replace(/"/g, '\\"')}")`;
+  return `"${stripQuotes(value)}"`;
+};
+
+export const generatePrismaSchema = (graph: SchemaGraph, dialect: SqlDialect): string => {
+  const provider = dialect === 'postgres' ? 'postgresql' : dialect;
+  const blocks: string[] = [
+    `// Generated from the blueprint database schema\n\ngenerator client {\n  provider = "prisma-client-js"\n}\n\ndatasource db {\n  provider = "${provider}"\n  url      = env("DATABASE_URL")\n}`,
+  ];
+
+  graph.models.forEach(model => {
+    const lines: string[] = [];
+    const columns = graph.columns.get(model.name) || [];
+    const primaryKeys = columns.filter(field => field.primaryKey);
+
+    columns.forEach(field => {
+      const link = graph.foreignKeys.find(fk => fk.owner === model.name && fk.column === field.name);
+      const attributes: string[] = [];
+      if (field.primaryKey && primaryKeys.length === 1) attributes.push('@id');
+      const defaultValue = prismaDefault(field);
+      if (defaultValue) attributes.push(`@default(${defaultValue})`);
+      if ((field.unique || link?.unique) && !field.primaryKey) attributes.push('@unique');
+      if (dialect === 'postgres' && field.type === 'uuid') attributes.push('@db.Uuid');
+      if (dialect !== 'sqlite' && field.type === 'date') attributes.push('@db.Date');
+      if (dialect !== 'sqlite' && field.type === 'text') attributes.push('@db.Text');
+      if (snakeCase(field.name) !== field.name) attributes.push(`@map("${snakeCase(field.name)}")`);
+      lines.push(`  ${field.name} ${PRISMA_TYPES[field.type]}${field.nullable ? '?' : ''}${attributes.length ? ' ' + attributes.join(' ') : ''}`);
+    });
+
+    graph.foreignKeys.forEach(link => {
+      const relationName = `"${link.owner}_${link.column}"`;
+      if (link.owner === model.name) {
+        const column = columns.find(field => field.name === link.column);
+        const onDelete = link.onDelete ? `, onDelete: ${ON_DELETE_PRISMA[link.onDelete]}` : '';
+        lines.push(`  ${link.ownerProperty} ${link.target}${column?.nullable ? '?' : ''} @relation(${relationName}, fields: [${link.column}], references: [${link.targetColumn}]${onDelete})`);
+      }
+      if (link.target === model.name) {
+        lines.push(`  ${link.targetProperty} ${link.owner}${link.unique ? '?' : '[]'} @relation(${relationName})`);
+      }
+    });
+
+    graph.manyToMany.forEach(link => {
+      const relationName = `"${link.table}"`;
+      if (link.left === model.name) lines.push(`  ${link.leftProperty} ${link.right}[] @relation(${relationName})`);
+      if (link.right === model.name) lines.push(`  ${link.rightProperty} ${link.left}[] @relation(${relationName})`);
+    });
+
+    const indexes = columns
+      .filter(field => field.index && !field.primaryKey && !field.unique)
+      .map(field => `  @@index([${field.name}])`);
+    lines.push('');
+    if (primaryKeys.length > 1) lines.push(`  @@id([${primaryKeys.map(field => field.name).join(', ')}])`);
+    lines.push(...indexes, `  @@map("${tableName(model.name)}")`);
+
+    blocks.push(`model ${model.name} {\n${lines.join('\n')}\n}`);
+  });
+
+  return blocks.join('\n\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// Drizzle
+// ---------------------------------------------------------------------------
+
+const DRIZZLE_CORE: Record<SqlDialect, { module: string; table: string }> = {
+  postgres: { module: 'drizzle-orm/pg-core', table: 'pgTable' },
+  mysql: { module: 'drizzle-orm/mysql-core', table: 'mysqlTable' },
+  sqlite: { module: 'drizzle-orm/sqlite-core', table: 'sqliteTable' },
+};
+
+// Returns [builder function, builder call] for a column, e.g. ['varchar', "varchar('email', { length: 255 })"]
+const drizzleColumn = (dialect: SqlDialect, field: SchemaField): [string, string] => {
+  const name = `'${snakeCase(field.name)}'`;
+  if (dialect === 'postgres') {
+    switch (field.type) {
+      case 'uuid': return ['uuid', `uuid(${name})`];
+      case 'string': case 'enum': return ['varchar', `varchar(${name}, { length: 255 })`];
+      case 'text': return ['text', `text(${name})`];
+      case 'integer': return isAutoIncrement(field) ? ['serial', `serial(${name})`] : ['integer', `integer(${name})`];
+      case 'bigint': return ['bigint', `bigint(${name}, { mode: 'number' })`];
+      case 'float': return ['doublePrecision', `doublePrecision(${name})`];
+      case 'decimal': return ['numeric', `numeric(${name}, { precision: 12, scale: 2 })`];
+      case 'boolean': return ['boolean', `boolean(${name})`];
+      case 'datetime': return ['timestamp', `timestamp(${name}, { withTimezone: true })`];
+      case 'date': return ['date', `date(${name})`];
+      case 'json': return ['jsonb', `jsonb(${name})`];
+    }
+  }
+  if (dialect === 'mysql') {
+    switch (field.type) {
+      case 'uuid': return ['char', `char(${name}, { length: 36 })`];
+      case 'string': case 'enum': return ['varchar', `varchar(${name}, { length: 255 })`];
+      case 'text': return ['text', `text(${name})`];
+      case 'integer': return ['int', `int(${name})`];
+      case 'bigint': return ['bigint', `bigint(${name}, { mode: 'number' })`];
+      case 'float': return ['double', `double(${name})`];
+      case 'decimal': return ['decimal', `decimal(${name}, { precision: 12, scale: 2 })`];
+      case 'boolean': return ['boolean', `boolean(${name})`];
+      case 'datetime': return ['datetime', `datetime(${name}, { fsp: 3 })`];
+      case 'date': return ['date', `date(${name})`];
+      case 'json': return ['json', `json(${name})`];
+    }
+  }
+  switch (field.type) {
+    case 'integer': case 'bigint': return ['integer', `integer(${name})`];
+    case 'boolean': return ['integer', `integer(${name}, { mode: 'boolean' })`];
+    case 'datetime': return ['integer', `integer(${name}, { mode: 'timestamp' })`];
+    case 'float': case 'decimal': return ['real', `real(${name})`];
+    case 'json': return ['text', `text(${name}, { mode: 'json' })`];
+    default: return ['text', `text(${name})`];
+  }
+};
+
+const drizzleDefault = (dialect: SqlDialect, field: SchemaField): string | null => {
+  const value = field.defaultValue?.trim();
+  if (!value) return null;
+  if (isNow(value)) return dialect === 'sqlite' ? '.$defaultFn(() => new Date())' : '.defaultNow()';
+  if (isUuid(value)) return dialect === 'postgres' ? '.defaultRandom()' : '.$defaultFn(() => crypto.randomUUID())';
+  if (/^(true|false)$/i.test(value)) return `.default(${value.toLowerCase()})`;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return field.type === 'decimal' ? `.default('${value}')` : `.default(${value})`;
+  if (/\)$/.test(value)) return `.default(sql\`${value}\`)`;
+  return `.default('${stripQuotes(value).replace(/'/g, "\\'")}')`;
+};
+
+const drizzleOnDelete: Record<string, string> = {
+  'CASCADE': 'cascade',
+  'SET NULL': 'set null',
+  'RESTRICT': 'restrict',
+  'NO ACTION': 'no action',
+};
+
+export const generateDrizzleSchema = (graph: SchemaGraph, dialect: SqlDialect): string => {
+  const core = DRIZZLE_CORE[dialect];
+  const builders = new Set<string>([core.table]);
+  const camel = (value: string) => lowerFirst(value.replace(/_([a-z])/g, (_, c) => c.toUpperCase()));
+  const variable = (model: string) => camel(tableName(model));
+  let usesSql = false;
+  let usesIndex = false;
+  let usesPrimaryKey = false;
+  const relationBlocks: string[] = [];
+
+  const tables = graph.models.map(model => {
+    const columns = graph.columns.get(model.name) || [];
+    const primaryKeys = columns.filter(field => field.primaryKey);
+    const lines = columns.map(field => {
+      const [builder, call] = drizzleColumn(dialect, field);
+      builders.add(builder);
+      let chain = call;
+      if (field.primaryKey && primaryKeys.length === 1) {
+        chain += dialect === 'sqlite' && isAutoIncrement(field) ? '.primaryKey({ autoIncrement: true })' : '.primaryKey()';
+      }
+      if (dialect === 'mysql' && isAutoIncrement(field)) chain += '.autoincrement()';
+      if (!field.nullable && !field.primaryKey) chain += '.notNull()';
+      if (field.unique && !field.primaryKey) chain += '.unique()';
+      const defaultValue = drizzleDefault(dialect, field);
+      if (defaultValue) {
+        if (defaultValue.includes('sql`')) usesSql = true;
+        chain += defaultValue;
+      }
+      const link = graph.foreignKeys.find(fk => fk.owner === model.name && fk.column === field.name);
+      if (link) {
+        const onDelete = link.onDelete ? `, { onDelete: '${drizzleOnDelete[link.onDelete]}' }` : '';
+        chain += `.references((): AnyColumn => ${variable(link.target)}.${link.targetColumn}${onDelete})`;
+      }
+      return `  ${field.name}: ${chain},`;
+    });
+
+    const extras: string[] = [];
+    if (primaryKeys.length > 1) {
+      usesPrimaryKey = true;
+      extras.push(`  primaryKey({ columns: [${primaryKeys.map(field => `t.${field.name}`).join(', ')}] }),`);
+    }
+    columns.filter(field => field.index && !field.primaryKey && !field.unique).forEach(field => {
+      usesIndex = true;
+      extras.push(`  index('idx_${tableName(model.name)}_${snakeCase(field.name)}').on(t.${field.name}),`);
+    });
+
+    const relationLines: string[] = [];
+    graph.foreignKeys.forEach(link => {
+      if (link.owner === model.name) {
+        relationLines.push(`  ${link.ownerProperty}: one(${variable(link.target)}, { fields: [${variable(model.name)}.${link.column}], references: [${variable(link.target)}.${link.targetColumn}] }),`);
+      }
+      if (link.target === model.name) {
+        relationLines.push(link.unique
+          ? `  ${link.targetProperty}: one(${variable(link.owner)}),`
+          : `  ${link.targetProperty}: many(${variable(link.owner)}),`);
+      }
+    });
+    graph.manyToMany.forEach(link => {
+      if (link.left === model.name) relationLines.push(`  ${link.leftProperty}: many(${camel(link.table)}),`);
+      if (link.right === model.name && link.left !== link.right) relationLines.push(`  ${link.rightProperty}: many(${camel(link.table)}),`);
+    });
+    if (relationLines.length) {
+      relationBlocks.push(`export const ${variable(model.name)}Relations = relations(${variable(model.name)}, ({ one, many }) => ({\n${relationLines.join('\n')}\n}));`);
+    }
+
+    const body = `{\n${lines.join('\n')}\n}`;
+    return extras.length
+      ? `export const ${variable(model.name)} = ${core.table}('${tableName(model.name)}', ${body}, (t) => [\n${extras.join('\n')}\n]);`
+      : `export const ${variable(model.name)} = ${core.table}('${tableName(model.name)}', ${body});`;
+  });
+
+  graph.manyToMany.forEach(link => {
+    usesPrimaryKey = true;
+    const left = findModel(graph.models, link.left)!;
+    const right = findModel(graph.models, link.right)!;
+    const leftColumn = drizzleColumn(dialect, { ...primaryKeyOf(left), name: link.leftColumn, primaryKey: false, defaultValue: undefined });
+    const rightColumn = drizzleColumn(dialect, { ...primaryKeyOf(right), name: link.rightColumn, primaryKey: false, defaultValue: undefined });
+    builders.add(leftColumn[0]).add(rightColumn[0]);
+    const leftKey = camel(link.leftColumn);
+    const rightKey = camel(link.rightColumn);
+    tables.push(
+      `export const ${camel(link.table)} = ${core.table}('${link.table}', {\n` +
+      `  ${leftKey}: ${leftColumn[1]}.notNull().references((): AnyColumn => ${variable(link.left)}.${primaryKeyOf(left).name}, { onDelete: 'cascade' }),\n` +
+      `  ${rightKey}: ${rightColumn[1]}.notNull().references((): AnyColumn => ${variable(link.right)}.${primaryKeyOf(right).name}, { onDelete: 'cascade' }),\n` +
+      `}, (t) => [\n  primaryKey({ columns: [t.${leftKey}, t.${rightKey}] }),\n]);`
+    );
+    relationBlocks.push(
+      `export const ${camel(link.table)}Relations = relations(${camel(link.table)}, ({ one }) => ({\n` +
+      `  ${lowerFirst(link.left)}: one(${variable(link.left)}, { fields: [${camel(link.table)}.${leftKey}], references: [${variable(link.left)}.${primaryKeyOf(left).name}] }),\n` +
+      `  ${link.left === link.right ? 'related' + link.right : lowerFirst(link.right)}: one(${variable(link.right)}, { fields: [${camel(link.table)}.${rightKey}], references: [${variable(link.right)}.${primaryKeyOf(right).name}] }),\n` +
+      `}));`
+    );
+  });
+
+  if (usesIndex) builders.add('index');
+  if (usesPrimaryKey) builders.add('primaryKey');
+
+  const imports = [
+    `import { ${[...builders].sort().join(', ')} } from '${core.module}';`,
+    `import { ${usesSql ? 'relations, sql, type AnyColumn' : 'relations, type AnyColumn'} } from 'drizzle-orm';`,
+  ];
+  return `// Generated from the blueprint database schema\n${imports.join('\n')}\n\n${tables.join('\n\n')}\n\n${relationBlocks.join('\n\n')}\n`;
+};
+
+// ---------------------------------------------------------------------------
+// TypeORM
+// ---------------------------------------------------------------------------
+
+const TS_TYPES: Record<FieldType, string> = {
+  uuid: 'string', string: 'string', text: 'string', integer: 'number', bigint: 'string', float: 'number',
+  decimal: 'string', boolean: 'boolean', datetime: 'Date', date: 'string', json: 'Record<string, unknown>', enum: 'string',
+};
+
+const TYPEORM_COLUMN_TYPES: Record<SqlDialect, Record<FieldType, string>> = {
+  postgres: { uuid: 'uuid', string: 'varchar', text: 'text', integer: 'integer', bigint: 'bigint', float: 'double precision', decimal: 'numeric', boolean: 'boolean', datetime: 'timestamptz', date: 'date', json: 'jsonb', enum: 'varchar' },
+  mysql: { uuid: 'char', string: 'varchar', text: 'text', integer: 'int', bigint: 'bigint', float: 'double', decimal: 'decimal', boolean: 'boolean', datetime: 'datetime', date: 'date', json: 'json', enum: 'varchar' },
+  sqlite: { uuid: 'text', string: 'text', text: 'text', integer: 'integer', bigint: 'integer', float: 'real', decimal: 'numeric', boolean: 'boolean', datetime: 'datetime', date: 'date', json: 'simple-json', enum: 'text' },
+};
+
+const typeormColumnOptions = (dialect: SqlDialect, field: SchemaField): string => {
+  const options: string[] = [];
+  if (snakeCase(field.name) !== field.name) options.push(`name: '${snakeCase(field.name)}'`);
+  options.push(`type: '${TYPEORM_COLUMN_TYPES[dialect][field.type]}'`);
+  if (field.type === 'string' || field.type === 'enum') options.push('length: 255');
+  if (field.type === 'uuid' && dialect === 'mysql') options.push('length: 36');
+  if (field.type === 'decimal') options.push('precision: 12', 'scale: 2');
+  if (field.nullable) options.push('nullable: true');
+  if (field.unique && !field.primaryKey) options.push('unique: true');
+
+  const value = field.defaultValue?.trim();
+  if (value && !isUuid(value)) {
+    if (isNow(value)) options.push(`default: () => 'CURRENT_TIMESTAMP'`);
+    else if (isLiteral(value)) options.push(`default: ${value.toLowerCase()}`);
+    else if (/\)$/.test(value)) options.push(`default: () => "${value.replace(/"/g, '\\"')}"`);
+    else options.push(`default: '${stripQuotes(value).replace(/'/g, "\\'")}'`);
+  }
+  return `{ ${options.join(', ')} }`;
+};
+
+export const generateTypeORMEntities = (graph: SchemaGraph, dialect: SqlDialect): Array<{ name: string; content: string }> =>
+  graph.models.map(model => {
+    const decorators = new Set<string>(['Entity']);
+    const imports = new Set<string>();
+    const members: string[] = [];
+    const columns = graph.columns.get(model.name) || [];
+
+    columns.forEach(field => {
+      const type = TS_TYPES[field.type] + (field.nullable ? ' | null' : '');
+      const link = graph.foreignKeys.find(fk => fk.owner === model.name && fk.column === field.name);
+      if (field.index && !field.primaryKey && !field.unique && !link) {
+        decorators.add('Index');
+        members.push('  @Index()');
+      }
+      if (field.primaryKey && isUuid(field.defaultValue)) {
+        decorators.add('PrimaryGeneratedColumn');
+        members.push(`  @PrimaryGeneratedColumn('uuid'${snakeCase(field.name) !== field.name ? `, { name: '${snakeCase(field.name)}' }` : ''})`);
+      } else if (isAutoIncrement(field)) {
+        decorators.add('PrimaryGeneratedColumn');
+        members.push(`  @PrimaryGeneratedColumn(${snakeCase(field.name) !== field.name ? `{ name: '${snakeCase(field.name)}' }` : ''})`);
+      } else if (field.primaryKey) {
+        decorators.add('PrimaryColumn');
+        members.push(`  @PrimaryColumn(${typeormColumnOptions(dialect, field)})`);
+      } else if (field.type === 'datetime' && isNow(field.defaultValue) && /^created/i.test(field.name)) {
+        decorators.add('CreateDateColumn');
+        members.push(`  @CreateDateColumn(${typeormColumnOptions(dialect, { ...field, defaultValue: undefined })})`);
+      } else {
+        decorators.add('Column');
+        members.push(`  @Column(${typeormColumnOptions(dialect, field)})`);
+      }
+      members.push(`  ${field.name}!: ${type};`, '');
+    });
+
+    graph.foreignKeys.forEach(link => {
+      if (link.owner === model.name) {
+        const decorator = link.unique ? 'OneToOne' : 'ManyToOne';
+        decorators.add(decorator).add('JoinColumn');
+        if (link.target !== model.name) imports.add(link.target);
+        const onDelete = link.onDelete ? `, { onDelete: '${link.onDelete}' }` : '';
+        members.push(
+          `  @${decorator}(() => ${link.target}, (${lowerFirst(link.target)}) => ${lowerFirst(link.target)}.${link.targetProperty}${onDelete})`,
+          `  @JoinColumn({ name: '${snakeCase(link.column)}' })`,
+          `  ${link.ownerProperty}!: ${link.target};`,
+          ''
+        );
+      }
+      if (link.target === model.name) {
+        const decorator = link.unique ? 'OneToOne' : 'OneToMany';
+        decorators.add(decorator);
+        if (link.owner !== model.name) imports.add(link.owner);
+        members.push(
+          `  @${decorator}(() => ${link.owner}, (${lowerFirst(link.owner)}) => ${lowerFirst(link.owner)}.${link.ownerProperty})`,
+          `  ${link.targetProperty}!: ${link.owner}${link.unique ? '' : '[]'};`,
+          ''
+        );
+      }
+    });
+
+    graph.manyToMany.forEach(link => {
+      if (link.left === model.name) {
+        decorators.add('ManyToMany').add('JoinTable');
+        if (link.right !== model.name) imports.add(link.right);
+        members.push(
+          `  @ManyToMany(() => ${link.right}, (${lowerFirst(link.right)}) => ${lowerFirst(link.right)}.${link.rightProperty})`,
+          `  @JoinTable({ name: '${link.table}', joinColumn: { name: '${link.leftColumn}' }, inverseJoinColumn: { name: '${link.rightColumn}' } })`,
+          `  ${link.leftProperty}!: ${link.right}[];`,
+          ''
+        );
+      }
+      if (link.right === model.name && link.left !== link.right) {
+        decorators.add('ManyToMany');
+        imports.add(link.left);
+        members.push(
+          `  @ManyToMany(() => ${link.left}, (${lowerFirst(link.left)}) => ${lowerFirst(link.left)}.${link.leftProperty})`,
+          `  ${link.rightProperty}!: ${link.left}[];`,
+          ''
+        );
+      }
+    });
+
+    const header = [
+      `import { ${[...decorators].sort().join(', ')} } from 'typeorm';`,
+      ...[...imports].sort().map(name => `import { ${name} } from './${name}';`),
+    ];
+    const content = `${header.join('\n')}\n\n@Entity('${tableName(model.name)}')\nexport class ${model.name} {\n${members.join('\n').trimEnd()}\n}\n`;
+    return { name: `${model.name}.ts`, content };
+  });
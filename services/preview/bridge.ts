@@ -0,0 +1,128 @@
+import { PreviewErrorReport } from '../../types';
+import { SourcePosition } from './sourceMap';
+
+// Name the bundle script reports in stack traces (via `//# sourceURL`), so frames can be told apart from vendor code
+export const PREVIEW_BUNDLE_URL = 'preview-bundle.js';
+
+// Marks messages posted by the bridge; the host also checks `event.source` against its own iframe
+const MESSAGE_TAG = '__previewBridge';
+
+export type PreviewLogLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type BridgeMessage =
+  | { type: 'console'; level: PreviewLogLevel; args: string[] }
+  | { type: 'clear' }
+  | {
+      type: 'error';
+      source: 'error' | 'unhandledrejection';
+      message: string;
+      stack?: string;
+      filename?: string;
+      line?: number;
+      column?: number;
+    };
+
+/**
+ * Classic script injected before anything else in the preview document. It forwards console
+ * calls, uncaught errors and unhandled rejections to the host page; arguments are formatted to
+ * strings inside the iframe because most values (DOM nodes, functions, cycles) cannot be cloned.
+ */
+export const bridgeScript = () => `
+(() => {
+  const post = message => {
+    try { parent.postMessage(Object.assign({ ${MESSAGE_TAG}: true }, message), '*'); } catch (e) {}
+  };
+  const format = (value, depth) => {
+    if (typeof value === 'string') return depth ? JSON.stringify(value) : value;
+    if (value instanceof Error) return value.stack || value.name + ': ' + value.message;
+    if (typeof value === 'function') return 'ƒ ' + (value.name || 'anonymous') + '()';
+    if (typeof value === 'bigint') return value + 'n';
+    if (typeof value !== 'object' || value === null) return String(value);
+    if (value instanceof Element) {
+      return '<' + value.tagName.toLowerCase() + (value.id ? '#' + value.id : '') + (typeof value.className === 'string' && value.className ? '.' + value.className.trim().split(/\\s+/).join('.') : '') + '>';
+    }
+    if (depth > 2) return Array.isArray(value) ? '[…]' : '{…}';
+    try {
+      if (Array.isArray(value)) return '[' + value.slice(0, 50).map(item => format(item, depth + 1)).join(', ') + (value.length > 50 ? ', …' : '') + ']';
+      const keys = Object.keys(value);
+      const name = value.constructor && value.constructor !== Object ? value.constructor.name + ' ' : '';
+      return name + '{' + keys.slice(0, 30).map(key => key + ': ' + format(value[key], depth + 1)).join(', ') + (keys.length > 30 ? ', …' : '') + '}';
+    } catch (e) {
+      return Object.prototype.toString.call(value);
+    }
+  };
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(level => {
+    const original = console[level];
+    console[level] = (...args) => {
+      post({ type: 'console', level, args: args.map(arg => format(arg, 0)) });
+      original.apply(console, args);
+    };
+  });
+  const clear = console.clear;
+  console.clear = () => {
+    post({ type: 'clear' });
+    clear.call(console);
+  };
+  window.addEventListener('error', event => {
+    post({
+      type: 'error',
+      source: 'error',
+      message: event.error instanceof Error ? event.error.name + ': ' + event.error.message : String(event.message),
+      stack: event.error && event.error.stack,
+      filename: event.filename,
+      line: event.lineno,
+      column: event.colno,
+    });
+  });
+  window.addEventListener('unhandledrejection', event => {
+    const reason = event.reason;
+    post({
+      type: 'error',
+      source: 'unhandledrejection',
+      message: 'Unhandled rejection: ' + (reason instanceof Error ? reason.name + ': ' + reason.message : format(reason, 0)),
+      stack: reason && reason.stack,
+    });
+  });
+})();
+`;
+
+export const readBridgeMessage = (data: unknown): BridgeMessage | null =>
+  data && typeof data === 'object' && (data as Record<string, unknown>)[MESSAGE_TAG] ? (data as BridgeMessage) : null;
+
+const BUNDLE_FRAME = new RegExp(`${PREVIEW_BUNDLE_URL.replace('.', '\\.')}:(\\d+):(\\d+)`, 'g');
+
+type Mapper = (line: number, column: number) => SourcePosition | null;
+
+// Rewrites bundle positions in a stack trace to generated file positions
+export const mapStack = (stack: string, mapper: Mapper) =>
+  stack.replace(BUNDLE_FRAME, (frame, line, column) => {
+    const position = mapper(Number(line), Number(column));
+    return position ? `${position.file}:${position.line}:${position.column}` : frame;
+  });
+
+/**
+ * Locates a runtime error in the generated files: the first stack frame inside the bundle
+ * wins, falling back to the position the error event reported.
+ */
+export const toRuntimeReport = (
+  message: Extract<BridgeMessage, { type: 'error' }>,
+  mapper: Mapper,
+  files: Map<string, string>,
+): PreviewErrorReport => {
+  let position: SourcePosition | null = null;
+  const frame = message.stack ? [...message.stack.matchAll(BUNDLE_FRAME)][0] : undefined;
+  if (frame) position = mapper(Number(frame[1]), Number(frame[2]));
+  else if (message.filename?.endsWith(PREVIEW_BUNDLE_URL) && message.line) position = mapper(message.line, message.column || 1);
+
+  return {
+    kind: 'runtime',
+    message: message.message,
+    stack: message.stack ? mapStack(message.stack, mapper) : undefined,
+    ...(position && {
+      file: position.file,
+      line: position.line,
+      column: position.column,
+      lineText: files.get(position.file)?.split('\n')[position.line - 1],
+    }),
+  };
+};
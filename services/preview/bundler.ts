@@ -0,0 +1,290 @@
+import * as esbuild from 'esbuild-wasm';
+import esbuildWasmUrl from 'esbuild-wasm/esbuild.wasm?url';
+import { ParsedFile } from '../../types';
+import { parseJsonc } from '../jsonc';
+
+export interface BundleMessage {
+  text: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  lineText?: string;
+}
+
+export interface BundleOutput {
+  js: string;
+  css: string;
+  entry: string;
+  // Bare package imports left for the preview runtime to provide, e.g. "react-dom/client"
+  externals: string[];
+  // Relative imports that have not been generated yet (only when building with allowMissing)
+  missing: string[];
+  warnings: BundleMessage[];
+  // Source map for `js`, used to locate runtime errors in the generated files
+  sourceMap: string;
+}
+
+export class BundleError extends Error {
+  constructor(public messages: BundleMessage[]) {
+    super(messages[0]?.text || 'Build failed');
+    this.name = 'BundleError';
+  }
+}
+
+const EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.json', '.css'];
+const ENTRY_CANDIDATES = ['src/main.tsx', 'src/main.jsx', 'src/main.ts', 'src/main.js', 'src/index.tsx', 'src/index.jsx', 'src/index.js', 'main.tsx', 'index.tsx', 'index.jsx', 'index.js'];
+
+const LOADERS: Record<string, esbuild.Loader> = {
+  ts: 'ts', tsx: 'tsx', mts: 'ts', js: 'jsx', jsx: 'jsx', mjs: 'jsx', cjs: 'js', json: 'json', css: 'css',
+  svg: 'dataurl', png: 'dataurl', jpg: 'dataurl', jpeg: 'dataurl', gif: 'dataurl', webp: 'dataurl',
+};
+
+let initialization: Promise<void> | null = null;
+
+// esbuild can only be initialized once per page; every bundler shares the same worker
+export const ensureInitialized = () => {
+  if (!initialization) {
+    initialization = esbuild.initialize({ wasmURL: esbuildWasmUrl, worker: true }).catch(error => {
+      initialization = null;
+      throw error;
+    });
+  }
+  return initialization;
+};
+
+export const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (!part || part === '.') return;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  });
+  return parts.join('/');
+};
+
+// Generated file names keyed the way the bundler sees them ("./src/App.tsx" and "src/App.tsx" are the same file)
+export const toVirtualFiles = (files: ParsedFile[]) => new Map(files.map(file => [normalizePath(file.name), file.content]));
+
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+
+const extensionOf = (path: string) => path.split('/').pop()!.split('.').slice(1).pop()?.toLowerCase() || '';
+
+export const isBare = (specifier: string) => !/^(\.{1,2}\/|\/|[a-z]+:)/i.test(specifier);
+
+// Reads `compilerOptions.paths` so `@/components/x` style aliases resolve like they would in the generated project
+export const readPathAliases = (files: Map<string, string>): Array<[string, string]> => {
+  const aliases: Array<[string, string]> = [];
+  const tsconfig = files.get('tsconfig.json') || files.get('tsconfig.app.json');
+  if (tsconfig) {
+    try {
+      const json = parseJsonc(tsconfig) as { compilerOptions?: { baseUrl?: unknown; paths?: Record<string, unknown> } } | null;
+      const baseUrl = normalizePath(typeof json?.compilerOptions?.baseUrl === 'string' ? json.compilerOptions.baseUrl : '.');
+      Object.entries(json?.compilerOptions?.paths || {}).forEach(([pattern, targets]) => {
+        const target = Array.isArray(targets) ? targets[0] : undefined;
+        if (pattern.endsWith('/*') && typeof target === 'string' && target.endsWith('/*')) {
+          aliases.push([pattern.slice(0, -1), normalizePath(`${baseUrl}/${target.slice(0, -1)}`) + '/']);
+        }
+      });
+    } catch {
+      // A half-streamed or malformed tsconfig falls back to the default alias below
+    }
+  }
+  if (!aliases.some(([prefix]) => prefix === '@/')) {
+    aliases.push(['@/', [...files.keys()].some(name => name.startsWith('src/')) ? 'src/' : '']);
+  }
+  return aliases;
+};
+
+// The generated file an import of `base` refers to, trying extensions and index files like a bundler would
+export const resolveVirtualFile = (files: Map<string, string>, base: string): string | null => {
+  const candidates = [base, ...EXTENSIONS.map(ext => base + ext), ...EXTENSIONS.map(ext => `${base}/index${ext}`)];
+  // `import './App.js'` is valid TypeScript for a file named App.tsx
+  const stripped = base.replace(/\.(js|jsx|mjs)$/, '');
+  if (stripped !== base) candidates.push(...['.ts', '.tsx'].map(ext => stripped + ext));
+  return candidates.find(candidate => files.has(candidate)) || null;
+};
+
+export const findEntry = (files: Map<string, string>): string | null => {
+  const html = files.get('index.html');
+  const script = html?.match(/<script[^>]+type=["']module["'][^>]*src=["']([^"']+)["']/i)
+    || html?.match(/<script[^>]+src=["']([^"']+)["'][^>]*type=["']module["']/i);
+  if (script) {
+    const path = normalizePath(script[1]);
+    if (files.has(path)) return path;
+  }
+  return ENTRY_CANDIDATES.find(candidate => files.has(candidate)) || null;
+};
+
+// Names a file imports from `specifier`, so a placeholder for a not-yet-generated module can export exactly those
+const importedNames = (source: string, specifier: string) => {
+  const escaped = specifier.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const names = new Set<string>();
+  let hasDefault = false;
+  const pattern = new RegExp(`(?:import|export)\\s+(?:type\\s+)?([^;'"]*?)\\s+from\\s*['"]${escaped}['"]`, 'g');
+  for (const match of source.matchAll(pattern)) {
+    const clause = match[1];
+    const braces = clause.match(/\{([^}]*)\}/);
+    braces?.[1].split(',').forEach(part => {
+      const name = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0].trim();
+      if (name === 'default') hasDefault = true;
+      else if (/^[A-Za-z_$][\w$]*$/.test(name)) names.add(name);
+    });
+    if (/^[A-Za-z_$][\w$]*/.test(clause.replace(/^\{[^}]*\}/, '').trim())) hasDefault = true;
+  }
+  return { names: [...names], hasDefault };
+};
+
+const placeholderModule = ({ names, hasDefault }: { names: string[]; hasDefault: boolean }) => [
+  'const Placeholder = () => null;',
+  ...names.map(name => `export const ${name} = Placeholder;`),
+  hasDefault || names.length === 0 ? 'export default Placeholder;' : '',
+].join('\n');
+
+const toMessage = (message: esbuild.Message): BundleMessage => ({
+  text: message.text,
+  file: message.location?.file.replace(/^(vfs|missing|empty):/, '').replace(/\?from=.*$/, ''),
+  line: message.location?.line,
+  column: message.location?.column,
+  lineText: message.location?.lineText,
+});
+
+/**
+ * Bundles generated frontend files entirely in the browser. Files live in an in-memory
+ * filesystem that can be swapped with `update()`; `build()` reuses an esbuild context so
+ * rebuilds while a module is still streaming only reparse files whose contents changed.
+ */
+export class PreviewBundler {
+  private files = new Map<string, string>();
+  private context: esbuild.BuildContext | null = null;
+  private entry: string | null = null;
+  private externals = new Set<string>();
+  private missing = new Set<string>();
+  private aliases: Array<[string, string]> = [];
+
+  constructor(private options: { allowMissing?: boolean } = {}) {}
+
+  update(files: ParsedFile[]) {
+    this.files = toVirtualFiles(files);
+  }
+
+  setAllowMissing(allowMissing: boolean) {
+    this.options.allowMissing = allowMissing;
+  }
+
+  async build(): Promise<BundleOutput> {
+    await ensureInitialized();
+    const entry = findEntry(this.files);
+    if (!entry) throw new BundleError([{ text: 'No entry point found (expected index.html with a module script, or src/main.tsx)' }]);
+
+    // The entry is baked into the context, so a different entry needs a fresh one
+    if (this.context && this.entry !== entry) await this.dispose();
+    if (!this.context) {
+      this.entry = entry;
+      this.context = await esbuild.context({
+        entryPoints: [entry],
+        bundle: true,
+        write: false,
+        outdir: '/out',
+        format: 'esm',
+        platform: 'browser',
+        target: 'es2020',
+        jsx: 'automatic',
+        sourcemap: 'external',
+        sourcesContent: false,
+        logLevel: 'silent',
+        define: {
+          'process.env.NODE_ENV': '"development"',
+          'import.meta.env': JSON.stringify({ MODE: 'development', DEV: true, PROD: false, BASE_URL: '/' }),
+        },
+        plugins: [this.virtualFsPlugin()],
+      });
+    }
+
+    this.externals.clear();
+    this.missing.clear();
+    this.aliases = readPathAliases(this.files);
+    try {
+      const result = await this.context.rebuild();
+      const outputs = result.outputFiles || [];
+      return {
+        js: outputs.find(file => file.path.endsWith('.js'))?.text || '',
+        css: outputs.find(file => file.path.endsWith('.css'))?.text || '',
+        entry,
+        externals: [...this.externals].sort(),
+        missing: [...this.missing].sort(),
+        warnings: result.warnings.map(toMessage),
+        sourceMap: outputs.find(file => file.path.endsWith('.js.map'))?.text || '',
+      };
+    } catch (error) {
+      const failure = error as esbuild.BuildFailure;
+      if (Array.isArray(failure.errors)) throw new BundleError(failure.errors.map(toMessage));
+      throw error;
+    }
+  }
+
+  async dispose() {
+    const context = this.context;
+    this.context = null;
+    this.entry = null;
+    if (context) await context.dispose();
+  }
+
+  private virtualFsPlugin(): esbuild.Plugin {
+    return {
+      name: 'virtual-fs',
+      setup: build => {
+        build.onResolve({ filter: /.*/ }, args => {
+          if (args.kind === 'entry-point') return { path: normalizePath(args.path), namespace: 'vfs' };
+          if (/^(https?:)?\/\//.test(args.path) || args.path.startsWith('data:')) return { path: args.path, external: true };
+
+          let specifier = args.path.split('?')[0];
+          const alias = this.aliases.find(([prefix]) => specifier.startsWith(prefix));
+          if (alias) specifier = '/' + alias[1] + specifier.slice(alias[0].length);
+
+          if (isBare(specifier)) {
+            // Packages referenced from CSS (`@import "tailwindcss"`) are handled by the preview page itself
+            if (args.kind === 'import-rule' || args.kind === 'url-token') return { path: args.path, namespace: 'empty', pluginData: args.kind };
+            this.externals.add(args.path);
+            return { path: args.path, external: true };
+          }
+
+          const base = specifier.startsWith('/') ? normalizePath(specifier) : normalizePath(`${args.resolveDir}/${specifier}`);
+          const resolved = resolveVirtualFile(this.files, base);
+          if (resolved) return { path: resolved, namespace: 'vfs' };
+          if (args.kind === 'url-token' || args.kind === 'import-rule') return { path: base, namespace: 'empty', pluginData: args.kind };
+          if (this.options.allowMissing) {
+            this.missing.add(base);
+            // One placeholder per importer, since each may import different names
+            return {
+              path: `${base}?from=${args.importer}`,
+              namespace: 'missing',
+              pluginData: importedNames(this.files.get(args.importer) || '', args.path),
+            };
+          }
+          return { errors: [{ text: `Cannot resolve "${args.path}" from ${args.importer || 'entry'}` }] };
+        });
+
+        build.onLoad({ filter: /.*/, namespace: 'vfs' }, args => {
+          const extension = extensionOf(args.path);
+          return {
+            contents: this.files.get(args.path) || '',
+            loader: args.path.endsWith('.module.css') ? 'local-css' : LOADERS[extension] || 'text',
+            // esbuild resolves a relative resolveDir against its cwd, so the virtual tree is rooted at /
+            resolveDir: '/' + dirname(args.path),
+          };
+        });
+
+        // Files that have not streamed in yet render nothing instead of failing the whole build
+        build.onLoad({ filter: /.*/, namespace: 'missing' }, args => ({
+          contents: placeholderModule(args.pluginData),
+          loader: 'js',
+        }));
+
+        build.onLoad({ filter: /.*/, namespace: 'empty' }, args => ({
+          contents: '',
+          loader: args.pluginData === 'import-rule' ? 'css' : args.pluginData === 'url-token' ? 'dataurl' : 'js',
+        }));
+      },
+    };
+  }
+}
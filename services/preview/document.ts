@@ -0,0 +1,79 @@
+import { BundleOutput } from './bundler';
+import { PREVIEW_BUNDLE_URL, bridgeScript } from './bridge';
+import { PreviewRuntime, importMapBootstrap } from './runtime';
+
+const DEFAULT_HTML = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  </head>
+  <body>
+    <div id="root"></div>
+  </body>
+</html>`;
+
+export const packageName = (specifier: string) => {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+};
+
+const readDependencies = (packageJson?: string): Record<string, string> => {
+  if (!packageJson) return {};
+  try {
+    const json = JSON.parse(packageJson);
+    return { ...json.devDependencies, ...json.dependencies };
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Packages the runtime does not vendor can only come from esm.sh, pinned to the generated
+ * package.json. They are built against the vendored React so there is a single copy of it.
+ */
+export const buildFallbackImports = (externals: string[], runtime: PreviewRuntime, packageJson?: string): Record<string, string> => {
+  const dependencies = readDependencies(packageJson);
+  const vendoredPackages = [...new Set(runtime.modules.map(packageName))];
+  const imports: Record<string, string> = {};
+
+  externals.filter(specifier => !runtime.modules.includes(specifier)).forEach(specifier => {
+    const name = packageName(specifier);
+    const range = dependencies[name]?.replace(/^[\^~>=<\s]+/, '');
+    const version = range && /^\d/.test(range) ? `@${range}` : '';
+    imports[specifier] = `https://esm.sh/${name}${version}${specifier.slice(name.length)}?external=${vendoredPackages.join(',')}`;
+  });
+  return imports;
+};
+
+const escapeScript = (code: string) => code.replace(/<\/script/gi, '<\\/script');
+
+/**
+ * Turns a bundle into a standalone HTML document for the preview iframe. The generated
+ * index.html is kept (fonts, meta tags, root element) but its module scripts are replaced by
+ * the bundle, since they point at source files the browser cannot load.
+ */
+export const buildPreviewDocument = (bundle: BundleOutput, files: Map<string, string>, runtime: PreviewRuntime): string => {
+  let html = files.get('index.html') || DEFAULT_HTML;
+  html = html.replace(/<script[^>]*type=["']module["'][^>]*>[\s\S]*?<\/script>/gi, '');
+  html = html.replace(/<link[^>]+href=["']\/?src\/[^"']+\.css["'][^>]*>/gi, '');
+  // Generated pages often still reference the Tailwind CDN; the runtime ships its own build
+  html = html.replace(/<script[^>]+src=["'][^"']*(cdn\.tailwindcss\.com|@tailwindcss\/browser)[^"']*["'][^>]*>\s*<\/script>/gi, '');
+  if (!/id=["']root["']/.test(html)) html = html.replace(/<body([^>]*)>/i, '<body$1>\n    <div id="root"></div>');
+
+  const fallbackImports = buildFallbackImports(bundle.externals, runtime, files.get('package.json'));
+  const head = [
+    // First, so errors thrown while the runtime itself loads are reported too
+    `<script>${escapeScript(bridgeScript())}</script>`,
+    `<script>${escapeScript(runtime.tailwindScript)}</script>`,
+    `<script>${escapeScript(runtime.vendorScript)}</script>`,
+    `<script>${escapeScript(importMapBootstrap(fallbackImports))}</script>`,
+    bundle.css ? `<style>${bundle.css}</style>` : '',
+  ].join('\n    ');
+  // The bundle must start on the script's first line so stack positions line up with the source map
+  const body = `<script type="module">${escapeScript(bundle.js)}\n//# sourceURL=${PREVIEW_BUNDLE_URL}\n</script>`;
+
+  // Function replacers: the bundle itself may contain `$&`-style sequences
+  html = /<\/head>/i.test(html) ? html.replace(/<\/head>/i, () => `    ${head}\n  </head>`) : `${head}\n${html}`;
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, () => `  ${body}\n  </body>`) : `${html}\n${body}`;
+};
@@ -0,0 +1,112 @@
+import * as esbuild from 'esbuild-wasm';
+import { ensureInitialized } from './bundler';
+
+export interface PreviewRuntime {
+  // Classic script that defines `window.__previewModules`
+  vendorScript: string;
+  tailwindScript: string;
+  // Bare specifiers the vendor script provides
+  modules: string[];
+}
+
+// Global the vendor script writes its module namespaces to; read back by the import map shims
+export const RUNTIME_GLOBAL = '__previewModules';
+
+/**
+ * Package sources are pulled in as raw text so the preview never touches a CDN. React 19 only
+ * ships CommonJS builds and its package exports hide `cjs/`, hence the root-relative paths.
+ * The imports are lazy so the ~2 MB of sources only load once a preview is opened.
+ */
+const loadSources = async (): Promise<Record<string, string>> => {
+  const [react, jsxRuntime, jsxDevRuntime, reactDom, reactDomClient, scheduler, lucide] = await Promise.all([
+    import('/node_modules/react/cjs/react.development.js?raw'),
+    import('/node_modules/react/cjs/react-jsx-runtime.development.js?raw'),
+    import('/node_modules/react/cjs/react-jsx-dev-runtime.development.js?raw'),
+    import('/node_modules/react-dom/cjs/react-dom.development.js?raw'),
+    import('/node_modules/react-dom/cjs/react-dom-client.development.js?raw'),
+    import('/node_modules/scheduler/cjs/scheduler.development.js?raw'),
+    import('/node_modules/lucide-react/dist/umd/lucide-react.min.js?raw'),
+  ]);
+  return {
+    'react': react.default,
+    'react/jsx-runtime': jsxRuntime.default,
+    'react/jsx-dev-runtime': jsxDevRuntime.default,
+    'react-dom': reactDom.default,
+    'react-dom/client': reactDomClient.default,
+    'scheduler': scheduler.default,
+    'lucide-react': lucide.default,
+  };
+};
+
+// Modules generated code may import directly; `scheduler` is only an internal dependency of react-dom
+const EXPOSED_MODULES = ['react', 'react/jsx-runtime', 'react/jsx-dev-runtime', 'react-dom', 'react-dom/client', 'lucide-react'];
+
+const buildVendorScript = async (sources: Record<string, string>) => {
+  await ensureInitialized();
+  const entry = [
+    ...EXPOSED_MODULES.map((name, idx) => `import * as m${idx} from ${JSON.stringify(name)};`),
+    `window.${RUNTIME_GLOBAL} = {`,
+    ...EXPOSED_MODULES.map((name, idx) => `  ${JSON.stringify(name)}: m${idx},`),
+    '};',
+  ].join('\n');
+
+  const result = await esbuild.build({
+    stdin: { contents: entry, loader: 'js', sourcefile: 'preview-vendor.js' },
+    bundle: true,
+    write: false,
+    format: 'iife',
+    platform: 'browser',
+    target: 'es2020',
+    minify: true,
+    logLevel: 'silent',
+    define: { 'process.env.NODE_ENV': '"development"' },
+    plugins: [{
+      name: 'preview-vendor',
+      setup: build => {
+        build.onResolve({ filter: /.*/ }, args => (args.path in sources ? { path: args.path, namespace: 'vendor' } : { errors: [{ text: `Preview runtime does not bundle "${args.path}"` }] }));
+        build.onLoad({ filter: /.*/, namespace: 'vendor' }, args => ({ contents: sources[args.path], loader: 'js' }));
+      },
+    }],
+  });
+  return result.outputFiles[0].text;
+};
+
+let runtime: Promise<PreviewRuntime> | null = null;
+
+export const loadPreviewRuntime = (): Promise<PreviewRuntime> => {
+  if (!runtime) {
+    runtime = (async () => {
+      const [sources, tailwind] = await Promise.all([loadSources(), import('@tailwindcss/browser?raw')]);
+      return { vendorScript: await buildVendorScript(sources), tailwindScript: tailwind.default, modules: EXPOSED_MODULES };
+    })().catch(error => {
+      runtime = null;
+      throw error;
+    });
+  }
+  return runtime;
+};
+
+/**
+ * Classic script run inside the preview before any module: it turns each vendored namespace into a
+ * `data:` module re-exporting its members and registers them in an import map. This has to happen
+ * at runtime because the export names are only known once the vendor script has executed.
+ */
+export const importMapBootstrap = (fallbackImports: Record<string, string>) => `
+(() => {
+  const modules = window.${RUNTIME_GLOBAL};
+  const imports = ${JSON.stringify(fallbackImports)};
+  const identifier = /^[A-Za-z_$][\\w$]*$/;
+  Object.keys(modules).forEach(name => {
+    const ns = modules[name];
+    const keys = Object.keys(ns).filter(key => key !== 'default' && identifier.test(key));
+    const source = 'const m = window.${RUNTIME_GLOBAL}[' + JSON.stringify(name) + '];\\n'
+      + 'export default (m.default ?? m);\\n'
+      + (keys.length ? 'export const { ' + keys.join(', ') + ' } = m;\\n' : '');
+    imports[name] = 'data:text/javascript;charset=utf-8,' + encodeURIComponent(source);
+  });
+  const map = document.createElement('script');
+  map.type = 'importmap';
+  map.textContent = JSON.stringify({ imports });
+  document.currentScript.after(map);
+})();
+`;
@@ -0,0 +1,78 @@
+export interface SourcePosition {
+  file: string;
+  // 1-based like editor and esbuild message locations
+  line: number;
+  column: number;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64].map((char, idx) => [char, idx]));
+
+const decodeVLQ = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char) ?? 0;
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+};
+
+// [generatedColumn, sourceIndex, sourceLine, sourceColumn], all 0-based
+type Mapping = [number, number, number, number];
+
+/**
+ * Maps positions in the preview bundle back to the generated files using the esbuild
+ * source map. Only the fields esbuild emits are handled (no sections or index maps).
+ */
+export const createSourceMapper = (sourceMap: string) => {
+  let parsed: { sources?: string[]; mappings?: string };
+  try {
+    parsed = JSON.parse(sourceMap);
+  } catch {
+    return () => null;
+  }
+  const sources = (parsed.sources || []).map(source => source.replace(/^(\.\.\/)+/, '').replace(/^(vfs|missing|empty):/, ''));
+
+  // Source fields are deltas that carry over between lines; only the column resets per line
+  const lines: Mapping[][] = [];
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  (parsed.mappings || '').split(';').forEach(line => {
+    const mappings: Mapping[] = [];
+    let column = 0;
+    line.split(',').forEach(segment => {
+      if (!segment) return;
+      const fields = decodeVLQ(segment);
+      column += fields[0];
+      if (fields.length < 4) return;
+      sourceIndex += fields[1];
+      sourceLine += fields[2];
+      sourceColumn += fields[3];
+      mappings.push([column, sourceIndex, sourceLine, sourceColumn]);
+    });
+    lines.push(mappings);
+  });
+
+  return (line: number, column: number): SourcePosition | null => {
+    const mappings = lines[line - 1];
+    if (!mappings?.length) return null;
+    // Last mapping starting at or before the column; errors at the start of a line use the first
+    let match = mappings[0];
+    for (const mapping of mappings) {
+      if (mapping[0] > column - 1) break;
+      match = mapping;
+    }
+    const file = sources[match[1]];
+    return file ? { file, line: match[2] + 1, column: match[3] + 1 } : null;
+  };
+};
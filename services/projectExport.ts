@@ -0,0 +1,120 @@
+import JSZip from 'jszip';
+import { Blueprint, ModuleKind } from "../types";
+import { FileEntry, applyFileChanges, parseFiles } from "./fileProtocol";
+import { generateSchemaFiles } from "./schemaExport";
+import { createGitRepository } from "./gitRepo";
+
+// Written when a module's output contains no <file> blocks
+export const MODULE_GUIDE_NAMES: Record<ModuleKind, string> = {
+  frontend: 'frontend-guide.md',
+  backend: 'backend-guide.md',
+  deployment: 'deployment.md',
+};
+
+const MODULE_ORDER: ModuleKind[] = ['frontend', 'backend', 'deployment'];
+
+/**
+ * - flat: every module at the project root; frontend and backend files with the same name clash
+ * - monorepo: apps/web, apps/api and infra/ under one root with npm workspaces
+ * - separate: one folder, and one repository, per module
+ */
+export type ExportLayout = 'flat' | 'monorepo' | 'separate';
+
+export const EXPORT_LAYOUTS: Array<{ layout: ExportLayout; label: string; description: string }> = [
+  { layout: 'monorepo', label: 'Monorepo', description: 'apps/web, apps/api and infra/ with npm workspaces' },
+  { layout: 'separate', label: 'Separate repos', description: 'One folder per module, each its own repository' },
+  { layout: 'flat', label: 'Single folder', description: 'All modules merged at the root, as before' },
+];
+
+const MONOREPO_DIRS: Record<ModuleKind, string> = { frontend: 'apps/web', backend: 'apps/api', deployment: 'infra' };
+const REPO_SUFFIXES: Record<ModuleKind, string> = { frontend: 'web', backend: 'api', deployment: 'infra' };
+
+const DEFAULT_GITIGNORE = ['node_modules/', 'dist/', 'build/', '.env', '.env.local', '__pycache__/', '.venv/', ''].join('\n');
+
+export interface ExportRepository {
+  // Folder inside the project root; empty for the root itself
+  path: string;
+  files: FileEntry[];
+}
+
+export interface ProjectLayout {
+  repositories: ExportRepository[];
+  // Files outside any repository, at the project root
+  extras: FileEntry[];
+}
+
+type ModuleSources = Partial<Record<ModuleKind, string | null>>;
+
+const moduleEntries = (module: ModuleKind, content: string): FileEntry[] => {
+  const parsed = applyFileChanges([], parseFiles(content)).files;
+  return parsed.length > 0 ? parsed : [{ name: MODULE_GUIDE_NAMES[module], content }];
+};
+
+const prefixed = (dir: string, files: FileEntry[]) => files.map(file => ({ name: `${dir}/${file.name}`, content: file.content }));
+
+// Later entries win on name clashes
+const dedupe = (files: FileEntry[]) => [...new Map(files.map(file => [file.name, file.content]))].map(([name, content]) => ({ name, content }));
+
+/** The files of an exported project grouped into the repositories of `layout`. */
+export const projectLayout = (blueprint: Blueprint, modules: ModuleSources, layout: ExportLayout, slug: string): ProjectLayout => {
+  const present = MODULE_ORDER.filter(module => modules[module]).map(module => ({ module, files: moduleEntries(module, modules[module]!) }));
+  // Schema files are generated locally so they are always present, even without model output
+  const schemaFiles = generateSchemaFiles(blueprint);
+  const blueprintFile = { name: 'blueprint.json', content: JSON.stringify(blueprint, null, 2) };
+
+  if (layout === 'separate') {
+    const repositories = present.map(({ module, files }) => ({
+      path: `${slug}-${REPO_SUFFIXES[module]}`,
+      files: dedupe(module === 'backend' ? [...files, ...schemaFiles] : files),
+    }));
+    // Without generated backend code the schema still gets a home
+    if (schemaFiles.length > 0 && !modules.backend) repositories.push({ path: `${slug}-${REPO_SUFFIXES.backend}`, files: schemaFiles });
+    return { repositories, extras: [blueprintFile] };
+  }
+
+  if (layout === 'monorepo') {
+    const files = present.flatMap(({ module, files }) => prefixed(MONOREPO_DIRS[module], files));
+    const workspaces = present
+      .filter(({ files }) => files.some(file => file.name === 'package.json'))
+      .map(({ module }) => MONOREPO_DIRS[module]);
+    const rootPackage = workspaces.length > 0
+      ? [{ name: 'package.json', content: JSON.stringify({ name: slug, private: true, workspaces }, null, 2) + '\n' }]
+      : [];
+    return { repositories: [{ path: '', files: dedupe([...files, ...schemaFiles, ...rootPackage, blueprintFile]) }], extras: [] };
+  }
+
+  return { repositories: [{ path: '', files: dedupe([...present.flatMap(({ files }) => files), ...schemaFiles, blueprintFile]) }], extras: [] };
+};
+
+/** Every file of the project in a single folder, relative to the project root. */
+export const collectProjectFiles = (blueprint: Blueprint, modules: ModuleSources): FileEntry[] =>
+  projectLayout(blueprint, modules, 'flat', 'project').repositories[0].files;
+
+export interface ArchiveOptions {
+  layout: ExportLayout;
+  // Initialize each repository with a commit of its files
+  git: boolean;
+}
+
+/** A zip of the project under a `slug/` folder, laid out and optionally committed as requested. */
+export const buildProjectArchive = async (blueprint: Blueprint, modules: ModuleSources, slug: string, options: ArchiveOptions): Promise<Blob> => {
+  const zip = new JSZip();
+  const { repositories, extras } = projectLayout(blueprint, modules, options.layout, slug);
+  const base = (path: string) => [slug, path].filter(Boolean).join('/');
+
+  for (const repository of repositories) {
+    const files = options.git && !repository.files.some(file => file.name === '.gitignore')
+      ? [...repository.files, { name: '.gitignore', content: DEFAULT_GITIGNORE }]
+      : repository.files;
+    files.forEach(file => zip.file(`${base(repository.path)}/${file.name}`, file.content));
+    if (!options.git) continue;
+    const git = await createGitRepository(files, {
+      message: `Initial commit of ${blueprint.appName}\n\nGenerated by DevArchitect.`,
+      author: { name: 'DevArchitect', email: 'devarchitect@users.noreply.local' },
+    });
+    git.forEach(file => zip.file(`${base(repository.path)}/${file.name}`, file.content));
+  }
+  extras.forEach(file => zip.file(`${slug}/${file.name}`, file.content));
+
+  return zip.generateAsync({ type: "blob" });
+};
@@ -0,0 +1,234 @@
+import { AppStatus, Blueprint, CodeSnapshot, GenerationErrorKind, ModuleKind, ModuleState, ModuleStatus, ProviderConfig, ProviderKind, SavedProject, SchemaField, SchemaModel, SchemaRelationship, TabOption } from "../types";
+import { DEFAULT_PROVIDER } from "./providers";
+import { createProjectId } from "./projectStore";
+import { normalizeBlueprint, parseFieldType } from "./schemaMigration";
+import { CARDINALITIES, ON_DELETE_ACTIONS } from "./schema";
+
+/**
+ * A portable copy of a saved project and its version history. Importing one creates a new
+ * project, so a manifest can be imported more than once or into another browser.
+ */
+
+export const MANIFEST_FORMAT = 'devarchitect-project';
+export const MANIFEST_VERSION = 1;
+
+const MODULES: ModuleKind[] = ['frontend', 'backend', 'deployment'];
+
+export interface ProjectManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Omit<SavedProject, 'id'>;
+  snapshots: Array<Omit<CodeSnapshot, 'id' | 'projectId'>>;
+}
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManifestError';
+  }
+}
+
+export const createProjectManifest = (project: SavedProject, snapshots: CodeSnapshot[]): ProjectManifest => {
+  const { id: _id, ...rest } = project;
+  // API keys stay in the browser they were entered in
+  const { apiKey: _apiKey, ...provider } = project.provider || DEFAULT_PROVIDER;
+  return {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { ...rest, provider },
+    snapshots: snapshots.map(({ id: _snapshotId, projectId: _projectId, ...snapshot }) => snapshot),
+  };
+};
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const oneOf = <T extends string>(allowed: readonly T[], value: unknown): T | undefined =>
+  allowed.find(option => option === value);
+
+const PROVIDER_KINDS: ProviderKind[] = ['gemini', 'openai', 'mock'];
+const ERROR_KINDS: GenerationErrorKind[] = ['auth', 'rate-limit', 'safety', 'network', 'malformed', 'unknown'];
+
+const readProvider = (value: unknown): ProviderConfig => {
+  const kind = isFields(value) ? oneOf(PROVIDER_KINDS, value.kind) : undefined;
+  if (!isFields(value) || !kind) return DEFAULT_PROVIDER;
+  return { kind, model: optionalString(value.model), baseUrl: optionalString(value.baseUrl) };
+};
+
+// A blueprint that is present but malformed rejects the whole manifest: imported projects are
+// reopened on every load, so one that breaks the schema generators would break the app each time
+const malformed = (path: string, expected: string): never => {
+  throw new ManifestError(`The blueprint in the manifest is malformed: ${path} must be ${expected}`);
+};
+
+// Sections and lists a manifest leaves out fall back to empty; ones of the wrong shape are rejected
+const readSection = (value: unknown, path: string): Fields =>
+  value === undefined || value === null ? {} : isFields(value) ? value : malformed(path, 'an object');
+
+const readList = (value: unknown, path: string): unknown[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : malformed(path, 'a list');
+
+const readText = (value: unknown, path: string, required = false): string =>
+  typeof value === 'string' ? value : value === undefined && !required ? '' : malformed(path, 'text');
+
+const readTextList = (value: unknown, path: string): string[] =>
+  readList(value, path).map((item, index) => readText(item, `${path}[${index}]`, true));
+
+const readScore = (value: unknown, path: string): number =>
+  typeof value === 'number' ? value : value === undefined ? 0 : malformed(path, 'a number');
+
+const readSchemaField = (value: unknown, path: string): SchemaField => {
+  const field = isFields(value) ? value : malformed(path, 'an object');
+  const defaultValue = field.defaultValue === undefined || field.defaultValue === null ? undefined : readText(field.defaultValue, `${path}.defaultValue`);
+  return {
+    name: readText(field.name, `${path}.name`, true),
+    type: parseFieldType(readText(field.type, `${path}.type`, true)),
+    nullable: Boolean(field.nullable),
+    defaultValue: defaultValue || undefined,
+    unique: Boolean(field.unique),
+    index: Boolean(field.index),
+    primaryKey: Boolean(field.primaryKey),
+  };
+};
+
+const readSchemaRelationship = (value: unknown, path: string): SchemaRelationship => {
+  const relationship = isFields(value) ? value : malformed(path, 'an object');
+  const foreignKey = relationship.foreignKey === undefined || relationship.foreignKey === null
+    ? undefined
+    : readText(relationship.foreignKey, `${path}.foreignKey`);
+  return {
+    target: readText(relationship.target, `${path}.target`, true),
+    cardinality: oneOf(CARDINALITIES, relationship.cardinality) ?? 'many-to-one',
+    foreignKey: foreignKey || undefined,
+    onDelete: oneOf(ON_DELETE_ACTIONS, relationship.onDelete),
+  };
+};
+
+const readSchemaModel = (value: unknown, path: string): SchemaModel => {
+  const model = isFields(value) ? value : malformed(path, 'an object');
+  return {
+    name: readText(model.name, `${path}.name`, true),
+    fields: readList(model.fields, `${path}.fields`).map((field, index) => readSchemaField(field, `${path}.fields[${index}]`)),
+    relationships: readList(model.relationships, `${path}.relationships`)
+      .map((relationship, index) => readSchemaRelationship(relationship, `${path}.relationships[${index}]`)),
+  };
+};
+
+const readBlueprint = (value: unknown): Blueprint | null => {
+  if (value === undefined || value === null) return null;
+  const blueprint = readSection(value, 'blueprint');
+  const techStack = readSection(blueprint.techStack, 'techStack');
+  const architecture = readSection(blueprint.architecture, 'architecture');
+  const schema = readSection(blueprint.databaseSchema, 'databaseSchema');
+  const complexity = readSection(blueprint.estimatedComplexity, 'estimatedComplexity');
+  // Still normalized, which infers foreign keys the same way a freshly generated blueprint gets them
+  return normalizeBlueprint({
+    appName: readText(blueprint.appName, 'appName', true),
+    tagline: readText(blueprint.tagline, 'tagline'),
+    summary: readText(blueprint.summary, 'summary'),
+    techStack: {
+      frontend: readTextList(techStack.frontend, 'techStack.frontend'),
+      backend: readTextList(techStack.backend, 'techStack.backend'),
+      database: readTextList(techStack.database, 'techStack.database'),
+      devOps: readTextList(techStack.devOps, 'techStack.devOps'),
+    },
+    authentication: readTextList(blueprint.authentication, 'authentication'),
+    architecture: {
+      pattern: readText(architecture.pattern, 'architecture.pattern'),
+      explanation: readText(architecture.explanation, 'architecture.explanation'),
+      flowSteps: readTextList(architecture.flowSteps, 'architecture.flowSteps'),
+    },
+    databaseSchema: {
+      models: readList(schema.models, 'databaseSchema.models').map((model, index) => readSchemaModel(model, `databaseSchema.models[${index}]`)),
+    },
+    securityFeatures: readTextList(blueprint.securityFeatures, 'securityFeatures'),
+    estimatedComplexity: {
+      frontend: readScore(complexity.frontend, 'estimatedComplexity.frontend'),
+      backend: readScore(complexity.backend, 'estimatedComplexity.backend'),
+      devOps: readScore(complexity.devOps, 'estimatedComplexity.devOps'),
+      security: readScore(complexity.security, 'estimatedComplexity.security'),
+    },
+  });
+};
+
+const readCode = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const readGeneratedCode = (value: unknown): Partial<Record<ModuleKind, string>> | undefined => {
+  if (!isFields(value)) return undefined;
+  return Object.fromEntries(MODULES.filter(module => typeof value[module] === 'string').map(module => [module, value[module]]));
+};
+
+const readModuleState = (value: unknown): ModuleState | null => {
+  const status = isFields(value) ? oneOf(Object.values(ModuleStatus), value.status) : undefined;
+  if (!isFields(value) || !status) return null;
+  const error = isFields(value.error) && typeof value.error.message === 'string'
+    ? { kind: oneOf(ERROR_KINDS, value.error.kind) ?? 'unknown', message: value.error.message }
+    : undefined;
+  return { status, error, attempt: typeof value.attempt === 'number' ? value.attempt : undefined };
+};
+
+// Only complete sets are kept; the app derives module states from the code otherwise
+const readModuleStates = (value: unknown): Record<ModuleKind, ModuleState> | undefined => {
+  if (!isFields(value)) return undefined;
+  const states = MODULES.map(module => [module, readModuleState(value[module])] as const);
+  return states.every(([, state]) => state) ? Object.fromEntries(states) as Record<ModuleKind, ModuleState> : undefined;
+};
+
+const readSnapshot = (value: unknown, projectId: string, now: number): CodeSnapshot | null => {
+  const module = isFields(value) ? oneOf(MODULES, value.module) : undefined;
+  if (!isFields(value) || !module || typeof value.content !== 'string') return null;
+  return {
+    id: createProjectId(),
+    projectId,
+    module,
+    source: value.source === 'edits' ? 'edits' : 'generation',
+    content: value.content,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : now,
+  };
+};
+
+/** Rebuilds the project under a new id. Throws a ManifestError for anything that is not a manifest this version can read. */
+export const readProjectManifest = (text: string): { project: SavedProject; snapshots: CodeSnapshot[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ManifestError('The file is not valid JSON');
+  }
+  if (!isFields(data) || data.format !== MANIFEST_FORMAT || !isFields(data.project)) {
+    throw new ManifestError('The file is not a DevArchitect project manifest');
+  }
+  if (typeof data.version !== 'number' || data.version > MANIFEST_VERSION) {
+    throw new ManifestError(`Manifest version ${String(data.version)} is newer than this app supports`);
+  }
+
+  const source = data.project;
+  const id = createProjectId();
+  const now = Date.now();
+  const project: SavedProject = {
+    id,
+    name: typeof source.name === 'string' && source.name.trim() ? source.name : 'Imported project',
+    status: oneOf(Object.values(AppStatus), source.status) ?? AppStatus.IDLE,
+    provider: readProvider(source.provider),
+    requirements: optionalString(source.requirements) ?? '',
+    blueprint: readBlueprint(source.blueprint),
+    frontendCode: readCode(source.frontendCode),
+    backendCode: readCode(source.backendCode),
+    deploymentGuide: readCode(source.deploymentGuide),
+    generatedCode: readGeneratedCode(source.generatedCode),
+    moduleStates: readModuleStates(source.moduleStates),
+    error: readCode(source.error),
+    activeTab: oneOf(Object.values(TabOption), source.activeTab) ?? TabOption.SUMMARY,
+    createdAt: typeof source.createdAt === 'number' ? source.createdAt : now,
+    updatedAt: now,
+  };
+  const snapshots = (Array.isArray(data.snapshots) ? data.snapshots : [])
+    .map(snapshot => readSnapshot(snapshot, id, now))
+    .filter((snapshot): snapshot is CodeSnapshot => snapshot !== null);
+  return { project, snapshots };
+};
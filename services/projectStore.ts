@@ -0,0 +1,140 @@
+import { CodeSnapshot, FolderSyncBinding, ProjectSummary, SavedProject } from "../types";
+
+const DB_NAME = "devarchitect";
+const DB_VERSION = 3;
+const STORE = "projects";
+const SNAPSHOT_STORE = "snapshots";
+// Kept apart from projects since directory handles cannot be serialized to JSON
+const SYNC_STORE = "folderSync";
+// Older snapshots of a module are dropped beyond this
+const MAX_SNAPSHOTS_PER_MODULE = 20;
+const ACTIVE_KEY = "devarchitect.activeProject";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        const store = db.createObjectStore(SNAPSHOT_STORE, { keyPath: "id" });
+        store.createIndex("projectId", "projectId");
+      }
+      if (!db.objectStoreNames.contains(SYNC_STORE)) {
+        db.createObjectStore(SYNC_STORE, { keyPath: "projectId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. blocked upgrade)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+};
+
+export const createProjectId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const all = await run<SavedProject[]>("readonly", store => store.getAll());
+  return all
+    .map(({ id, name, status, createdAt, updatedAt }) => ({ id, name, status, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<SavedProject | null> => {
+  const project = await run<SavedProject | undefined>("readonly", store => store.get(id));
+  return project || null;
+};
+
+export const saveProject = async (project: SavedProject): Promise<void> => {
+  await run("readwrite", store => store.put(project));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await loadProject(id);
+  if (!project) throw new Error(`Project ${id} not found`);
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await run("readwrite", store => store.delete(id));
+  const snapshots = await listSnapshots(id);
+  await Promise.all(snapshots.map(snapshot => run("readwrite", store => store.delete(snapshot.id), SNAPSHOT_STORE)));
+  await run("readwrite", store => store.delete(id), SYNC_STORE);
+  if (getActiveProjectId() === id) setActiveProjectId(null);
+};
+
+// Oldest first
+export const listSnapshots = async (projectId: string): Promise<CodeSnapshot[]> => {
+  const all = await run<CodeSnapshot[]>("readonly", store => store.index("projectId").getAll(projectId), SNAPSHOT_STORE);
+  return all.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Saves a snapshot and prunes the module's oldest ones; returns the ids that were pruned
+export const saveSnapshot = async (snapshot: CodeSnapshot): Promise<string[]> => {
+  await run("readwrite", store => store.put(snapshot), SNAPSHOT_STORE);
+  const sameModule = (await listSnapshots(snapshot.projectId)).filter(entry => entry.module === snapshot.module);
+  const pruned = sameModule.slice(0, Math.max(0, sameModule.length - MAX_SNAPSHOTS_PER_MODULE)).map(entry => entry.id);
+  await Promise.all(pruned.map(id => run("readwrite", store => store.delete(id), SNAPSHOT_STORE)));
+  return pruned;
+};
+
+export const loadFolderSync = async (projectId: string): Promise<FolderSyncBinding | null> => {
+  const binding = await run<FolderSyncBinding | undefined>("readonly", store => store.get(projectId), SYNC_STORE);
+  return binding || null;
+};
+
+export const saveFolderSync = async (binding: FolderSyncBinding): Promise<void> => {
+  await run("readwrite", store => store.put(binding), SYNC_STORE);
+};
+
+// Small settings live in localStorage, which throws when storage is disabled (private mode);
+// reads then fall back to the default and writes only last for the session
+export const readSetting = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+export const writeSetting = (key: string, value: string | null) => {
+  try {
+    if (value !== null) localStorage.setItem(key, value);
+    else localStorage.removeItem(key);
+  } catch {
+    // Nothing to do; the setting still applies until the page is closed
+  }
+};
+
+// The active project id lives in localStorage so a refresh can reopen it synchronously
+export const getActiveProjectId = (): string | null => readSetting(ACTIVE_KEY);
+
+export const setActiveProjectId = (id: string | null) => writeSetting(ACTIVE_KEY, id || null);
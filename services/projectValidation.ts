@@ -0,0 +1,271 @@
+import * as esbuild from 'esbuild-wasm';
+import { parseAllDocuments } from 'yaml';
+import { ModuleKind } from '../types';
+import { FileEntry } from './fileProtocol';
+import { blankJsonc } from './jsonc';
+import { ensureInitialized, findEntry, isBare, normalizePath, readPathAliases, resolveVirtualFile } from './preview/bundler';
+
+export type ValidationCheck = 'entry' | 'json' | 'yaml' | 'import' | 'dependency' | 'syntax';
+
+export interface ValidationIssue {
+  check: ValidationCheck;
+  severity: 'error' | 'warning';
+  // Normalized name of the file to fix; absent when a required file was never generated
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+const SCRIPT_LOADERS: Record<string, esbuild.Loader> = {
+  ts: 'ts', mts: 'ts', cts: 'ts', tsx: 'tsx', js: 'jsx', jsx: 'jsx', mjs: 'jsx', cjs: 'js',
+};
+
+const ASSET_EXTENSIONS = /\.(svg|png|jpe?g|gif|webp|ico|avif|woff2?|ttf|otf|mp4|webm|mp3|wav)$/i;
+
+const BACKEND_ENTRIES = ['src/server.ts', 'src/server.js', 'src/index.ts', 'src/index.js', 'src/main.ts', 'server.ts', 'server.js', 'index.ts', 'index.js'];
+
+const NODE_BUILTINS = new Set([
+  'assert', 'async_hooks', 'buffer', 'child_process', 'cluster', 'console', 'crypto', 'dgram', 'diagnostics_channel', 'dns',
+  'events', 'fs', 'fs/promises', 'http', 'http2', 'https', 'inspector', 'module', 'net', 'os', 'path', 'perf_hooks', 'process',
+  'querystring', 'readline', 'repl', 'stream', 'stream/promises', 'string_decoder', 'timers', 'tls', 'tty', 'url', 'util', 'v8',
+  'vm', 'worker_threads', 'zlib',
+]);
+
+const extensionOf = (name: string) => name.split('/').pop()!.split('.').slice(1).pop()?.toLowerCase() || '';
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+const lineAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+// Blanks out comments without moving anything, so offsets still map to the original lines
+const blankComments = (source: string) =>
+  source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, comment => comment.replace(/[^\n]/g, ' '));
+
+// tsconfig and friends are JSON with comments and trailing commas
+const isJsonc = (name: string) => /(^|\/)(tsconfig[^/]*|jsconfig[^/]*|\.vscode\/[^/]+|\.eslintrc)\.json$/.test(name) || name.endsWith('.jsonc');
+
+const checkJson = (name: string, content: string): ValidationIssue[] => {
+  const text = isJsonc(name) ? blankJsonc(content) : content;
+  try {
+    JSON.parse(text);
+    return [];
+  } catch (error) {
+    const message = (error as Error).message;
+    const position = Number(message.match(/at position (\d+)/)?.[1]);
+    const lineColumn = message.match(/line (\d+) column (\d+)/);
+    return [{
+      check: 'json',
+      severity: 'error',
+      file: name,
+      line: lineColumn ? Number(lineColumn[1]) : Number.isNaN(position) ? undefined : lineAt(text, position),
+      column: lineColumn ? Number(lineColumn[2]) : undefined,
+      // Engines append the location, or echo the whole input, to the message
+      message: `Invalid JSON: ${message.replace(/\s*\(line \d+ column \d+\)/, '').replace(/, (\.\.\.)?"[\s\S]*" is not valid JSON$/, '')}`,
+    }];
+  }
+};
+
+const checkYaml = (name: string, content: string): ValidationIssue[] =>
+  // docker-compose files and Kubernetes manifests often hold several documents
+  parseAllDocuments(content).flatMap(doc => doc.errors.map((error): ValidationIssue => ({
+    check: 'yaml',
+    severity: 'error',
+    file: name,
+    line: error.linePos?.[0].line,
+    column: error.linePos?.[0].col,
+    message: `Invalid YAML: ${error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '')}`,
+  })));
+
+interface ImportReference {
+  specifier: string;
+  line: number;
+}
+
+const IMPORT_PATTERNS = [
+  // import x from '…', import '…', export { x } from '…' (the clause may span lines)
+  /\b(?:import|export)\s+(?:type\s+)?(?:[^'";]*?\s+from\s*)?['"]([^'"\n]+)['"]/g,
+  // import('…'), require('…')
+  /\b(?:import|require)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+];
+
+const findImports = (source: string): ImportReference[] => {
+  const code = blankComments(source);
+  return IMPORT_PATTERNS.flatMap(pattern => [...code.matchAll(pattern)].map(match => ({
+    specifier: match[1],
+    line: lineAt(code, match.index! + match[0].indexOf(match[1])),
+  })));
+};
+
+// "@scope/pkg/sub" -> "@scope/pkg", "pkg/sub" -> "pkg"
+const packageName = (specifier: string) => specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+
+// The closest package.json at or above the importing file
+const findManifest = (files: Map<string, string>, name: string): string | null => {
+  let dir = dirname(name);
+  for (;;) {
+    const candidate = dir ? `${dir}/package.json` : 'package.json';
+    if (files.has(candidate)) return candidate;
+    if (!dir) return null;
+    dir = dirname(dir);
+  }
+};
+
+const listedDependencies = (manifest: string): Set<string> | null => {
+  try {
+    const json = JSON.parse(manifest);
+    return new Set([json.name, ...['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'].flatMap(key => Object.keys(json[key] || {}))]);
+  } catch {
+    // Reported by the JSON check
+    return null;
+  }
+};
+
+const checkImports = (files: Map<string, string>): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const aliases = readPathAliases(files);
+  // Undeclared packages, reported once per manifest with the files importing them
+  const undeclared = new Map<string, Map<string, string[]>>();
+
+  files.forEach((content, name) => {
+    if (!SCRIPT_LOADERS[extensionOf(name)]) return;
+    findImports(content).forEach(({ specifier: raw, line }) => {
+      let specifier = raw.split('?')[0];
+      if (/^(https?:)?\/\//.test(specifier) || /^[a-z][\w+.-]*:/i.test(specifier)) return;
+      const alias = aliases.find(([prefix]) => specifier.startsWith(prefix));
+      if (alias) specifier = '/' + alias[1] + specifier.slice(alias[0].length);
+
+      if (isBare(specifier)) {
+        const pkg = packageName(specifier);
+        if (NODE_BUILTINS.has(pkg) || NODE_BUILTINS.has(specifier)) return;
+        const manifest = findManifest(files, name);
+        const listed = manifest && listedDependencies(files.get(manifest)!);
+        if (!listed || listed.has(pkg) || listed.has(`@types/${pkg}`)) return;
+        const packages = undeclared.get(manifest!) ?? new Map<string, string[]>();
+        packages.set(pkg, [...(packages.get(pkg) ?? []), name]);
+        undeclared.set(manifest!, packages);
+        return;
+      }
+
+      const base = specifier.startsWith('/') ? normalizePath(specifier) : normalizePath(`${dirname(name)}/${specifier}`);
+      if (resolveVirtualFile(files, base)) return;
+      // Vite serves absolute asset URLs from public/
+      const isAsset = ASSET_EXTENSIONS.test(base);
+      if (isAsset && specifier.startsWith('/') && files.has(`public/${base}`)) return;
+      issues.push({
+        check: 'import',
+        severity: isAsset ? 'warning' : 'error',
+        file: name,
+        line,
+        message: `Imports "${raw}", but no such file was generated`,
+      });
+    });
+  });
+
+  undeclared.forEach((packages, manifest) => packages.forEach((importers, pkg) => {
+    const unique = [...new Set(importers)];
+    const others = unique.length > 1 ? ` and ${unique.length - 1} other file${unique.length > 2 ? 's' : ''}` : '';
+    issues.push({
+      check: 'dependency',
+      severity: 'warning',
+      file: manifest,
+      message: `"${pkg}" is imported by ${unique[0]}${others} but is not listed in ${manifest}`,
+    });
+  }));
+  return issues;
+};
+
+const isScriptProject = (files: Map<string, string>) =>
+  files.has('package.json') || [...files.keys()].some(name => Boolean(SCRIPT_LOADERS[extensionOf(name)]));
+
+const checkEntries = (module: ModuleKind, files: Map<string, string>): ValidationIssue[] => {
+  const missing = (message: string): ValidationIssue => ({ check: 'entry', severity: 'error', message });
+  const issues: ValidationIssue[] = [];
+
+  if (module === 'frontend' && isScriptProject(files)) {
+    if (!files.has('package.json')) issues.push(missing('Missing package.json'));
+    const html = files.get('index.html');
+    if (html === undefined) {
+      issues.push(missing('Missing index.html'));
+    } else {
+      const script = html.match(/<script[^>]+src=["']([^"']+)["']/i);
+      if (script && !/^(https?:)?\/\//.test(script[1]) && !files.has(normalizePath(script[1]))) {
+        issues.push({ check: 'entry', severity: 'error', file: 'index.html', line: lineAt(html, script.index!), message: `Loads ${script[1]}, but no such file was generated` });
+      }
+    }
+    if (!findEntry(files)) issues.push(missing('No app entry point (expected src/main.tsx)'));
+  }
+
+  if (module === 'backend') {
+    const isPython = [...files.keys()].some(name => name.endsWith('.py'));
+    if (isPython && !files.has('package.json')) {
+      if (!files.has('requirements.txt') && !files.has('pyproject.toml')) issues.push(missing('Missing requirements.txt or pyproject.toml'));
+    } else if (isScriptProject(files)) {
+      if (!files.has('package.json')) issues.push(missing('Missing package.json'));
+      if (!BACKEND_ENTRIES.some(entry => files.has(entry))) issues.push(missing('No server entry point (expected src/server.ts)'));
+    }
+  }
+  return issues;
+};
+
+// Syntax results by loader and content; most files are unchanged between validations
+const syntaxCache = new Map<string, ValidationIssue[]>();
+const SYNTAX_CACHE_LIMIT = 500;
+
+const checkSyntax = async (name: string, content: string): Promise<ValidationIssue[]> => {
+  const loader = SCRIPT_LOADERS[extensionOf(name)];
+  const key = `${loader}\0${content}`;
+  const cached = syntaxCache.get(key);
+  if (cached) return cached.map(issue => ({ ...issue, file: name }));
+
+  let issues: ValidationIssue[] = [];
+  try {
+    await esbuild.transform(content, { loader, sourcefile: name, jsx: 'automatic', logLevel: 'silent' });
+  } catch (error) {
+    const failure = error as esbuild.TransformFailure;
+    if (!Array.isArray(failure.errors)) throw error;
+    issues = failure.errors.map(message => ({
+      check: 'syntax',
+      severity: 'error',
+      file: name,
+      line: message.location?.line,
+      column: message.location ? message.location.column + 1 : undefined,
+      message: message.text,
+    }));
+  }
+  if (syntaxCache.size >= SYNTAX_CACHE_LIMIT) syntaxCache.clear();
+  syntaxCache.set(key, issues);
+  return issues;
+};
+
+const SEVERITY_ORDER = { error: 0, warning: 1 };
+
+/**
+ * Checks a generated module for problems that would stop it from installing or building:
+ * missing entry points and manifests, config files that do not parse, imports of files that
+ * were never generated, undeclared packages and script syntax errors. Types are not checked.
+ */
+export const validateModule = async (module: ModuleKind, entries: FileEntry[]): Promise<ValidationIssue[]> => {
+  const files = new Map(entries.map(file => [normalizePath(file.name), file.content]));
+  const issues = [...checkEntries(module, files), ...checkImports(files)];
+
+  files.forEach((content, name) => {
+    const extension = extensionOf(name);
+    if (extension === 'json' || extension === 'jsonc') issues.push(...checkJson(name, content));
+    else if (extension === 'yml' || extension === 'yaml') issues.push(...checkYaml(name, content));
+  });
+
+  const scripts = [...files].filter(([name]) => SCRIPT_LOADERS[extensionOf(name)]);
+  if (scripts.length > 0) {
+    try {
+      await ensureInitialized();
+      for (const [name, content] of scripts) issues.push(...await checkSyntax(name, content));
+    } catch (error) {
+      // Without esbuild the remaining checks still stand
+      console.warn('Syntax check unavailable', error);
+    }
+  }
+
+  return issues.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+    || (a.file ?? '').localeCompare(b.file ?? '')
+    || (a.line ?? 0) - (b.line ?? 0));
+};
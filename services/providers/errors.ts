@@ -0,0 +1,52 @@
+import { GenerationErrorKind } from "../../types";
+
+/**
+ * A provider failure classified by what the user can do about it. `retryable` failures (rate
+ * limits, dropped connections, output cut off mid-file) are retried automatically before they
+ * are surfaced.
+ */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { status?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryable = options.retryable ?? (kind === 'network' || kind === 'rate-limit');
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => (error as { name?: unknown } | null)?.name === 'AbortError';
+
+const kindForStatus = (status: number): GenerationErrorKind | null => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate-limit';
+  if (status === 408 || status >= 500) return 'network';
+  return null;
+};
+
+// Gemini reports an invalid key as a 400, so messages are checked before falling back to the status
+const kindForMessage = (message: string): GenerationErrorKind | null => {
+  if (/api key|unauthori[sz]ed|permission denied|forbidden|invalid authentication/i.test(message)) return 'auth';
+  if (/quota|rate limit|resource[_ ]exhausted|too many requests/i.test(message)) return 'rate-limit';
+  if (/safety|blocked|content[_ ]filter|prohibited/i.test(message)) return 'safety';
+  if (/network|fetch failed|failed to fetch|connection|ECONNRESET|socket|timed? ?out|unavailable|overloaded/i.test(message)) return 'network';
+  return null;
+};
+
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const rawStatus = (error as { status?: unknown } | null)?.status;
+  // The OpenAI-compatible provider puts the status in the message: "request failed (429): ..."
+  const status = typeof rawStatus === 'number' ? rawStatus : Number(message.match(/\((\d{3})\)/)?.[1]) || undefined;
+
+  const kind = kindForMessage(message)
+    ?? (status ? kindForStatus(status) : null)
+    // fetch rejects with a TypeError when the connection fails or drops mid-body
+    ?? (error instanceof TypeError ? 'network' : error instanceof SyntaxError ? 'malformed' : 'unknown');
+  return new GenerationError(kind, message, { status, cause: error });
+};
@@ -0,0 +1,73 @@
+import { GoogleGenAI } from "@google/genai";
+import { ProviderConfig } from "../../types";
+import { JSONRequest, LLMProvider, ModelTier, TextRequest, parseJSONResponse } from "./provider";
+import { GenerationError } from "./errors";
+
+// Finish reasons meaning the response was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+const DEFAULT_MODELS: Record<ModelTier, string> = {
+  fast: "gemini-2.5-flash",
+  pro: "gemini-3-pro-preview",
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly kind = 'gemini' as const;
+  private readonly apiKey: string;
+  private client: GoogleGenAI | null = null;
+
+  constructor(private readonly config: ProviderConfig) {
+    this.apiKey = config.apiKey || process.env.API_KEY || '';
+  }
+
+  private getClient(): GoogleGenAI {
+    if (!this.apiKey) throw new GenerationError('auth', "API Key is missing");
+    if (!this.client) this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    return this.client;
+  }
+
+  private model(tier: ModelTier) {
+    return this.config.model || DEFAULT_MODELS[tier];
+  }
+
+  async generateJSON<T>({ prompt, schema, tier }: JSONRequest): Promise<T> {
+    const response = await this.getClient().models.generateContent({
+      model: this.model(tier),
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from Gemini");
+    return parseJSONResponse<T>(text);
+  }
+
+  async streamText({ prompt, tier, thinkingBudget, signal }: TextRequest, onChunk?: (chunk: string) => void): Promise<string> {
+    const result = await this.getClient().models.generateContentStream({
+      model: this.model(tier),
+      contents: prompt,
+      config: {
+        ...(thinkingBudget ? { thinkingConfig: { thinkingBudget } } : {}),
+        abortSignal: signal,
+      },
+    });
+
+    let fullText = "";
+    for await (const chunk of result) {
+      signal?.throwIfAborted();
+      const blockReason = chunk.promptFeedback?.blockReason;
+      if (blockReason) throw new GenerationError('safety', `Gemini blocked the prompt (${blockReason})`);
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new GenerationError('safety', `Gemini stopped the response (${finishReason})`);
+      }
+      const text = chunk.text || "";
+      fullText += text;
+      if (onChunk && text) onChunk(text);
+    }
+    return fullText;
+  }
+}
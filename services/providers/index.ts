@@ -0,0 +1,28 @@
+import { ProviderConfig, ProviderKind } from "../../types";
+import { GeminiProvider } from "./geminiProvider";
+import { MockProvider } from "./mockProvider";
+import { OpenAICompatibleProvider } from "./openAIProvider";
+import { LLMProvider } from "./provider";
+
+export type { LLMProvider, ModelTier, JSONRequest, TextRequest } from "./provider";
+export { GenerationError, isAbortError, toGenerationError } from "./errors";
+
+export const DEFAULT_PROVIDER: ProviderConfig = { kind: 'gemini' };
+
+export const PROVIDER_OPTIONS: Array<{ kind: ProviderKind; label: string; description: string }> = [
+  { kind: 'gemini', label: 'Google Gemini', description: 'Hosted Gemini models via the GEMINI_API_KEY' },
+  { kind: 'openai', label: 'OpenAI-compatible', description: 'Any /v1/chat/completions endpoint, including self-hosted models' },
+  { kind: 'mock', label: 'Local Mock', description: 'Deterministic offline output for development and tests' },
+];
+
+export const createProvider = (config: ProviderConfig = DEFAULT_PROVIDER): LLMProvider => {
+  switch (config.kind) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+    case 'gemini':
+    default:
+      return new GeminiProvider(config);
+  }
+};
@@ -0,0 +1,96 @@
+import { ProviderConfig } from "../../types";
+import { JSONRequest, LLMProvider, TextRequest, parseJSONResponse, toJsonSchema } from "./provider";
+import { GenerationError } from "./errors";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Works against any server exposing the OpenAI /chat/completions API (vLLM, Ollama, LM Studio, LiteLLM...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind = 'openai' as const;
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly modelName: string;
+
+  constructor(config: ProviderConfig) {
+    this.baseUrl = (config.baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = config.apiKey || process.env.OPENAI_API_KEY || '';
+    this.modelName = config.model || process.env.OPENAI_MODEL || DEFAULT_MODEL;
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Self-hosted servers often run without auth
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.modelName, ...body }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible request failed (${response.status}): ${detail.slice(0, 500)}`);
+    }
+    return response;
+  }
+
+  async generateJSON<T>({ prompt, schema, task }: JSONRequest): Promise<T> {
+    const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+    const response = await this.post({
+      messages,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: task, schema: toJsonSchema(schema) },
+      },
+    });
+
+    const data = await response.json();
+    const text: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!text) throw new Error("No response from model");
+    return parseJSONResponse<T>(text);
+  }
+
+  async streamText({ prompt, signal }: TextRequest, onChunk?: (chunk: string) => void): Promise<string> {
+    const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+    const response = await this.post({ messages, stream: true }, signal);
+    if (!response.body) throw new Error("Streaming is not supported by this endpoint");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let fullText = "";
+
+    // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return fullText;
+
+        const choice = JSON.parse(payload)?.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new GenerationError('safety', "The response was blocked by the provider's content filter");
+        const text: string | undefined = choice?.delta?.content;
+        if (text) {
+          fullText += text;
+          if (onChunk) onChunk(text);
+        }
+      }
+    }
+    return fullText;
+  }
+}
@@ -0,0 +1,55 @@
+import { Schema, Type } from "@google/genai";
+import { ProviderKind } from "../../types";
+
+// 'fast' is used for structured planning calls, 'pro' for long code generation streams
+export type ModelTier = 'fast' | 'pro';
+
+export interface JSONRequest {
+  prompt: string;
+  schema: Schema;
+  tier: ModelTier;
+  // Stable label for the call (e.g. 'blueprint'); the mock provider keys its fixtures on it
+  task: string;
+}
+
+export interface TextRequest {
+  prompt: string;
+  tier: ModelTier;
+  task: string;
+  thinkingBudget?: number;
+  // Stops the stream; streamText then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  generateJSON<T>(request: JSONRequest): Promise<T>;
+  streamText(request: TextRequest, onChunk?: (chunk: string) => void): Promise<string>;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+// Converts the Gemini schema dialect (upper-case type enums) to standard JSON Schema
+export const toJsonSchema = (schema: Schema): JsonSchema => {
+  const result: JsonSchema = {};
+  if (schema.type && schema.type !== Type.TYPE_UNSPECIFIED) {
+    const type = schema.type.toLowerCase();
+    result.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+// Models sometimes wrap JSON in markdown fences even when asked not to
+export const parseJSONResponse = <T>(text: string): T => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  return JSON.parse(trimmed) as T;
+};
@@ -0,0 +1,52 @@
+import { FieldType, OnDeleteAction, RelationshipCardinality, SchemaField, SchemaModel, SchemaRelationship } from "../types";
+
+export const FIELD_TYPES: FieldType[] = ['uuid', 'string', 'text', 'integer', 'bigint', 'float', 'decimal', 'boolean', 'datetime', 'date', 'json', 'enum'];
+
+export const CARDINALITIES: RelationshipCardinality[] = ['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many'];
+
+export const ON_DELETE_ACTIONS: OnDeleteAction[] = ['CASCADE', 'SET NULL', 'RESTRICT', 'NO ACTION'];
+
+export const createField = (name: string, type: FieldType = 'string', overrides: Partial<SchemaField> = {}): SchemaField => ({
+  name,
+  type,
+  nullable: false,
+  unique: false,
+  index: false,
+  primaryKey: false,
+  ...overrides,
+});
+
+export const describeField = (field: SchemaField): string => {
+  const flags = [
+    field.primaryKey && 'pk',
+    field.unique && 'unique',
+    field.index && 'index',
+    field.nullable && 'nullable',
+    field.defaultValue && `default ${field.defaultValue}`,
+  ].filter(Boolean);
+  return `${field.name}: ${field.type}${flags.length ? ` (${flags.join(', ')})` : ''}`;
+};
+
+export const describeRelationship = (relationship: SchemaRelationship): string => {
+  const details = [
+    relationship.foreignKey && `fk ${relationship.foreignKey}`,
+    relationship.onDelete && `on delete ${relationship.onDelete}`,
+  ].filter(Boolean);
+  return `${relationship.cardinality} ${relationship.target}${details.length ? ` (${details.join(', ')})` : ''}`;
+};
+
+export const findModel = (models: SchemaModel[], name: string) =>
+  models.find(model => model.name.toLowerCase() === name.toLowerCase());
+
+// Which model physically stores the foreign key column for a relationship declared on `model`
+export const foreignKeyOwner = (model: SchemaModel, relationship: SchemaRelationship): string | null => {
+  switch (relationship.cardinality) {
+    case 'many-to-one':
+    case 'one-to-one':
+      return model.name;
+    case 'one-to-many':
+      return relationship.target;
+    default:
+      return null;
+  }
+};
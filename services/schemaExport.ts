@@ -0,0 +1,24 @@
+import { Blueprint } from "../types";
+import { FileEntry } from "./fileProtocol";
+import { SqlDialect, buildSchemaGraph, detectDialect } from "./schemaGraph";
+import { generateDDL } from "./sqlExport";
+import { generateDrizzleSchema, generatePrismaSchema, generateTypeORMEntities } from "./ormExport";
+
+const DIALECTS: SqlDialect[] = ['postgres', 'mysql', 'sqlite'];
+
+// Deterministic schema artifacts derived from blueprint.databaseSchema; no model calls involved
+export const generateSchemaFiles = (blueprint: Blueprint): FileEntry[] => {
+  const models = blueprint.databaseSchema?.models || [];
+  if (models.length === 0) return [];
+
+  const graph = buildSchemaGraph(models);
+  // ORM targets follow the database named in the tech stack; raw DDL is emitted for every dialect
+  const dialect = detectDialect(blueprint);
+
+  return [
+    ...DIALECTS.map(d => ({ name: `database/${d}/schema.sql`, content: generateDDL(graph, d) })),
+    { name: 'database/prisma/schema.prisma', content: generatePrismaSchema(graph, dialect) },
+    { name: 'database/drizzle/schema.ts', content: generateDrizzleSchema(graph, dialect) },
+    ...generateTypeORMEntities(graph, dialect).map(file => ({ name: `database/typeorm/entities/${file.name}`, content: file.content })),
+  ];
+};
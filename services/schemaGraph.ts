@@ -0,0 +1,139 @@
+import { Blueprint, OnDeleteAction, SchemaField, SchemaModel } from "../types";
+import { createField, findModel, foreignKeyOwner } from "./schema";
+
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+// A foreign key column on `owner` pointing at the primary key of `target`
+export interface ForeignKeyLink {
+  owner: string;
+  column: string;
+  target: string;
+  targetColumn: string;
+  unique: boolean;
+  onDelete?: OnDeleteAction;
+  // Property names used by ORMs on each side of the relation
+  ownerProperty: string;
+  targetProperty: string;
+}
+
+export interface ManyToManyLink {
+  left: string;
+  right: string;
+  table: string;
+  leftColumn: string;
+  rightColumn: string;
+  leftProperty: string;
+  rightProperty: string;
+}
+
+export interface SchemaGraph {
+  models: SchemaModel[];
+  // Model fields plus any FK columns a relationship needs but the model did not declare
+  columns: Map<string, SchemaField[]>;
+  foreignKeys: ForeignKeyLink[];
+  manyToMany: ManyToManyLink[];
+}
+
+export const snakeCase = (value: string) =>
+  value.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').toLowerCase();
+
+export const lowerFirst = (value: string) => value.charAt(0).toLowerCase() + value.slice(1);
+
+export const pluralize = (value: string) => {
+  if (/[^aeiou]y$/i.test(value)) return value.slice(0, -1) + 'ies';
+  if (/(s|x|z|ch|sh)$/i.test(value)) return value + 'es';
+  return value + 's';
+};
+
+export const tableName = (model: string) => pluralize(snakeCase(model));
+
+export const primaryKeyOf = (model: SchemaModel): SchemaField =>
+  model.fields.find(field => field.primaryKey) || createField('id', 'uuid', { primaryKey: true });
+
+// Picks a property name that does not collide with existing columns or relation properties
+const uniqueName = (preferred: string, taken: Set<string>) => {
+  let name = preferred;
+  let suffix = 2;
+  while (taken.has(name.toLowerCase())) name = `${preferred}${suffix++}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+export const detectDialect = (blueprint: Blueprint): SqlDialect => {
+  const stack = blueprint.techStack.database.join(' ').toLowerCase();
+  if (/mysql|mariadb|planetscale|aurora mysql/.test(stack)) return 'mysql';
+  if (/sqlite|turso|libsql|\bd1\b/.test(stack)) return 'sqlite';
+  return 'postgres';
+};
+
+export const buildSchemaGraph = (models: SchemaModel[]): SchemaGraph => {
+  // Models without a declared primary key get a synthetic `id` so every export has something to reference
+  const columns = new Map(models.map(model => [
+    model.name,
+    model.fields.some(field => field.primaryKey) ? [...model.fields] : [primaryKeyOf(model), ...model.fields],
+  ]));
+  const taken = new Map(models.map(model => [model.name, new Set(model.fields.map(field => field.name.toLowerCase()))]));
+  const foreignKeys: ForeignKeyLink[] = [];
+  const manyToMany: ManyToManyLink[] = [];
+
+  models.forEach(model => {
+    model.relationships.forEach(relationship => {
+      const target = findModel(models, relationship.target);
+      if (!target) return;
+
+      if (relationship.cardinality === 'many-to-many') {
+        const [left, right] = [model, target].sort((a, b) => a.name.localeCompare(b.name));
+        if (manyToMany.some(link => link.left === left.name && link.right === right.name)) return;
+        const leftColumn = `${snakeCase(left.name)}_id`;
+        const rightColumn = left === right ? `related_${snakeCase(right.name)}_id` : `${snakeCase(right.name)}_id`;
+        manyToMany.push({
+          left: left.name,
+          right: right.name,
+          table: `${snakeCase(left.name)}_${tableName(right.name)}`,
+          leftColumn,
+          rightColumn,
+          leftProperty: uniqueName(lowerFirst(pluralize(right.name)), taken.get(left.name)!),
+          rightProperty: uniqueName(lowerFirst(pluralize(left.name)), taken.get(right.name)!),
+        });
+        return;
+      }
+
+      const ownerName = foreignKeyOwner(model, relationship)!;
+      const owner = ownerName === model.name ? model : target;
+      const referenced = owner === model ? target : model;
+      const column = relationship.foreignKey || `${lowerFirst(referenced.name)}Id`;
+
+      const existing = foreignKeys.find(link => link.owner === owner.name && link.column.toLowerCase() === column.toLowerCase());
+      if (existing) {
+        // The other side of an already-registered relation; keep whichever side specified onDelete
+        existing.onDelete = existing.onDelete || relationship.onDelete;
+        return;
+      }
+
+      const ownerColumns = columns.get(owner.name)!;
+      if (!ownerColumns.some(field => field.name.toLowerCase() === column.toLowerCase())) {
+        const pk = primaryKeyOf(referenced);
+        ownerColumns.push(createField(column, pk.type, {
+          nullable: relationship.onDelete === 'SET NULL',
+          index: true,
+        }));
+        taken.get(owner.name)!.add(column.toLowerCase());
+      }
+
+      const unique = relationship.cardinality === 'one-to-one';
+      const ownerPropertyBase = column.replace(/_?id$/i, '') || lowerFirst(referenced.name);
+      foreignKeys.push({
+        owner: owner.name,
+        column,
+        target: referenced.name,
+        targetColumn: primaryKeyOf(referenced).name,
+        unique,
+        onDelete: relationship.onDelete,
+        ownerProperty: uniqueName(ownerPropertyBase, taken.get(owner.name)!),
+        targetProperty: uniqueName(lowerFirst(unique ? owner.name : pluralize(owner.name)), taken.get(referenced.name)!),
+      });
+    });
+  });
+
+  return { models, columns, foreignKeys, manyToMany };
+};
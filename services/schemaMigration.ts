@@ -0,0 +1,209 @@
+import { Blueprint, FieldType, OnDeleteAction, RelationshipCardinality, SchemaField, SchemaModel, SchemaRelationship } from "../types";
+import { CARDINALITIES, FIELD_TYPES, ON_DELETE_ACTIONS, createField, findModel } from "./schema";
+
+// Blueprints generated before the typed schema stored fields and relationships as free-form strings,
+// e.g. "ownerId: UUID (FK -> User.id)" or "Project belongs to User". This shim parses them.
+
+const TYPE_ALIASES: Array<[RegExp, FieldType]> = [
+  [/^(uuid|guid|objectid)/, 'uuid'],
+  [/^(bigint|bigserial|long|int8)/, 'bigint'],
+  [/^(int|integer|serial|smallint|tinyint|int4)/, 'integer'],
+  [/^(float|double|real|number)/, 'float'],
+  [/^(decimal|numeric|money)/, 'decimal'],
+  [/^(bool)/, 'boolean'],
+  [/^(datetime|timestamp|timestamptz|instant)/, 'datetime'],
+  [/^date/, 'date'],
+  [/^(json|jsonb|object|array|map)/, 'json'],
+  [/^enum/, 'enum'],
+  [/^(text|longtext|mediumtext|clob)/, 'text'],
+  [/^(string|varchar|char|citext|email|url)/, 'string'],
+];
+
+export const parseFieldType = (token: string): FieldType => {
+  const lower = token.toLowerCase();
+  if ((FIELD_TYPES as string[]).includes(lower)) return lower as FieldType;
+  return TYPE_ALIASES.find(([pattern]) => pattern.test(lower))?.[1] || 'string';
+};
+
+interface LegacyField {
+  field: SchemaField;
+  // Model referenced by an inline "FK -> Model.id" annotation
+  references?: string;
+}
+
+export const parseLegacyField = (raw: string): LegacyField => {
+  const text = raw.trim();
+  const match = text.match(/^["'`]?([A-Za-z_]\w*)["'`]?\s*[:\s(]\s*([\s\S]*)$/);
+  const name = match ? match[1] : text.replace(/\W+/g, '_');
+  const rest = match ? match[2] : '';
+  const lower = rest.toLowerCase();
+
+  const typeToken = rest.match(/[A-Za-z]+/)?.[0] || 'string';
+  const primaryKey = /\b(pk|primary key|primary)\b|@id\b/.test(lower);
+  const notNull = /not null|required/.test(lower);
+  const nullable = !primaryKey && !notNull && (/\?/.test(rest) || /\b(nullable|optional|null)\b/.test(lower));
+  const defaultMatch = rest.match(/@?default\s*[:=(]?\s*([^,()\s]+(?:\(\))?)/i);
+  const references = rest.match(/(?:\bfk\b|\breferences\b|\bref\b|->)\s*(?:->|to\b|:)?\s*([A-Za-z_]\w*)(?:\.\w+)?/i)?.[1];
+
+  return {
+    field: createField(name, parseFieldType(typeToken), {
+      primaryKey,
+      nullable,
+      unique: !primaryKey && /\bunique\b/.test(lower),
+      index: /\b(index|indexed)\b/.test(lower) || Boolean(references),
+      defaultValue: defaultMatch?.[1],
+    }),
+    references: references && references.toLowerCase() !== 'fk' ? references : undefined,
+  };
+};
+
+const lowerFirst = (value: string) => value.charAt(0).toLowerCase() + value.slice(1);
+const snake = (value: string) => value.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+// Finds the column in `model` that points at `target`, by annotation first and then by naming convention
+const inferForeignKey = (model: SchemaModel, target: string, references: Map<string, string>): string | undefined => {
+  const annotated = model.fields.find(field => references.get(`${model.name}.${field.name}`)?.toLowerCase() === target.toLowerCase());
+  if (annotated) return annotated.name;
+
+  const candidates = [`${lowerFirst(target)}Id`, `${snake(target)}_id`].map(name => name.toLowerCase());
+  return model.fields.find(field => candidates.includes(field.name.toLowerCase()))?.name;
+};
+
+// Model names come from model output, so they are matched literally
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const parseLegacyRelationship = (raw: string, modelName: string, modelNames: string[]): SchemaRelationship | null => {
+  const lower = raw.toLowerCase();
+
+  const mentioned = modelNames
+    .filter(name => name.toLowerCase() !== modelName.toLowerCase())
+    .find(name => new RegExp(`\\b${escapeRegExp(name)}(e?s)?\\b`, 'i').test(raw));
+  // Self-references ("Category has many Category") only count when no other model is named
+  const self = escapeRegExp(modelName);
+  const target = mentioned || (new RegExp(`\\b${self}\\b.*\\b${self}\\b`, 'i').test(raw) ? modelName : undefined);
+  if (!target) return null;
+
+  let cardinality: RelationshipCardinality = 'many-to-one';
+  if (/many[-\s]to[-\s]many|\bn:m\b|\bm:n\b|belongs to many|has and belongs/.test(lower)) cardinality = 'many-to-many';
+  else if (/has many|one[-\s]to[-\s]many|\b1:n\b|\b1:m\b|\b1:\*/.test(lower)) cardinality = 'one-to-many';
+  else if (/has one|one[-\s]to[-\s]one|\b1:1\b/.test(lower)) cardinality = 'one-to-one';
+
+  const onDeleteMatch = lower.match(/on delete (cascade|set null|restrict|no action)/);
+  const onDelete = onDeleteMatch
+    ? (onDeleteMatch[1].toUpperCase() as OnDeleteAction)
+    : /\bcascade\b/.test(lower) ? 'CASCADE' : undefined;
+
+  const foreignKey = raw.match(/\b(?:fk|foreign key|via)\b\s*[:=]?\s*([A-Za-z_]\w*)/i)?.[1];
+
+  return { target, cardinality, foreignKey, onDelete };
+};
+
+type RawEntry = Record<string, unknown>;
+
+const isEntry = (value: unknown): value is RawEntry => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | undefined => (typeof value === 'string' && value.trim() ? value : undefined);
+
+// Model output sometimes writes defaults as bare literals (`"defaultValue": 0`); anything else is dropped
+const normalizeDefault = (value: unknown): string | undefined => {
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return nonEmptyString(value);
+};
+
+const normalizeField = (value: unknown): LegacyField | null => {
+  if (typeof value === 'string') return value.trim() ? parseLegacyField(value) : null;
+  if (!isEntry(value)) return null;
+
+  const name = nonEmptyString(value.name);
+  if (!name) return null;
+  return {
+    field: createField(name, parseFieldType(nonEmptyString(value.type) || 'string'), {
+      nullable: Boolean(value.nullable),
+      unique: Boolean(value.unique),
+      index: Boolean(value.index),
+      primaryKey: Boolean(value.primaryKey),
+      defaultValue: normalizeDefault(value.defaultValue),
+    }),
+  };
+};
+
+const normalizeRelationship = (value: unknown, modelName: string, modelNames: string[]): SchemaRelationship | null => {
+  if (typeof value === 'string') return parseLegacyRelationship(value, modelName, modelNames);
+  if (!isEntry(value)) return null;
+
+  const target = nonEmptyString(value.target);
+  if (!target) return null;
+  return {
+    target,
+    cardinality: CARDINALITIES.find(cardinality => cardinality === value.cardinality) || 'many-to-one',
+    foreignKey: nonEmptyString(value.foreignKey),
+    onDelete: ON_DELETE_ACTIONS.find(action => action === value.onDelete),
+  };
+};
+
+const isNamedModel = (value: unknown): value is RawEntry & { name: string } =>
+  isEntry(value) && nonEmptyString(value.name) !== undefined;
+
+// Accepts legacy string schemas, partially typed model output, or already-normalized data
+export const normalizeSchemaModels = (rawModels: unknown): SchemaModel[] => {
+  if (!Array.isArray(rawModels)) return [];
+
+  const named = rawModels.filter(isNamedModel);
+  const modelNames = named.map(model => model.name);
+  const references = new Map<string, string>();
+
+  const models: SchemaModel[] = named.map(raw => {
+    const name = raw.name;
+    const fields = (Array.isArray(raw.fields) ? raw.fields : [])
+      .map(normalizeField)
+      .filter((parsed): parsed is LegacyField => parsed !== null)
+      .map(parsed => {
+        if (parsed.references) references.set(`${name}.${parsed.field.name}`, parsed.references);
+        return parsed.field;
+      });
+    const relationships = (Array.isArray(raw.relationships) ? raw.relationships : [])
+      .map(value => normalizeRelationship(value, name, modelNames))
+      .filter((relationship): relationship is SchemaRelationship => relationship !== null);
+    return { name, fields, relationships };
+  });
+
+  models.forEach(model => {
+    // Inline FK annotations imply a many-to-one even when no relationship string mentions it
+    model.fields.forEach(field => {
+      const target = references.get(`${model.name}.${field.name}`);
+      const targetModel = target && findModel(models, target);
+      if (targetModel && !model.relationships.some(rel => rel.target.toLowerCase() === targetModel.name.toLowerCase())) {
+        model.relationships.push({ target: targetModel.name, cardinality: 'many-to-one', foreignKey: field.name });
+      }
+    });
+
+    model.relationships.forEach(relationship => {
+      if (relationship.foreignKey || relationship.cardinality === 'many-to-many') return;
+      const owner = relationship.cardinality === 'one-to-many' ? findModel(models, relationship.target) : model;
+      const referenced = relationship.cardinality === 'one-to-many' ? model.name : relationship.target;
+      if (owner) relationship.foreignKey = inferForeignKey(owner, referenced, references);
+    });
+  });
+
+  return models;
+};
+
+export const normalizeBlueprint = (blueprint: Blueprint): Blueprint => ({
+  ...blueprint,
+  techStack: {
+    frontend: blueprint.techStack?.frontend || [],
+    backend: blueprint.techStack?.backend || [],
+    database: blueprint.techStack?.database || [],
+    devOps: blueprint.techStack?.devOps || [],
+  },
+  authentication: blueprint.authentication || [],
+  securityFeatures: blueprint.securityFeatures || [],
+  architecture: {
+    pattern: blueprint.architecture?.pattern || '',
+    explanation: blueprint.architecture?.explanation || '',
+    flowSteps: blueprint.architecture?.flowSteps || [],
+  },
+  databaseSchema: {
+    models: normalizeSchemaModels(blueprint.databaseSchema?.models),
+  },
+});
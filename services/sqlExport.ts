@@ -0,0 +1,147 @@
+import { FieldType, SchemaField } from "../types";
+import { SchemaGraph, SqlDialect, primaryKeyOf, snakeCase, tableName } from "./schemaGraph";
+import { findModel } from "./schema";
+
+const COLUMN_TYPES: Record<SqlDialect, Record<FieldType, string>> = {
+  postgres: {
+    uuid: 'UUID', string: 'VARCHAR(255)', text: 'TEXT', integer: 'INTEGER', bigint: 'BIGINT', float: 'DOUBLE PRECISION',
+    decimal: 'NUMERIC(12, 2)', boolean: 'BOOLEAN', datetime: 'TIMESTAMPTZ', date: 'DATE', json: 'JSONB', enum: 'VARCHAR(64)',
+  },
+  mysql: {
+    uuid: 'CHAR(36)', string: 'VARCHAR(255)', text: 'TEXT', integer: 'INT', bigint: 'BIGINT', float: 'DOUBLE',
+    decimal: 'DECIMAL(12, 2)', boolean: 'BOOLEAN', datetime: 'DATETIME(3)', date: 'DATE', json: 'JSON', enum: 'VARCHAR(64)',
+  },
+  sqlite: {
+    uuid: 'TEXT', string: 'TEXT', text: 'TEXT', integer: 'INTEGER', bigint: 'INTEGER', float: 'REAL',
+    decimal: 'NUMERIC', boolean: 'INTEGER', datetime: 'TEXT', date: 'TEXT', json: 'TEXT', enum: 'TEXT',
+  },
+};
+
+const quote = (dialect: SqlDialect, identifier: string) =>
+  dialect === 'mysql' ? `\`${identifier}\`` : `"${identifier}"`;
+
+const isNow = (value: string) => /^(now\(\)|current_timestamp(\(\d*\))?)$/i.test(value);
+const isUuid = (value: string) => /^(gen_random_uuid\(\)|uuid\(\)|uuid_generate_v4\(\)|cuid\(\))$/i.test(value);
+
+// Translates the dialect-neutral defaults stored in the blueprint (now(), gen_random_uuid(), 'draft', 0, true)
+export const sqlDefault = (dialect: SqlDialect, field: SchemaField): string | null => {
+  const value = field.defaultValue?.trim();
+  if (!value) return null;
+
+  if (isNow(value)) return dialect === 'mysql' ? (field.type === 'datetime' ? 'CURRENT_TIMESTAMP(3)' : 'CURRENT_TIMESTAMP') : 'CURRENT_TIMESTAMP';
+  if (isUuid(value)) {
+    if (dialect === 'postgres') return 'gen_random_uuid()';
+    if (dialect === 'mysql') return '(UUID())';
+    return "(lower(hex(randomblob(16))))";
+  }
+  if (/^(true|false)$/i.test(value)) {
+    if (dialect === 'sqlite') return value.toLowerCase() === 'true' ? '1' : '0';
+    return value.toUpperCase();
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) return value;
+  if (/^'.*'$/.test(value)) return value;
+  if (/^".*"$/.test(value)) return `'${value.slice(1, -1).replace(/'/g, "''")}'`;
+  // Any other function call is passed through; MySQL and SQLite need expression defaults parenthesized
+  if (/\)$/.test(value)) return dialect === 'postgres' ? value : `(${value})`;
+  return `'${value.replace(/'/g, "''")}'`;
+};
+
+// Integer primary keys without an explicit default become auto-incrementing
+const isAutoIncrement = (field: SchemaField) =>
+  field.primaryKey && (field.type === 'integer' || field.type === 'bigint') && !field.defaultValue;
+
+const columnDefinition = (dialect: SqlDialect, field: SchemaField, inlinePrimaryKey: boolean): string => {
+  const parts = [quote(dialect, snakeCase(field.name)), COLUMN_TYPES[dialect][field.type]];
+
+  if (isAutoIncrement(field)) {
+    if (dialect === 'postgres') parts.push('GENERATED BY DEFAULT AS IDENTITY');
+    if (dialect === 'mysql') parts.push('AUTO_INCREMENT');
+  }
+  if (inlinePrimaryKey) {
+    // SQLite only aliases rowid (and auto-increments) for an inline INTEGER PRIMARY KEY
+    parts.push('PRIMARY KEY');
+  }
+  if (!field.nullable && !inlinePrimaryKey) parts.push('NOT NULL');
+  if (field.unique && !field.primaryKey) parts.push('UNIQUE');
+
+  const defaultValue = sqlDefault(dialect, field);
+  if (defaultValue) parts.push(`DEFAULT ${defaultValue}`);
+  return parts.join(' ');
+};
+
+export const generateDDL = (graph: SchemaGraph, dialect: SqlDialect): string => {
+  const q = (identifier: string) => quote(dialect, identifier);
+  const statements: string[] = [`-- Generated from the blueprint database schema (${dialect})`];
+  if (dialect === 'sqlite') statements.push('PRAGMA foreign_keys = ON;');
+
+  graph.models.forEach(model => {
+    const table = tableName(model.name);
+    const columns = graph.columns.get(model.name) || [];
+    const primaryKeys = columns.filter(field => field.primaryKey);
+    const inlinePk = primaryKeys.length === 1 && dialect === 'sqlite';
+
+    const lines = columns.map(field => '  ' + columnDefinition(dialect, field, inlinePk && field.primaryKey));
+    if (primaryKeys.length > 0 && !inlinePk) {
+      lines.push(`  PRIMARY KEY (${primaryKeys.map(field => q(snakeCase(field.name))).join(', ')})`);
+    }
+
+    // SQLite cannot add constraints after the fact, so its foreign keys are declared inline
+    if (dialect === 'sqlite') {
+      graph.foreignKeys.filter(link => link.owner === model.name).forEach(link => {
+        lines.push(`  FOREIGN KEY (${q(snakeCase(link.column))}) REFERENCES ${q(tableName(link.target))} (${q(snakeCase(link.targetColumn))})${link.onDelete ? ` ON DELETE ${link.onDelete}` : ''}`);
+      });
+    }
+
+    statements.push(`CREATE TABLE ${q(table)} (\n${lines.join(',\n')}\n);`);
+  });
+
+  graph.manyToMany.forEach(link => {
+    const left = findModel(graph.models, link.left)!;
+    const right = findModel(graph.models, link.right)!;
+    const leftPk = primaryKeyOf(left);
+    const rightPk = primaryKeyOf(right);
+    const lines = [
+      `  ${q(link.leftColumn)} ${COLUMN_TYPES[dialect][leftPk.type]} NOT NULL`,
+      `  ${q(link.rightColumn)} ${COLUMN_TYPES[dialect][rightPk.type]} NOT NULL`,
+      `  PRIMARY KEY (${q(link.leftColumn)}, ${q(link.rightColumn)})`,
+    ];
+    if (dialect === 'sqlite') {
+      lines.push(`  FOREIGN KEY (${q(link.leftColumn)}) REFERENCES ${q(tableName(link.left))} (${q(snakeCase(leftPk.name))}) ON DELETE CASCADE`);
+      lines.push(`  FOREIGN KEY (${q(link.rightColumn)}) REFERENCES ${q(tableName(link.right))} (${q(snakeCase(rightPk.name))}) ON DELETE CASCADE`);
+    }
+    statements.push(`CREATE TABLE ${q(link.table)} (\n${lines.join(',\n')}\n);`);
+  });
+
+  if (dialect !== 'sqlite') {
+    graph.foreignKeys.forEach(link => {
+      const owner = tableName(link.owner);
+      const column = snakeCase(link.column);
+      statements.push(
+        `ALTER TABLE ${q(owner)} ADD CONSTRAINT ${q(`fk_${owner}_${column}`)} FOREIGN KEY (${q(column)}) REFERENCES ${q(tableName(link.target))} (${q(snakeCase(link.targetColumn))})${link.onDelete ? ` ON DELETE ${link.onDelete}` : ''};`
+      );
+    });
+    graph.manyToMany.forEach(link => {
+      const left = findModel(graph.models, link.left)!;
+      const right = findModel(graph.models, link.right)!;
+      statements.push(`ALTER TABLE ${q(link.table)} ADD CONSTRAINT ${q(`fk_${link.table}_${link.leftColumn}`)} FOREIGN KEY (${q(link.leftColumn)}) REFERENCES ${q(tableName(link.left))} (${q(snakeCase(primaryKeyOf(left).name))}) ON DELETE CASCADE;`);
+      statements.push(`ALTER TABLE ${q(link.table)} ADD CONSTRAINT ${q(`fk_${link.table}_${link.rightColumn}`)} FOREIGN KEY (${q(link.rightColumn)}) REFERENCES ${q(tableName(link.right))} (${q(snakeCase(primaryKeyOf(right).name))}) ON DELETE CASCADE;`);
+    });
+  }
+
+  // Unique columns already carry an index; one-to-one foreign keys get a unique index
+  graph.models.forEach(model => {
+    const table = tableName(model.name);
+    (graph.columns.get(model.name) || []).forEach(field => {
+      const column = snakeCase(field.name);
+      const link = graph.foreignKeys.find(fk => fk.owner === model.name && fk.column === field.name);
+      if (field.primaryKey || field.unique) return;
+      if (link?.unique) {
+        statements.push(`CREATE UNIQUE INDEX ${q(`uq_${table}_${column}`)} ON ${q(table)} (${q(column)});`);
+      } else if (field.index || link) {
+        statements.push(`CREATE INDEX ${q(`idx_${table}_${column}`)} ON ${q(table)} (${q(column)});`);
+      }
+    });
+  });
+
+  return statements.join('\n\n') + '\n';
+};
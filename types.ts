@@ -6,16 +6,58 @@ export enum AppStatus {
   ERROR = 'ERROR',
 }
 
+// Lifecycle of one generated module, alongside the overall AppStatus
+export enum ModuleStatus {
+  IDLE = 'IDLE',
+  QUEUED = 'QUEUED',
+  STREAMING = 'STREAMING',
+  DONE = 'DONE',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
 export enum TabOption {
   SUMMARY = 'Summary',
   STACK = 'Tech Stack',
   ARCHITECTURE = 'Architecture',
   DATABASE = 'Database',
+  SCHEMA_EXPORT = 'Schema Export',
   FRONTEND = 'Frontend Code',
   BACKEND = 'Backend Code',
   DEPLOYMENT = 'Deployment',
 }
 
+export type FieldType = 'uuid' | 'string' | 'text' | 'integer' | 'bigint' | 'float' | 'decimal' | 'boolean' | 'datetime' | 'date' | 'json' | 'enum';
+
+export type RelationshipCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
+export type OnDeleteAction = 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
+
+export interface SchemaField {
+  name: string;
+  type: FieldType;
+  nullable: boolean;
+  defaultValue?: string;
+  unique: boolean;
+  index: boolean;
+  primaryKey: boolean;
+}
+
+export interface SchemaRelationship {
+  // Name of the related model
+  target: string;
+  cardinality: RelationshipCardinality;
+  // Column holding the reference: on this model for many-to-one / one-to-one, on the target for one-to-many
+  foreignKey?: string;
+  onDelete?: OnDeleteAction;
+}
+
+export interface SchemaModel {
+  name: string;
+  fields: SchemaField[];
+  relationships: SchemaRelationship[];
+}
+
 // Structured output for the initial blueprint
 export interface Blueprint {
   appName: string;
@@ -34,11 +76,7 @@ export interface Blueprint {
     flowSteps: string[];
   };
   databaseSchema: {
-    models: Array<{
-      name: string;
-      fields: string[];
-      relationships: string[];
-    }>;
+    models: SchemaModel[];
   };
   securityFeatures: string[];
   estimatedComplexity: {
@@ -57,12 +95,102 @@ export interface GeneratedCodeModule {
   description: string;
 }
 
+// Generated code modules; each streams its own `<file name="...">` output
+export type ModuleKind = 'frontend' | 'backend' | 'deployment';
+
+export type GenerationErrorKind = 'auth' | 'rate-limit' | 'safety' | 'network' | 'malformed' | 'unknown';
+
+export interface ModuleState {
+  status: ModuleStatus;
+  // Set when the module FAILED
+  error?: { kind: GenerationErrorKind; message: string };
+  // Attempt number while retrying after a transient failure
+  attempt?: number;
+}
+
+// A single file parsed out of a module's `<file name="...">` output
+export interface ParsedFile {
+  name: string;
+  path: string[];
+  content: string;
+  language: string;
+}
+
+// A build or runtime error from the live preview, located in a generated file where possible
+export interface PreviewErrorReport {
+  kind: 'build' | 'runtime';
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  lineText?: string;
+  stack?: string;
+}
+
+export type DatabaseEngine = 'postgres' | 'mysql';
+
+export type DatabaseErrorKind = 'auth' | 'network' | 'permission' | 'database' | 'unsupported' | 'companion' | 'unknown';
+
+// Outcome of connecting to a real database through the companion server
+export type DatabaseCheckResult =
+  | { ok: true; engine: DatabaseEngine; version: string; connectMs: number; queryMs: number; tables: string[] }
+  | { ok: false; kind: DatabaseErrorKind; message: string; code?: string };
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+// Which LLM backend a project generates with; unset fields fall back to provider defaults
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
 export interface ProjectState {
   status: AppStatus;
+  provider: ProviderConfig;
   requirements: string;
   blueprint: Blueprint | null;
   frontendCode: string | null;
   backendCode: string | null;
   deploymentGuide: string | null;
+  // Module output as generated, before any edits; missing on projects saved before editing existed
+  generatedCode?: Partial<Record<ModuleKind, string>>;
+  // Missing on projects saved before per-module status existed
+  moduleStates?: Record<ModuleKind, ModuleState>;
   error: string | null;
-}
\ No newline at end of file
+}
+
+// Persisted workspace entry stored in IndexedDB
+export interface SavedProject extends ProjectState {
+  id: string;
+  name: string;
+  activeTab: TabOption;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One module's output at a point in time: each finished generation, plus edits set aside before being replaced
+export interface CodeSnapshot {
+  id: string;
+  projectId: string;
+  module: ModuleKind;
+  source: 'generation' | 'edits';
+  content: string;
+  createdAt: number;
+}
+
+// Where a project's files were last written on disk, and what each file contained at that point
+export interface FolderSyncBinding {
+  projectId: string;
+  kind: 'directory' | 'companion';
+  // Folder name for a picked directory, absolute path for the companion
+  label: string;
+  handle?: FileSystemDirectoryHandle;
+  root?: string;
+  // File name to content hash as of the last sync
+  files: Record<string, string>;
+  syncedAt?: number;
+}
+
+export type ProjectSummary = Pick<SavedProject, 'id' | 'name' | 'status' | 'createdAt' | 'updatedAt'>;